@@ -0,0 +1,34 @@
+import type { AngleAxis } from '@/services/coordinateParser';
+import type { LatLon } from '@/services/geometry';
+import { formatCoordinate, formatCoordinateAxis } from '@/services/coordinateFormat';
+import { useUIStore } from '@/stores/ui';
+
+/**
+ * Composable that writes positions in the coordinate format chosen in the display settings
+ * @returns formatters for templates and a copy-to-clipboard action using the same format
+ */
+export function useCoordinateFormat() {
+  const uiStore = useUIStore();
+
+  function formatLatLon(coordinate: LatLon): string {
+    return formatCoordinate(coordinate, uiStore.coordinateDisplay);
+  }
+
+  // Latitude or longitude alone, e.g. to pick a parallel or meridian
+  function formatAxis(coordinate: LatLon, axis: AngleAxis): string {
+    return formatCoordinateAxis(coordinate, axis, uiStore.coordinateDisplay);
+  }
+
+  async function copyCoordinate(coordinate: LatLon): Promise<void> {
+    const text = formatLatLon(coordinate);
+    try {
+      await navigator.clipboard.writeText(text);
+      uiStore.addToast(`Copied ${text}`, 'success');
+    } catch (error) {
+      console.error('Failed to copy coordinates:', error);
+      uiStore.addToast('Could not copy to the clipboard', 'error');
+    }
+  }
+
+  return { formatLatLon, formatAxis, copyCoordinate };
+}
@@ -0,0 +1,22 @@
+import { computed } from 'vue';
+import { describeParsedCoordinate, parseCoordinates } from '@/services/coordinateParser';
+
+/**
+ * Composable that reads a coordinate field as it is typed
+ * @param text - getter for the field's text
+ * @returns the parse result, a hint telling how the text was read, and the field's error messages
+ */
+export function useCoordinateInput(text: () => string | null | undefined) {
+  const result = computed(() => parseCoordinates(text()));
+
+  const hint = computed(() =>
+    result.value.coordinate ? describeParsedCoordinate(result.value.coordinate) : ''
+  );
+
+  // An empty field is not an error until it is submitted
+  const errorMessages = computed(() =>
+    (text() ?? '').trim() && result.value.error ? [result.value.error] : []
+  );
+
+  return { result, hint, errorMessages };
+}
@@ -1,4 +1,5 @@
 import { computed } from 'vue';
+import { useCoordinateFormat } from '@/composables/useCoordinateFormat';
 import { useCoordinatesStore } from '@/stores/coordinates';
 
 /**
@@ -7,10 +8,11 @@ import { useCoordinatesStore } from '@/stores/coordinates';
  */
 export function useCoordinateItems() {
   const coordinatesStore = useCoordinatesStore();
+  const { formatLatLon } = useCoordinateFormat();
 
   const coordinateItems = computed(() => {
     return coordinatesStore.savedCoordinates.map((coord) => ({
-      label: `${coord.name} (${coord.lat.toFixed(6)}, ${coord.lon.toFixed(6)})`,
+      label: `${coord.name} (${formatLatLon(coord)})`,
       value: `${coord.lat},${coord.lon}`,
     }));
   });
@@ -2,25 +2,119 @@
  * Composable for drawing shapes on the map
  */
 
+import type { ArcShape } from '@/services/arcShapes';
+import type { LinePathType, LocusDefinition } from '@/services/geometry';
 import type {
+  ArcElement,
   CircleElement,
+  ElementType,
   LineSegmentElement,
+  LocusElement,
   PointElement,
   PolygonElement,
+  ZoneElement,
 } from '@/services/storage';
 import L from 'leaflet';
 import { v4 as uuidv4 } from 'uuid';
-import { generateCircle } from '@/services/geometry';
+import { ARC_SHAPE_LABELS, arcShapeRings, isArcArea } from '@/services/arcShapes';
+import {
+  DEFAULT_LINE_PATH_TYPE,
+  generateCircle,
+  generateLocus,
+  getLinePathType,
+  LOCUS_KIND_LABELS,
+  samplePath,
+} from '@/services/geometry';
+import { getToleranceZone } from '@/services/toleranceZone';
+import { computeZone, zoneOutline, zonePolygons } from '@/services/zones';
+import { useHistoryStore } from '@/stores/history';
 import { useLayersStore } from '@/stores/layers';
 
 const DEFAULT_COLOR = '#000000';
 const DEFAULT_RADIUS = 8;
+const TOLERANCE_FILL_OPACITY = 0.15;
+const ARC_AREA_FILL_OPACITY = 0.1;
+const ZONE_FILL_OPACITY = 0.25;
+const MERIDIAN_LATITUDE = 85; // Web Mercator maps stop just beyond
+
+export interface LineTolerance {
+  azimuth?: number; // ± degrees
+  distance?: number; // ± km
+}
+
+export interface ArcShapeParams {
+  shape: ArcShape;
+  centerLat: number;
+  centerLon: number;
+  radiusKm: number; // Outer radius of an annulus
+  innerRadiusKm?: number; // Annuli only
+  startAzimuth?: number; // Sectors and arcs only
+  endAzimuth?: number;
+}
 
 export function useDrawing(mapRef: any) {
   const layersStore = useLayersStore();
+  const historyStore = useHistoryStore();
 
   const generateId = () => uuidv4();
 
+  // Leaflet coordinates of a line following its path type
+  const lineLatLngs = (
+    startLat: number,
+    startLon: number,
+    endLat: number,
+    endLon: number,
+    pathType: LinePathType
+  ): [number, number][] =>
+    samplePath({ lat: startLat, lon: startLon }, { lat: endLat, lon: endLon }, pathType).map(
+      (p) => [p.lat, p.lon] as [number, number]
+    );
+
+  // Remove the tolerance zone drawn under a circle or line, if any
+  const removeToleranceZone = (elementId: string) => {
+    mapRef.map?.value?.eachLayer((layer: any) => {
+      const className = layer.options?.className;
+      if (className && className.includes(`tolerance-${elementId}`)) {
+        mapRef.map.value.removeLayer(layer);
+      }
+    });
+  };
+
+  // Draw the tolerance zone of a circle or line from the store, replacing the previous one
+  const drawToleranceZone = (elementType: 'circle' | 'lineSegment', elementId: string) => {
+    if (!mapRef.map?.value) {
+      return;
+    }
+    removeToleranceZone(elementId);
+
+    const element =
+      elementType === 'circle'
+        ? layersStore.circles.find((c) => c.id === elementId)
+        : layersStore.lineSegments.find((s) => s.id === elementId);
+    const zone = element && getToleranceZone(elementType, element);
+    if (!zone) {
+      return;
+    }
+
+    // Not interactive, so clicks still reach the element and whatever lies under the zone
+    const color = element.color || DEFAULT_COLOR;
+    L.polygon(
+      zone.map((ring) => ring.map((p) => [p.lat, p.lon] as [number, number])),
+      {
+        color,
+        weight: 1,
+        opacity: 0.6,
+        dashArray: '4, 4',
+        fillColor: color,
+        fillOpacity: TOLERANCE_FILL_OPACITY,
+        interactive: false,
+        className: `tolerance-zone tolerance-${elementId}`,
+      }
+    )
+      .addTo(mapRef.map.value)
+      .bringToBack();
+  };
+
   // Helper function to redraw a circle on the map without adding to store
   const redrawCircleOnMap = (
     circleId: string,
@@ -51,6 +145,8 @@ export function useDrawing(mapRef: any) {
     if (circle) {
       circle.leafletId = newLeafletId;
     }
+
+    drawToleranceZone('circle', circleId);
   };
 
   // Helper function to redraw a line segment on the map without adding to store
@@ -63,16 +159,14 @@ export function useDrawing(mapRef: any) {
     mode: 'coordinate' | 'azimuth' | 'intersection' = 'coordinate',
     intersectLat?: number,
     intersectLon?: number,
-    color?: string
+    color?: string,
+    pathType: LinePathType = DEFAULT_LINE_PATH_TYPE
   ) => {
     if (!mapRef.map?.value) {
       return;
     }
 
-    const latLngs = [
-      [startLat, startLon] as [number, number],
-      [endLat, endLon] as [number, number],
-    ];
+    const latLngs = lineLatLngs(startLat, startLon, endLat, endLon, pathType);
 
     const polyline = L.polyline(latLngs, {
       color: color || DEFAULT_COLOR,
@@ -102,6 +196,8 @@ export function useDrawing(mapRef: any) {
         className: `intersection-marker intersection-${lineId}`,
       }).addTo(mapRef.map.value);
     }
+
+    drawToleranceZone('lineSegment', lineId);
   };
 
   // Helper function to redraw a parallel line on the map without adding to store
@@ -159,8 +255,142 @@ export function useDrawing(mapRef: any) {
     }
   };
 
+  // Helper function to draw an annulus, sector or arc from the store without adding to store
+  const redrawArcOnMap = (arcId: string) => {
+    const arc = layersStore.arcs.find((a) => a.id === arcId);
+    if (!mapRef.map?.value || !arc) {
+      return;
+    }
+
+    const color = arc.color || DEFAULT_COLOR;
+    const rings = arcShapeRings(arc).map((ring) =>
+      ring.map((p) => [p.lat, p.lon] as [number, number])
+    );
+    const options = {
+      color,
+      weight: 3,
+      opacity: 1,
+      className: `arc-layer arc-${arcId}`,
+    };
+    const layer = isArcArea(arc)
+      ? L.polygon(rings, { ...options, fillColor: color, fillOpacity: ARC_AREA_FILL_OPACITY })
+      : L.polyline(rings[0] ?? [], options);
+    layer.addTo(mapRef.map.value);
+
+    arc.leafletId = L.stamp(layer);
+    layersStore.storeLeafletId('arc', arcId, arc.leafletId);
+  };
+
+  // Remove a polygon from the map, by leafletId first and by className as a fallback
+  const removePolygonFromMap = (polygonId: string) => {
+    const polygon = layersStore.polygons.find((p) => p.id === polygonId);
+    if (!mapRef.map?.value || !polygon) {
+      return;
+    }
+    if (polygon.leafletId !== undefined) {
+      mapRef.map.value.eachLayer((layer: any) => {
+        if (L.stamp(layer) === polygon.leafletId) {
+          mapRef.map.value.removeLayer(layer);
+        }
+      });
+    }
+    mapRef.map.value.eachLayer((layer: any) => {
+      const className = layer.options?.className;
+      if (className && className.includes(`polygon-${polygonId}`)) {
+        mapRef.map.value.removeLayer(layer);
+      }
+    });
+  };
+
+  // Remove an annulus, sector or arc from the map
+  const removeArcFromMap = (arcId: string) => {
+    mapRef.map?.value?.eachLayer((layer: any) => {
+      const className = layer.options?.className;
+      if (className && className.includes(`arc-${arcId}`)) {
+        mapRef.map.value.removeLayer(layer);
+      }
+    });
+  };
+
+  // Helper function to draw an ellipse, hyperbola or Apollonius circle from the store without
+  // adding to store; the curve is rebuilt from its foci and constant
+  const redrawLocusOnMap = (locusId: string) => {
+    const locus = layersStore.loci.find((l) => l.id === locusId);
+    if (!mapRef.map?.value || !locus) {
+      return;
+    }
+
+    const latLngs = generateLocus(locus).map((p) => [p.lat, p.lon] as [number, number]);
+    const polyline = L.polyline(latLngs, {
+      color: locus.color || DEFAULT_COLOR,
+      weight: 3,
+      opacity: 1,
+      className: `locus-layer locus-${locusId}`,
+    }).addTo(mapRef.map.value);
+
+    locus.leafletId = L.stamp(polyline);
+    layersStore.storeLeafletId('locus', locusId, locus.leafletId);
+  };
+
+  // Remove an ellipse, hyperbola or Apollonius circle from the map
+  const removeLocusFromMap = (locusId: string) => {
+    mapRef.map?.value?.eachLayer((layer: any) => {
+      const className = layer.options?.className;
+      if (className && className.includes(`locus-${locusId}`)) {
+        mapRef.map.value.removeLayer(layer);
+      }
+    });
+  };
+
+  // Helper function to draw a zone from the store without adding to store; the area is
+  // recomputed from its sources, and an empty zone draws nothing
+  const redrawZoneOnMap = (zoneId: string) => {
+    const zone = layersStore.zones.find((z) => z.id === zoneId);
+    if (!mapRef.map?.value || !zone) {
+      return;
+    }
+
+    const { geometry } = computeZone(zone, layersStore);
+    if (!geometry) {
+      return;
+    }
+
+    const color = zone.color || DEFAULT_COLOR;
+    const latLngs = zonePolygons(geometry).map((rings) =>
+      rings.map((ring) => ring.map((p) => [p.lat, p.lon] as [number, number]))
+    );
+    const polygon = L.polygon(latLngs, {
+      color,
+      fillColor: color,
+      fillOpacity: ZONE_FILL_OPACITY,
+      weight: 2,
+      opacity: 1,
+      dashArray: '6, 4',
+      className: `zone-layer zone-${zoneId}`,
+    }).addTo(mapRef.map.value);
+
+    zone.leafletId = L.stamp(polygon);
+    layersStore.storeLeafletId('zone', zoneId, zone.leafletId);
+  };
+
+  // Remove a zone from the map
+  const removeZoneFromMap = (zoneId: string) => {
+    mapRef.map?.value?.eachLayer((layer: any) => {
+      const className = layer.options?.className;
+      if (className && className.includes(`zone-${zoneId}`)) {
+        mapRef.map.value.removeLayer(layer);
+      }
+    });
+  };
+
   // Circle drawing
-  const drawCircle = (centerLat: number, centerLon: number, radiusKm: number, name?: string) => {
+  const drawCircle = (
+    centerLat: number,
+    centerLon: number,
+    radiusKm: number,
+    name?: string,
+    radiusTolerance?: number
+  ) => {
     if (!mapRef.map?.value) {
       return null;
     }
@@ -171,6 +401,7 @@ export function useDrawing(mapRef: any) {
       name: name || `Circle ${layersStore.circleCount + 1}`,
       center: { lat: centerLat, lon: centerLon },
       radius: radiusKm,
+      radiusTolerance: radiusTolerance || undefined,
       color: DEFAULT_COLOR,
     };
 
@@ -192,6 +423,7 @@ export function useDrawing(mapRef: any) {
 
     // Add to store
     layersStore.addCircle(circleElement);
+    drawToleranceZone('circle', circleId);
 
     // Fit map to circle bounds
     if (mapRef.fitBounds) {
@@ -211,17 +443,19 @@ export function useDrawing(mapRef: any) {
     centerLat: number,
     centerLon: number,
     radiusKm: number,
-    name: string
+    name: string,
+    radiusTolerance?: number
   ) => {
     if (!mapRef.map?.value || !circleId) {
       return;
     }
 
-    // Update store
+    // Update store, keeping the current tolerance unless a new one is given
     layersStore.updateCircle(circleId, {
       name,
       center: { lat: centerLat, lon: centerLon },
       radius: radiusKm,
+      ...(radiusTolerance === undefined ? {} : { radiusTolerance: radiusTolerance || undefined }),
     });
 
     // Remove old circle from map
@@ -250,6 +484,8 @@ export function useDrawing(mapRef: any) {
     // Update Leaflet ID in store
     const newLeafletId = L.stamp(polyline);
     layersStore.storeLeafletId('circle', circleId, newLeafletId);
+
+    drawToleranceZone('circle', circleId);
   };
 
   // Line segment drawing
@@ -264,7 +500,9 @@ export function useDrawing(mapRef: any) {
     azimuth?: number,
     intersectLat?: number,
     intersectLon?: number,
-    intersectDistance?: number
+    intersectDistance?: number,
+    pathType: LinePathType = DEFAULT_LINE_PATH_TYPE,
+    tolerance?: LineTolerance
   ): LineSegmentElement | null => {
     if (!mapRef.map?.value) {
       return null;
@@ -282,14 +520,14 @@ export function useDrawing(mapRef: any) {
       intersectionPoint:
         intersectLat && intersectLon ? { lat: intersectLat, lon: intersectLon } : undefined,
       intersectionDistance: intersectDistance,
+      pathType,
+      azimuthTolerance: tolerance?.azimuth || undefined,
+      distanceTolerance: tolerance?.distance || undefined,
       color: DEFAULT_COLOR,
     } as LineSegmentElement;
 
-    // Draw line as simple 2-point straight line (matches POC and GPX output)
-    const latLngs = [
-      [startLat, startLon] as [number, number],
-      [endLat, endLon] as [number, number],
-    ];
+    // Draw line along its path (matches GPX output)
+    const latLngs = lineLatLngs(startLat, startLon, endLat, endLon, pathType);
 
     // Create Leaflet polyline
     const polyline = L.polyline(latLngs, {
@@ -318,6 +556,7 @@ export function useDrawing(mapRef: any) {
 
     // Add to store
     layersStore.addLineSegment(lineElement);
+    drawToleranceZone('lineSegment', lineId);
 
     // Fit map to line segment bounds
     if (mapRef.fitBounds) {
@@ -348,12 +587,19 @@ export function useDrawing(mapRef: any) {
     azimuth?: number,
     intersectLat?: number,
     intersectLon?: number,
-    intersectDistance?: number
+    intersectDistance?: number,
+    pathType?: LinePathType,
+    tolerance?: LineTolerance
   ) => {
     if (!mapRef.map?.value || !lineId) {
       return;
     }
 
+    // Keep the current path type unless a new one is given
+    const existing = layersStore.lineSegments.find((s) => s.id === lineId);
+    const linePathType =
+      pathType ?? (existing ? getLinePathType(existing) : DEFAULT_LINE_PATH_TYPE);
+
     // Update store
     layersStore.updateLineSegment(lineId, {
       name,
@@ -365,6 +611,12 @@ export function useDrawing(mapRef: any) {
       intersectionPoint:
         intersectLat && intersectLon ? { lat: intersectLat, lon: intersectLon } : undefined,
       intersectionDistance: intersectDistance,
+      pathType: linePathType,
+      // Keep the current tolerances unless new ones are given
+      ...(tolerance && {
+        azimuthTolerance: tolerance.azimuth || undefined,
+        distanceTolerance: tolerance.distance || undefined,
+      }),
     });
 
     // Remove old line from map using className
@@ -388,10 +640,7 @@ export function useDrawing(mapRef: any) {
     }
 
     // Redraw line segment
-    const latLngs = [
-      [startLat, startLon] as [number, number],
-      [endLat, endLon] as [number, number],
-    ];
+    const latLngs = lineLatLngs(startLat, startLon, endLat, endLon, linePathType);
 
     const polyline = L.polyline(latLngs, {
       color: DEFAULT_COLOR,
@@ -416,6 +665,8 @@ export function useDrawing(mapRef: any) {
         className: `intersection-marker intersection-${lineId}`,
       }).addTo(mapRef.map.value);
     }
+
+    drawToleranceZone('lineSegment', lineId);
   };
 
   // Point drawing
@@ -470,6 +721,244 @@ export function useDrawing(mapRef: any) {
     return pointElement;
   };
 
+  // Annulus, sector and arc drawing
+  const drawArc = (params: ArcShapeParams, name?: string): ArcElement | null => {
+    if (!mapRef.map?.value) {
+      return null;
+    }
+
+    const arcId = generateId();
+    const isAnnulus = params.shape === 'annulus';
+    const arcElement: ArcElement = {
+      id: arcId,
+      name: name || `${ARC_SHAPE_LABELS[params.shape]} ${layersStore.arcCount + 1}`,
+      shape: params.shape,
+      center: { lat: params.centerLat, lon: params.centerLon },
+      radius: params.radiusKm,
+      innerRadius: isAnnulus ? (params.innerRadiusKm ?? 0) : undefined,
+      startAzimuth: isAnnulus ? undefined : (params.startAzimuth ?? 0),
+      endAzimuth: isAnnulus ? undefined : (params.endAzimuth ?? 0),
+      color: DEFAULT_COLOR,
+    };
+
+    layersStore.addArc(arcElement);
+    redrawArcOnMap(arcId);
+
+    // Fit map to the full circle around the center
+    if (mapRef.fitBounds) {
+      const radiusInDegrees = params.radiusKm / 111;
+      mapRef.fitBounds([
+        [params.centerLat - radiusInDegrees, params.centerLon - radiusInDegrees],
+        [params.centerLat + radiusInDegrees, params.centerLon + radiusInDegrees],
+      ]);
+    }
+
+    return arcElement;
+  };
+
+  // Update existing annulus, sector or arc
+  const updateArc = (arcId: string | undefined, params: ArcShapeParams, name: string) => {
+    if (!mapRef.map?.value || !arcId) {
+      return;
+    }
+
+    const isAnnulus = params.shape === 'annulus';
+    layersStore.updateArc(arcId, {
+      name,
+      shape: params.shape,
+      center: { lat: params.centerLat, lon: params.centerLon },
+      radius: params.radiusKm,
+      innerRadius: isAnnulus ? (params.innerRadiusKm ?? 0) : undefined,
+      startAzimuth: isAnnulus ? undefined : (params.startAzimuth ?? 0),
+      endAzimuth: isAnnulus ? undefined : (params.endAzimuth ?? 0),
+    });
+
+    removeArcFromMap(arcId);
+    redrawArcOnMap(arcId);
+  };
+
+  // Ellipse, hyperbola and Apollonius circle drawing
+  const drawLocus = (definition: LocusDefinition, name?: string): LocusElement | null => {
+    if (!mapRef.map?.value) {
+      return null;
+    }
+
+    const locusId = generateId();
+    const locusElement: LocusElement = {
+      id: locusId,
+      name: name || `${LOCUS_KIND_LABELS[definition.kind]} ${layersStore.locusCount + 1}`,
+      kind: definition.kind,
+      firstFocus: { lat: definition.firstFocus.lat, lon: definition.firstFocus.lon },
+      secondFocus: { lat: definition.secondFocus.lat, lon: definition.secondFocus.lon },
+      constant: definition.constant,
+      color: DEFAULT_COLOR,
+    };
+
+    layersStore.addLocus(locusElement);
+    redrawLocusOnMap(locusId);
+
+    // Fit map to the curve
+    const curve = generateLocus(definition);
+    if (mapRef.fitBounds && curve.length > 0) {
+      const lats = curve.map((p) => p.lat);
+      const lons = curve.map((p) => p.lon);
+      mapRef.fitBounds([
+        [Math.min(...lats), Math.min(...lons)],
+        [Math.max(...lats), Math.max(...lons)],
+      ]);
+    }
+
+    return locusElement;
+  };
+
+  // Update existing ellipse, hyperbola or Apollonius circle
+  const updateLocus = (locusId: string | undefined, definition: LocusDefinition, name: string) => {
+    if (!mapRef.map?.value || !locusId) {
+      return;
+    }
+
+    layersStore.updateLocus(locusId, {
+      name,
+      kind: definition.kind,
+      firstFocus: { lat: definition.firstFocus.lat, lon: definition.firstFocus.lon },
+      secondFocus: { lat: definition.secondFocus.lat, lon: definition.secondFocus.lon },
+      constant: definition.constant,
+    });
+
+    removeLocusFromMap(locusId);
+    redrawLocusOnMap(locusId);
+  };
+
+  // Zone drawing
+  const drawZone = (
+    definition: Pick<ZoneElement, 'operation' | 'sources'>,
+    name?: string
+  ): ZoneElement | null => {
+    if (!mapRef.map?.value) {
+      return null;
+    }
+
+    const zoneId = generateId();
+    const zoneElement: ZoneElement = {
+      id: zoneId,
+      name: name || `Zone ${layersStore.zoneCount + 1}`,
+      operation: definition.operation,
+      sources: definition.sources.map((source) => ({ ...source })),
+      color: DEFAULT_COLOR,
+    };
+
+    layersStore.addZone(zoneElement);
+    redrawZoneOnMap(zoneId);
+
+    // Fit map to the zone
+    const { geometry } = computeZone(zoneElement, layersStore);
+    if (mapRef.fitBounds && geometry) {
+      const outline = zoneOutline(geometry);
+      const lats = outline.map((p) => p.lat);
+      const lons = outline.map((p) => p.lon);
+      mapRef.fitBounds([
+        [Math.min(...lats), Math.min(...lons)],
+        [Math.max(...lats), Math.max(...lons)],
+      ]);
+    }
+
+    return zoneElement;
+  };
+
+  // Update existing zone
+  const updateZone = (
+    zoneId: string | undefined,
+    definition: Pick<ZoneElement, 'operation' | 'sources'>,
+    name: string
+  ) => {
+    if (!mapRef.map?.value || !zoneId) {
+      return;
+    }
+
+    layersStore.updateZone(zoneId, {
+      name,
+      operation: definition.operation,
+      sources: definition.sources.map((source) => ({ ...source })),
+    });
+
+    removeZoneFromMap(zoneId);
+    redrawZoneOnMap(zoneId);
+  };
+
+  // Recompute a drawn zone after one of its sources changed
+  const refreshZone = (zoneId: string) => {
+    removeZoneFromMap(zoneId);
+    redrawZoneOnMap(zoneId);
+  };
+
+  // Redraw an element based on its type (without adding to store)
+  const redrawElementOnMap = (elementType: string, elementId: string) => {
+    switch (elementType) {
+      case 'circle': {
+        const circle = layersStore.circles.find((c) => c.id === elementId);
+        if (circle && circle.id) {
+          redrawCircleOnMap(circle.id, circle.center.lat, circle.center.lon, circle.radius);
+        }
+
+        break;
+      }
+      case 'lineSegment': {
+        const segment = layersStore.lineSegments.find((s) => s.id === elementId);
+        if (segment && segment.id && segment.mode === 'parallel') {
+          // For parallel lines, redraw them using drawParallel
+          drawParallel(segment.longitude === undefined ? 0 : segment.longitude, segment.name);
+        } else if (segment && segment.id && segment.endpoint) {
+          redrawLineSegmentOnMap(
+            segment.id,
+            segment.center.lat,
+            segment.center.lon,
+            segment.endpoint.lat,
+            segment.endpoint.lon,
+            segment.mode as 'coordinate' | 'azimuth' | 'intersection',
+            segment.intersectionPoint?.lat,
+            segment.intersectionPoint?.lon,
+            segment.color,
+            getLinePathType(segment)
+          );
+        }
+
+        break;
+      }
+      case 'point': {
+        const point = layersStore.points.find((p) => p.id === elementId);
+        if (point && point.id) {
+          redrawPointOnMap(point.id, point.coordinates.lat, point.coordinates.lon);
+        }
+
+        break;
+      }
+      case 'polygon': {
+        const polygon = layersStore.polygons.find((p) => p.id === elementId);
+        if (polygon && polygon.id) {
+          redrawPolygonOnMap(polygon.id, polygon.points, polygon.color);
+        }
+
+        break;
+      }
+      case 'arc': {
+        redrawArcOnMap(elementId);
+
+        break;
+      }
+      case 'locus': {
+        redrawLocusOnMap(elementId);
+
+        break;
+      }
+      case 'zone': {
+        redrawZoneOnMap(elementId);
+
+        break;
+      }
+      // No default
+    }
+  };
+
   // Update element visibility
   const updateElementVisibility = (
     elementType: string,
@@ -503,54 +992,12 @@ export function useDrawing(mapRef: any) {
 
     // If we need to show the element but it wasn't found on the map, we need to redraw it
     if (visible && !found) {
-      // Redraw the element based on its type (without adding to store)
-      switch (elementType) {
-        case 'circle': {
-          const circle = layersStore.circles.find((c) => c.id === elementId);
-          if (circle && circle.id) {
-            redrawCircleOnMap(circle.id, circle.center.lat, circle.center.lon, circle.radius);
-          }
-
-          break;
-        }
-        case 'lineSegment': {
-          const segment = layersStore.lineSegments.find((s) => s.id === elementId);
-          if (segment && segment.id && segment.mode === 'parallel') {
-            // For parallel lines, redraw them using drawParallel
-            drawParallel(segment.longitude === undefined ? 0 : segment.longitude, segment.name);
-          } else if (segment && segment.id && segment.endpoint) {
-            redrawLineSegmentOnMap(
-              segment.id,
-              segment.center.lat,
-              segment.center.lon,
-              segment.endpoint.lat,
-              segment.endpoint.lon,
-              segment.mode as 'coordinate' | 'azimuth' | 'intersection',
-              segment.intersectionPoint?.lat,
-              segment.intersectionPoint?.lon
-            );
-          }
-
-          break;
-        }
-        case 'point': {
-          const point = layersStore.points.find((p) => p.id === elementId);
-          if (point && point.id) {
-            redrawPointOnMap(point.id, point.coordinates.lat, point.coordinates.lon);
-          }
-
-          break;
-        }
-        case 'polygon': {
-          const polygon = layersStore.polygons.find((p) => p.id === elementId);
-          if (polygon && polygon.id) {
-            redrawPolygonOnMap(polygon.id, polygon.points, polygon.color);
-          }
+      redrawElementOnMap(elementType, elementId);
+    }
 
-          break;
-        }
-        // No default
-      }
+    // Tolerance zones are redrawn with their element, so only hiding needs them removed
+    if (!visible) {
+      removeToleranceZone(elementId);
     }
 
     // For intersection markers, also toggle their visibility
@@ -567,7 +1014,7 @@ export function useDrawing(mapRef: any) {
   };
 
   // Delete element from map
-  const deleteElement = (elementType: string, elementId: string | undefined) => {
+  const deleteElement = (elementType: ElementType, elementId: string | undefined) => {
     if (!mapRef.map?.value || !elementId) {
       return;
     }
@@ -584,6 +1031,7 @@ export function useDrawing(mapRef: any) {
             }
           });
         }
+        removeToleranceZone(elementId);
 
         break;
       }
@@ -609,6 +1057,7 @@ export function useDrawing(mapRef: any) {
             }
           });
         }
+        removeToleranceZone(elementId);
 
         break;
       }
@@ -631,16 +1080,16 @@ export function useDrawing(mapRef: any) {
             // Check if this polygon contains the point being deleted
             const containsPoint = polygon.points.some(
               (p) =>
-                Math.abs(p.lat - deletedCoords.lat) < 0.000001 &&
-                Math.abs(p.lon - deletedCoords.lon) < 0.000001
+                Math.abs(p.lat - deletedCoords.lat) < 0.000_001 &&
+                Math.abs(p.lon - deletedCoords.lon) < 0.000_001
             );
 
             if (containsPoint) {
               // Count remaining points after removing this one
               const remainingPoints = polygon.points.filter(
                 (p) =>
-                  Math.abs(p.lat - deletedCoords.lat) >= 0.000001 ||
-                  Math.abs(p.lon - deletedCoords.lon) >= 0.000001
+                  Math.abs(p.lat - deletedCoords.lat) >= 0.000_001 ||
+                  Math.abs(p.lon - deletedCoords.lon) >= 0.000_001
               );
 
               // If polygon would have less than 3 points, mark it for removal from map
@@ -653,84 +1102,80 @@ export function useDrawing(mapRef: any) {
 
         // Remove affected polygons from the map BEFORE deleting the point from store
         for (const polygonId of polygonsToRemove) {
-          const polygon = layersStore.polygons.find((p) => p.id === polygonId);
-          if (polygon) {
-            // Remove from map
-            if (polygon.leafletId !== undefined) {
-              mapRef.map.value.eachLayer((layer: any) => {
-                if (L.stamp(layer) === polygon.leafletId) {
-                  mapRef.map.value.removeLayer(layer);
-                }
-              });
-            }
-            // Fallback: also try removing by className
-            mapRef.map.value.eachLayer((layer: any) => {
-              const className = layer.options?.className;
-              if (className && className.includes(`polygon-${polygonId}`)) {
-                mapRef.map.value.removeLayer(layer);
-              }
-            });
-          }
+          removePolygonFromMap(polygonId);
         }
 
         break;
       }
       case 'polygon': {
-        const polygon = layersStore.polygons.find((p) => p.id === elementId);
-        if (polygon) {
-          // Try to remove by leafletId first
-          if (polygon.leafletId !== undefined) {
-            mapRef.map.value.eachLayer((layer: any) => {
-              if (L.stamp(layer) === polygon.leafletId) {
-                mapRef.map.value.removeLayer(layer);
-              }
-            });
-          }
-
-          // Fallback: also try removing by className
-          mapRef.map.value.eachLayer((layer: any) => {
-            const className = layer.options?.className;
-            if (className && className.includes(`polygon-${elementId}`)) {
-              mapRef.map.value.removeLayer(layer);
-            }
-          });
-        }
+        removePolygonFromMap(elementId);
 
         break;
       }
-      // No default
-    }
-
-    // Delete any notes linked to this element
-    const linkedNotes = layersStore.notes.filter(
-      (note) => note.linkedElementType === elementType && note.linkedElementId === elementId
-    );
-    for (const note of linkedNotes) {
-      if (note.id) {
-        layersStore.deleteNote(note.id);
-      }
-    }
+      case 'arc': {
+        removeArcFromMap(elementId);
 
-    // Remove from store
-    switch (elementType) {
-      case 'circle': {
-        layersStore.deleteCircle(elementId);
-        break;
-      }
-      case 'lineSegment': {
-        layersStore.deleteLineSegment(elementId);
         break;
       }
-      case 'point': {
-        layersStore.deletePoint(elementId);
+      case 'locus': {
+        removeLocusFromMap(elementId);
+
         break;
       }
-      case 'polygon': {
-        layersStore.deletePolygon(elementId);
+      case 'zone': {
+        removeZoneFromMap(elementId);
+
         break;
       }
       // No default
     }
+
+    // Element and linked notes go away together, so one undo brings both back
+    const element = elementId ? layersStore.getElement(elementType, elementId) : undefined;
+    historyStore.batch(`Delete "${element?.name ?? elementType}"`, () => {
+      // Delete any notes linked to this element
+      const linkedNotes = layersStore.notes.filter(
+        (note) => note.linkedElementType === elementType && note.linkedElementId === elementId
+      );
+      for (const note of linkedNotes) {
+        if (note.id) {
+          layersStore.deleteNote(note.id);
+        }
+      }
+
+      // Remove from store
+      switch (elementType) {
+        case 'circle': {
+          layersStore.deleteCircle(elementId);
+          break;
+        }
+        case 'lineSegment': {
+          layersStore.deleteLineSegment(elementId);
+          break;
+        }
+        case 'point': {
+          layersStore.deletePoint(elementId);
+          break;
+        }
+        case 'polygon': {
+          layersStore.deletePolygon(elementId);
+          break;
+        }
+        case 'arc': {
+          layersStore.deleteArc(elementId);
+          break;
+        }
+        case 'locus': {
+          layersStore.deleteLocus(elementId);
+          break;
+        }
+        case 'zone': {
+          layersStore.deleteZone(elementId);
+          break;
+        }
+        // No default
+      }
+    });
   };
 
   // Clear all elements
@@ -752,7 +1197,7 @@ export function useDrawing(mapRef: any) {
 
   // Redraw all elements on map (useful after loading project)
   // eslint-disable-next-line complexity
-  const redrawAllElements = () => {
+  const redrawAllElements = ({ fitBounds = true }: { fitBounds?: boolean } = {}) => {
     // Clear only map layers, not the store (store is already populated)
     if (mapRef.map?.value) {
       mapRef.map.value.eachLayer((layer: any) => {
@@ -770,6 +1215,9 @@ export function useDrawing(mapRef: any) {
     const lineSegments = layersStore.lineSegments;
     const points = layersStore.points;
     const polygons = layersStore.polygons;
+    const arcs = layersStore.arcs;
+    const loci = layersStore.loci;
+    const zones = layersStore.zones;
 
     // Redraw circles (using redraw helper to avoid adding to store twice)
     for (const circle of circles) {
@@ -801,7 +1249,8 @@ export function useDrawing(mapRef: any) {
             segment.mode as 'coordinate' | 'azimuth' | 'intersection',
             segment.intersectionPoint?.lat,
             segment.intersectionPoint?.lon,
-            segment.color
+            segment.color,
+            getLinePathType(segment)
           );
         }
       }
@@ -821,18 +1270,30 @@ export function useDrawing(mapRef: any) {
       }
     }
 
+    // Redraw annuli, sectors and arcs (the helper reads them from the store)
+    for (const arc of arcs) {
+      redrawArcOnMap(arc.id);
+    }
+
+    // Redraw ellipses, hyperbolas and Apollonius circles
+    for (const locus of loci) {
+      redrawLocusOnMap(locus.id);
+    }
+
+    // Redraw zones, recomputed from the sources drawn above
+    for (const zone of zones) {
+      redrawZoneOnMap(zone.id);
+    }
+
     // Fit map to all elements if any exist
-    if (
-      (circles.length > 0 || lineSegments.length > 0 || points.length > 0 || polygons.length > 0) &&
-      mapRef.fitBounds
-    ) {
+    if (fitBounds && !layersStore.isEmpty && mapRef.fitBounds) {
       // Calculate bounds that include all elements
       let minLat = 90,
         maxLat = -90,
         minLon = 180,
         maxLon = -180;
 
-      for (const circle of circles) {
+      for (const circle of [...circles, ...arcs]) {
         const lat = circle.center.lat;
         const lon = circle.center.lon;
         const radiusInDegrees = circle.radius / 111; // Approximate: 111km per degree
@@ -865,6 +1326,15 @@ export function useDrawing(mapRef: any) {
         }
       }
 
+      for (const locus of loci) {
+        for (const focus of [locus.firstFocus, locus.secondFocus]) {
+          minLat = Math.min(minLat, focus.lat);
+          maxLat = Math.max(maxLat, focus.lat);
+          minLon = Math.min(minLon, focus.lon);
+          maxLon = Math.max(maxLon, focus.lon);
+        }
+      }
+
       if (minLat <= maxLat && minLon <= maxLon) {
         mapRef.fitBounds([
           [minLat, minLon],
@@ -922,6 +1392,17 @@ export function useDrawing(mapRef: any) {
     return lineElement;
   };
 
+  // Meridian drawing, as a line from south to north along the longitude
+  const drawMeridian = (longitude: number, name?: string): LineSegmentElement | null => {
+    return drawLineSegment(
+      -MERIDIAN_LATITUDE,
+      longitude,
+      MERIDIAN_LATITUDE,
+      longitude,
+      name || `Meridian ${layersStore.lineSegmentCount + 1}`
+    );
+  };
+
   // Update existing parallel
   const updateParallel = (lineId: string, latitude: number, name: string) => {
     if (!mapRef.map?.value || !lineId) {
@@ -1053,8 +1534,16 @@ export function useDrawing(mapRef: any) {
     updateLineSegment,
     drawParallel,
     updateParallel,
+    drawMeridian,
     drawPoint,
     drawPolygon,
+    drawArc,
+    updateArc,
+    drawLocus,
+    updateLocus,
+    drawZone,
+    updateZone,
+    refreshZone,
     updateElementVisibility,
     deleteElement,
     clearAllElements,
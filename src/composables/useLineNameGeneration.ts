@@ -130,6 +130,21 @@ export function useLineNameGeneration() {
     return `Parallel at ${latitude.toFixed(6)}°`;
   }
 
+  /**
+   * Generate name for a meridian line
+   */
+  function generateMeridianName(longitude: number): string {
+    const savedCoord = coordinatesStore.sortedCoordinates.find(
+      (c: any) => Math.abs(c.lon - longitude) < 0.0001
+    );
+
+    if (savedCoord) {
+      return `Meridian of ${savedCoord.name}`;
+    }
+
+    return `Meridian at ${longitude.toFixed(6)}°`;
+  }
+
   /**
    * Generate fallback name
    */
@@ -143,6 +158,7 @@ export function useLineNameGeneration() {
     generateAzimuthName,
     generateIntersectionName,
     generateParallelName,
+    generateMeridianName,
     generateFallbackName,
   };
 }
@@ -1,12 +1,20 @@
-import type { CircleElement, LineSegmentElement } from '@/services/storage';
+import type { ArcElement, CircleElement, LineSegmentElement } from '@/services/storage';
 import { computed, ref } from 'vue';
-import { calculateDistance, destinationPoint, toRadians } from '@/services/geometry';
+import { arcBearingAt, arcLength } from '@/services/arcShapes';
+import {
+  destinationPoint,
+  getLinePathType,
+  interpolatePath,
+  pathDestination,
+  pathLength,
+  toRadians,
+} from '@/services/geometry';
 
 export interface NavigationState {
   active: boolean;
-  elementType: 'circle' | 'lineSegment' | null;
+  elementType: 'circle' | 'lineSegment' | 'arc' | null;
   elementId: string | null;
-  progress: number; // For segments: 0-1 for position along path
+  progress: number; // For segments and arcs: 0-1 for position along path
   anglePosition: number; // For circles: angle in degrees (0-360)
 }
 
@@ -36,30 +44,32 @@ export function useNavigation() {
   }
 
   /**
-   * Calculate the length of a line segment in km
+   * Endpoint of a line segment; azimuth lines are recomputed from their bearing and distance
    */
-  function calculateSegmentLength(segment: LineSegmentElement): number {
-    let segmentEndpoint = segment.endpoint;
-
+  function getSegmentEndpoint(
+    segment: LineSegmentElement
+  ): { lat: number; lon: number } | undefined {
     if (segment.mode === 'azimuth' && segment.distance && segment.azimuth !== undefined) {
-      segmentEndpoint = destinationPoint(
-        segment.center.lat,
-        segment.center.lon,
+      return pathDestination(
+        segment.center,
         segment.distance,
-        segment.azimuth
+        segment.azimuth,
+        getLinePathType(segment)
       );
     }
+    return segment.endpoint;
+  }
 
+  /**
+   * Calculate the length of a line segment in km, along its path
+   */
+  function calculateSegmentLength(segment: LineSegmentElement): number {
+    const segmentEndpoint = getSegmentEndpoint(segment);
     if (!segmentEndpoint) {
       return 0;
     }
 
-    return calculateDistance(
-      segment.center.lat,
-      segment.center.lon,
-      segmentEndpoint.lat,
-      segmentEndpoint.lon
-    );
+    return pathLength(segment.center, segmentEndpoint, getLinePathType(segment));
   }
 
   /**
@@ -153,42 +163,80 @@ export function useNavigation() {
   }
 
   /**
-   * Calculate coordinates on a circle based on angle position
+   * Move along the curved edge of an annulus, sector or arc by a distance in km
+   * Annuli loop around their outer circle; sectors and arcs turn back at their ends
    */
-  function getCircleNavigationCoords(circle: CircleElement): { lat: number; lon: number } {
-    const radians = toRadians(navigationState.value.anglePosition);
-    const degreesPerKm = 1 / (111 * Math.cos(toRadians(circle.center.lat)));
-    const newLat = circle.center.lat + (circle.radius / 111) * Math.cos(radians);
-    const newLon = circle.center.lon + circle.radius * degreesPerKm * Math.sin(radians);
+  function moveAlongArc(arc: ArcElement, distanceKm: number): void {
+    const length = arcLength(arc);
+    if (!(length > 0)) {
+      return;
+    }
+    let progress = navigationState.value.progress + distanceKm / length;
 
-    return { lat: newLat, lon: newLon };
+    if (arc.shape === 'annulus') {
+      progress = ((progress % 1) + 1) % 1;
+    } else if (progress >= 1) {
+      progress = 1 - (progress - 1);
+    } else if (progress < 0) {
+      progress = -progress;
+    }
+    navigationState.value.progress = Math.min(Math.max(progress, 0), 1);
   }
 
   /**
-   * Calculate coordinates on a line segment based on progress
+   * Navigate forward on an annulus, sector or arc (right arrow)
    */
-  function getSegmentNavigationCoords(segment: LineSegmentElement): { lat: number; lon: number } {
-    let segmentEndpoint = segment.endpoint;
+  function navigateArcForward(arc: ArcElement, zoomLevel: number): void {
+    moveAlongArc(arc, getNavigationMovement(zoomLevel));
+  }
 
-    if (segment.mode === 'azimuth' && segment.distance && segment.azimuth !== undefined) {
-      segmentEndpoint = destinationPoint(
-        segment.center.lat,
-        segment.center.lon,
-        segment.distance,
-        segment.azimuth
-      );
-    }
+  /**
+   * Navigate backward on an annulus, sector or arc (left arrow)
+   */
+  function navigateArcBackward(arc: ArcElement, zoomLevel: number): void {
+    moveAlongArc(arc, -getNavigationMovement(zoomLevel));
+  }
+
+  /**
+   * Calculate coordinates on a circle based on angle position
+   */
+  function getCircleNavigationCoords(circle: CircleElement): { lat: number; lon: number } {
+    // Same geodesic construction as the drawn circle, so navigation stays on the line
+    return destinationPoint(
+      circle.center.lat,
+      circle.center.lon,
+      circle.radius,
+      navigationState.value.anglePosition
+    );
+  }
 
+  /**
+   * Calculate coordinates on a line segment based on progress, following the line's path
+   */
+  function getSegmentNavigationCoords(segment: LineSegmentElement): { lat: number; lon: number } {
+    const segmentEndpoint = getSegmentEndpoint(segment);
     if (!segmentEndpoint) {
       return { lat: segment.center.lat, lon: segment.center.lon };
     }
 
-    // Linear interpolation between start and end points
-    const progress = navigationState.value.progress;
-    const lat = segment.center.lat + (segmentEndpoint.lat - segment.center.lat) * progress;
-    const lon = segment.center.lon + (segmentEndpoint.lon - segment.center.lon) * progress;
+    return interpolatePath(
+      segment.center,
+      segmentEndpoint,
+      getLinePathType(segment),
+      navigationState.value.progress
+    );
+  }
 
-    return { lat, lon };
+  /**
+   * Calculate coordinates on the curved edge of an annulus, sector or arc based on progress
+   */
+  function getArcNavigationCoords(arc: ArcElement): { lat: number; lon: number } {
+    return destinationPoint(
+      arc.center.lat,
+      arc.center.lon,
+      arc.radius,
+      arcBearingAt(arc, navigationState.value.progress)
+    );
   }
 
   return {
@@ -200,8 +248,11 @@ export function useNavigation() {
     navigateCircleBackward,
     navigateSegmentForward,
     navigateSegmentBackward,
+    navigateArcForward,
+    navigateArcBackward,
     getCircleNavigationCoords,
     getSegmentNavigationCoords,
+    getArcNavigationCoords,
     getNavigationMovement,
   };
 }
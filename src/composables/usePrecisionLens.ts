@@ -200,8 +200,8 @@ export function usePrecisionLens(mapRef: any, options: PrecisionLensOptions = {}
    * Handle keyboard shortcuts
    */
   function handleKeyDown(event: KeyboardEvent) {
-    // 'Z' key for precision mode
-    if (event.key === 'z' || event.key === 'Z') {
+    // 'Z' key for precision mode (Ctrl/Cmd+Z is undo)
+    if ((event.key === 'z' || event.key === 'Z') && !event.ctrlKey && !event.metaKey) {
       // Don't activate if typing in an input
       const target = event.target as HTMLElement;
       if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
@@ -0,0 +1,108 @@
+/**
+ * Arc shapes - Geometry of annuli, circular sectors and arcs
+ *
+ * Sectors and arcs run clockwise from their start azimuth to their end azimuth; equal azimuths
+ * make a full turn. Outlines are built from geodesic points around the center, like circles.
+ */
+
+import type { LatLon } from './geometry';
+import type { ArcElement } from './storage';
+import { destinationPoint } from './geometry';
+
+export type ArcShape = 'annulus' | 'sector' | 'arc';
+
+export const ARC_SHAPE_LABELS: Record<ArcShape, string> = {
+  annulus: 'Annulus',
+  sector: 'Sector',
+  arc: 'Arc',
+};
+
+export const ARC_SHAPE_ICONS: Record<ArcShape, string> = {
+  annulus: 'mdi-circle-double',
+  sector: 'mdi-chart-pie',
+  arc: 'mdi-chart-arc',
+};
+
+export const ARC_SHAPES: ArcShape[] = ['annulus', 'sector', 'arc'];
+const MAX_STEP_DEG = 1;
+
+export function isArcShape(value: unknown): value is ArcShape {
+  return typeof value === 'string' && (ARC_SHAPES as string[]).includes(value);
+}
+
+/**
+ * Angle covered clockwise from the start azimuth to the end azimuth, in (0, 360]
+ * Annuli always cover the full turn
+ */
+export function arcSweep(arc: ArcElement): number {
+  if (arc.shape === 'annulus') {
+    return 360;
+  }
+  const sweep = ((((arc.endAzimuth ?? 0) - (arc.startAzimuth ?? 0)) % 360) + 360) % 360;
+  return sweep === 0 ? 360 : sweep;
+}
+
+/**
+ * Bearing from the center at a fraction (0-1) of the way along the arc
+ */
+export function arcBearingAt(arc: ArcElement, fraction: number): number {
+  return ((((arc.startAzimuth ?? 0) + arcSweep(arc) * fraction) % 360) + 360) % 360;
+}
+
+/**
+ * Length of the curved edge in km (the outer circle of an annulus)
+ */
+export function arcLength(arc: ArcElement): number {
+  return (arc.radius * Math.PI * arcSweep(arc)) / 180;
+}
+
+/**
+ * Points along the curved edge at a given radius, from start to end
+ */
+export function arcPoints(arc: ArcElement, radiusKm = arc.radius): LatLon[] {
+  const sweep = arcSweep(arc);
+  const steps = Math.max(1, Math.ceil(sweep / MAX_STEP_DEG));
+  return Array.from({ length: steps + 1 }, (_, i) =>
+    destinationPoint(arc.center.lat, arc.center.lon, radiusKm, arcBearingAt(arc, i / steps))
+  );
+}
+
+/**
+ * Outline of the shape as rings (outer first, then the hole of an annulus), each closed
+ * An arc has no area: its single ring is the open curve itself
+ */
+export function arcShapeRings(arc: ArcElement): LatLon[][] {
+  switch (arc.shape) {
+    case 'annulus': {
+      const inner = arc.innerRadius ?? 0;
+      const outer = arcPoints(arc);
+      return inner > 0 ? [outer, arcPoints(arc, inner).toReversed()] : [outer];
+    }
+    case 'sector': {
+      // A full-turn sector is a disc
+      return arcSweep(arc) >= 360
+        ? [arcPoints(arc)]
+        : [[{ ...arc.center }, ...arcPoints(arc), { ...arc.center }]];
+    }
+    default: {
+      return [arcPoints(arc)];
+    }
+  }
+}
+
+/**
+ * Whether the shape encloses an area (annuli and sectors) rather than being a curve
+ */
+export function isArcArea(arc: ArcElement): boolean {
+  return arc.shape !== 'arc';
+}
+
+/**
+ * Short description for lists, e.g. "Sector • 5 km • 30° → 90°"
+ */
+export function describeArcShape(arc: ArcElement): string {
+  if (arc.shape === 'annulus') {
+    return `${ARC_SHAPE_LABELS.annulus} • ${arc.innerRadius ?? 0}–${arc.radius} km`;
+  }
+  return `${ARC_SHAPE_LABELS[arc.shape]} • ${arc.radius} km • ${arc.startAzimuth ?? 0}° → ${arc.endAzimuth ?? 0}°`;
+}
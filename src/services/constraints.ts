@@ -0,0 +1,537 @@
+/**
+ * Constraints - Clue statements combined into the region where the target can be
+ *
+ * Each clue is a constraint backed by a layer element or numeric inputs: a distance range to an
+ * element, a side of a parallel, meridian or line, inside or outside an area, or an altitude
+ * range. The feasible region is the intersection of all enabled clues.
+ *
+ * Distances and areas are bounded and set the frame of the region; the other clues are open
+ * half-planes or altitude cells, built only across that frame.
+ */
+
+import type { BBox, Feature, MultiPolygon, Polygon } from 'geojson';
+import type { LatLon } from './geometry';
+import type { ProjectLayerData } from './storage';
+import type { ZoneLayers, ZoneSourceType } from './zones';
+import * as turf from '@turf/turf';
+import { getLinePathType, samplePath } from './geometry';
+import { computeZone, formatZoneArea, zoneSourceGeometry } from './zones';
+
+export type ConstraintKind =
+  | 'distance'
+  | 'latitude'
+  | 'longitude'
+  | 'lineSide'
+  | 'area'
+  | 'altitude';
+
+export type ConstraintSide =
+  | 'north'
+  | 'south'
+  | 'east'
+  | 'west'
+  | 'inside'
+  | 'outside'
+  | 'above'
+  | 'below';
+
+export type ConstraintElementType = ZoneSourceType | 'zone';
+
+export interface Constraint {
+  id: string;
+  kind: ConstraintKind;
+  enabled: boolean;
+  elementType?: ConstraintElementType; // Distance, line side and area clues
+  elementId?: string;
+  side?: ConstraintSide; // Every clue but distances
+  value?: number; // Latitude or longitude in degrees, altitude in m
+  minKm?: number; // Distance clues
+  maxKm?: number;
+}
+
+export interface ElevationGrid {
+  bbox: BBox; // [west, south, east, north]
+  size: number; // Cells per side
+  values: (number | null)[]; // Row by row from the south west, null where unknown
+}
+
+export interface ConstraintStatus {
+  error: string | null; // Why the clue is left out of the region
+  pending: boolean; // Altitude clue waiting for elevations across the frame
+  eliminatedKm2: number; // Area the clue removes from the region of all the others
+}
+
+export interface ConstraintsResult {
+  region: Polygon | MultiPolygon | null; // Null when no place meets every clue
+  areaKm2: number;
+  frame: BBox | null; // Null when no clue bounds the region
+  statuses: Record<string, ConstraintStatus>;
+  error: string | null;
+}
+
+export type ConstraintLayers = ZoneLayers & Pick<ProjectLayerData, 'zones'>;
+
+export const CONSTRAINT_KIND_LABELS: Record<ConstraintKind, string> = {
+  distance: 'Distance to',
+  latitude: 'Parallel',
+  longitude: 'Meridian',
+  lineSide: 'Side of line',
+  area: 'Area',
+  altitude: 'Altitude',
+};
+
+export const CONSTRAINT_SIDE_LABELS: Record<ConstraintSide, string> = {
+  north: 'North of',
+  south: 'South of',
+  east: 'East of',
+  west: 'West of',
+  inside: 'Inside',
+  outside: 'Outside',
+  above: 'Above',
+  below: 'Below',
+};
+
+// Sides each kind of clue offers, the first one being the default
+export const CONSTRAINT_SIDES: Record<ConstraintKind, ConstraintSide[]> = {
+  distance: [],
+  latitude: ['north', 'south'],
+  longitude: ['east', 'west'],
+  lineSide: ['east', 'west', 'north', 'south'],
+  area: ['inside', 'outside'],
+  altitude: ['above', 'below'],
+};
+
+// Elements each kind of clue can refer to: distances use the search buffer of the element
+export const CONSTRAINT_ELEMENT_TYPES: Record<ConstraintKind, ConstraintElementType[]> = {
+  distance: ['point', 'lineSegment', 'arc', 'locus'],
+  latitude: [],
+  longitude: [],
+  lineSide: ['lineSegment'],
+  area: ['polygon', 'circle', 'arc', 'locus', 'zone'],
+  altitude: [],
+};
+
+export const ELEVATION_GRID_SIZE = 24;
+
+const CONSTRAINT_KINDS = Object.keys(CONSTRAINT_KIND_LABELS) as ConstraintKind[];
+const M2_PER_KM2 = 1_000_000;
+const FRAME_MARGIN = 0.05; // Share of the bounded area added around the frame
+const MIN_LINE_SPREAD = 0.01; // Share of a line's length it must run across its side direction
+
+// Unit steps on the map, in degrees of longitude and latitude
+const SIDE_DIRECTIONS: Partial<Record<ConstraintSide, [number, number]>> = {
+  north: [0, 1],
+  south: [0, -1],
+  east: [1, 0],
+  west: [-1, 0],
+};
+
+/**
+ * Clue read back from project settings, or null when it is malformed
+ */
+export function toConstraint(value: unknown): Constraint | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  const kind = raw.kind as ConstraintKind;
+  if (typeof raw.id !== 'string' || !CONSTRAINT_KINDS.includes(kind)) return null;
+  const constraint: Constraint = { id: raw.id, kind, enabled: raw.enabled !== false };
+  if ((CONSTRAINT_ELEMENT_TYPES[kind] as unknown[]).includes(raw.elementType)) {
+    constraint.elementType = raw.elementType as ConstraintElementType;
+    constraint.elementId = typeof raw.elementId === 'string' ? raw.elementId : undefined;
+  }
+  if ((CONSTRAINT_SIDES[kind] as unknown[]).includes(raw.side)) {
+    constraint.side = raw.side as ConstraintSide;
+  }
+  for (const key of ['value', 'minKm', 'maxKm'] as const) {
+    const number = raw[key];
+    if (typeof number === 'number' && Number.isFinite(number)) {
+      constraint[key] = number;
+    }
+  }
+  return constraint;
+}
+
+function elementName(
+  layers: ConstraintLayers,
+  type: ConstraintElementType | undefined,
+  id: string | undefined
+): string | null {
+  const lists: Record<ConstraintElementType, { id: string; name: string }[]> = {
+    circle: layers.circles,
+    lineSegment: layers.lineSegments,
+    point: layers.points,
+    polygon: layers.polygons,
+    arc: layers.arcs,
+    locus: layers.loci,
+    zone: layers.zones,
+  };
+  return (type && lists[type].find((element) => element.id === id)?.name) || null;
+}
+
+/**
+ * Clue as a sentence, e.g. "Distance to P1 between 4 and 6 km" or "Altitude above 600 m"
+ */
+export function describeConstraint(constraint: Constraint, layers: ConstraintLayers): string {
+  const name = elementName(layers, constraint.elementType, constraint.elementId) ?? '…';
+  const side = constraint.side ? CONSTRAINT_SIDE_LABELS[constraint.side] : '';
+  const value = constraint.value ?? '…';
+  switch (constraint.kind) {
+    case 'distance': {
+      return constraint.minKm
+        ? `Distance to ${name} between ${constraint.minKm} and ${constraint.maxKm ?? '…'} km`
+        : `Distance to ${name} within ${constraint.maxKm ?? '…'} km`;
+    }
+    case 'latitude': {
+      return `${side} parallel ${value}°`;
+    }
+    case 'longitude': {
+      return `${side} meridian ${value}°`;
+    }
+    case 'lineSide': {
+      return `${side} line ${name}`;
+    }
+    case 'area': {
+      return `${side} ${name}`;
+    }
+    case 'altitude': {
+      return `Altitude ${side.toLowerCase()} ${value} m`;
+    }
+  }
+}
+
+function isBounded(constraint: Constraint): boolean {
+  return (
+    constraint.kind === 'distance' || (constraint.kind === 'area' && constraint.side !== 'outside')
+  );
+}
+
+function bboxArea([west, south, east, north]: BBox): number {
+  return turf.area(turf.bboxPolygon([west, south, east, north])) / M2_PER_KM2;
+}
+
+/**
+ * Intersection of every feature, or null as soon as it becomes empty
+ */
+function intersectAll(
+  features: Feature<Polygon | MultiPolygon>[]
+): Feature<Polygon | MultiPolygon> | null {
+  let combined: Feature<Polygon | MultiPolygon> | null = features[0] ?? null;
+  for (const feature of features.slice(1)) {
+    if (!combined) break;
+    combined = turf.intersect(turf.featureCollection([combined, feature]));
+  }
+  return combined;
+}
+
+/**
+ * Enclosed area of an element, zones included
+ */
+function areaGeometry(
+  constraint: Constraint,
+  layers: ConstraintLayers
+): Feature<Polygon | MultiPolygon> | null {
+  const { elementType: type, elementId: id } = constraint;
+  if (!type || !id) return null;
+  if (type === 'zone') {
+    const zone = layers.zones.find((z) => z.id === id);
+    const geometry = zone ? computeZone(zone, layers).geometry : null;
+    return geometry ? turf.feature(geometry) : null;
+  }
+  return zoneSourceGeometry({ type, id, mode: 'area' }, layers);
+}
+
+/**
+ * Ring of places within the distance range of an element: its search buffer at the largest
+ * distance, less the one at the smallest
+ */
+function distanceGeometry(
+  constraint: Constraint,
+  layers: ConstraintLayers
+): Feature<Polygon | MultiPolygon> | null {
+  const { elementType: type, elementId: id, minKm = 0, maxKm = 0 } = constraint;
+  if (!type || !id || type === 'zone') return null;
+  const outer = zoneSourceGeometry({ type, id, mode: 'buffer', bufferKm: maxKm }, layers);
+  if (!outer || minKm <= 0) return outer;
+  const inner = zoneSourceGeometry({ type, id, mode: 'buffer', bufferKm: minKm }, layers);
+  return inner ? turf.difference(turf.featureCollection([outer, inner])) : outer;
+}
+
+/**
+ * Places on one side of a line across the frame
+ * The line is extended straight past both ends and swept in the side's direction, so the side is
+ * taken on the map rather than along the line's own curve beyond its ends
+ */
+function lineSideGeometry(
+  constraint: Constraint,
+  layers: ConstraintLayers,
+  frame: BBox
+): Feature<Polygon> | string {
+  const line = layers.lineSegments.find((s) => s.id === constraint.elementId);
+  const direction = constraint.side ? SIDE_DIRECTIONS[constraint.side] : undefined;
+  if (!line || !direction) return 'Pick a line and a side';
+  if (!line.endpoint) return `${line.name} has no end to take a side from`;
+
+  const path = samplePath(line.center, line.endpoint, getLinePathType(line)).map((p) => [
+    p.lon,
+    p.lat,
+  ]);
+  const [x0, y0] = path[0]!;
+  const [x1, y1] = path.at(-1)!;
+  const length = Math.hypot(x1! - x0!, y1! - y0!);
+  const [dx, dy] = direction;
+  // Share of the line running across the side direction
+  const spread = length > 0 ? Math.abs((x1! - x0!) * dy - (y1! - y0!) * dx) / length : 0;
+  if (spread < MIN_LINE_SPREAD) {
+    return `${line.name} runs ${constraint.side === 'east' || constraint.side === 'west' ? 'east–west' : 'north–south'}, it has no such side`;
+  }
+
+  // Far enough to cross the whole frame whatever the line's position
+  const reach = 2 * (Math.abs(frame[2] - frame[0]) + Math.abs(frame[3] - frame[1]) + length);
+  const ux = (x1! - x0!) / length;
+  const uy = (y1! - y0!) / length;
+  const extended = [
+    [x0! - ux * reach, y0! - uy * reach],
+    ...path,
+    [x1! + ux * reach, y1! + uy * reach],
+  ];
+  const swept = extended.map(([x, y]) => [x! + dx * reach, y! + dy * reach]).toReversed();
+  return turf.polygon([[...extended, ...swept, extended[0]!]]);
+}
+
+/**
+ * Cells of the elevation grid meeting an altitude clue, merged along each row
+ */
+function altitudeGeometry(
+  constraint: Constraint,
+  grid: ElevationGrid
+): Feature<Polygon | MultiPolygon> | null {
+  const [west, south, east, north] = grid.bbox;
+  const cellWidth = (east - west) / grid.size;
+  const cellHeight = (north - south) / grid.size;
+  const threshold = constraint.value ?? 0;
+  // Unknown elevations cannot rule a place out
+  const meets = (value: number | null) =>
+    value === null || (constraint.side === 'below' ? value <= threshold : value >= threshold);
+
+  const cells: Feature<Polygon>[] = [];
+  for (let row = 0; row < grid.size; row++) {
+    let start = -1;
+    for (let col = 0; col <= grid.size; col++) {
+      const inside = col < grid.size && meets(grid.values[row * grid.size + col] ?? null);
+      if (inside && start < 0) {
+        start = col;
+      } else if (!inside && start >= 0) {
+        const bottom = south + row * cellHeight;
+        cells.push(
+          turf.bboxPolygon([
+            west + start * cellWidth,
+            bottom,
+            west + col * cellWidth,
+            bottom + cellHeight,
+          ])
+        );
+        start = -1;
+      }
+    }
+  }
+  if (cells.length === 0) return null;
+  return cells.length === 1 ? cells[0]! : turf.union(turf.featureCollection(cells));
+}
+
+function containsBBox(outer: BBox, inner: BBox): boolean {
+  return (
+    outer[0] <= inner[0] && outer[1] <= inner[1] && outer[2] >= inner[2] && outer[3] >= inner[3]
+  );
+}
+
+/**
+ * Area a clue allows, an error message when it cannot be built, or 'pending' for an altitude
+ * clue without elevations across the frame
+ */
+function constraintGeometry(
+  constraint: Constraint,
+  layers: ConstraintLayers,
+  frame: BBox,
+  grid: ElevationGrid | null
+): Feature<Polygon | MultiPolygon> | string | null {
+  const [west, south, east, north] = frame;
+  const value = constraint.value;
+  switch (constraint.kind) {
+    case 'distance': {
+      if (!((constraint.maxKm ?? 0) > (constraint.minKm ?? 0))) {
+        return 'The largest distance must exceed the smallest';
+      }
+      return distanceGeometry(constraint, layers) ?? 'Pick an element';
+    }
+    case 'latitude': {
+      if (value === undefined || Math.abs(value) > 90) return 'Enter a latitude';
+      return constraint.side === 'south'
+        ? turf.bboxPolygon([west, south, east, Math.max(south, value)])
+        : turf.bboxPolygon([west, Math.min(north, value), east, north]);
+    }
+    case 'longitude': {
+      if (value === undefined || Math.abs(value) > 180) return 'Enter a longitude';
+      return constraint.side === 'west'
+        ? turf.bboxPolygon([west, south, Math.max(west, value), north])
+        : turf.bboxPolygon([Math.min(east, value), south, east, north]);
+    }
+    case 'lineSide': {
+      return lineSideGeometry(constraint, layers, frame);
+    }
+    case 'area': {
+      const area = areaGeometry(constraint, layers);
+      if (!area) return 'Pick an element with an area';
+      return constraint.side === 'outside'
+        ? turf.difference(turf.featureCollection([turf.bboxPolygon(frame), area]))
+        : area;
+    }
+    case 'altitude': {
+      if (value === undefined) return 'Enter an altitude';
+      if (!grid || !containsBBox(grid.bbox, frame)) return 'pending';
+      return altitudeGeometry(constraint, grid);
+    }
+  }
+}
+
+/**
+ * Frame the open clues are built across: the bounds of what the bounded clues leave, with a
+ * margin so that lines and parallels on its edge still show
+ */
+function regionFrame(bounded: Feature<Polygon | MultiPolygon>[]): BBox {
+  const region = intersectAll(bounded);
+  const [west, south, east, north] = turf.bbox(region ?? turf.featureCollection(bounded));
+  const marginX = (east - west) * FRAME_MARGIN;
+  const marginY = (north - south) * FRAME_MARGIN;
+  return [
+    west - marginX,
+    Math.max(-90, south - marginY),
+    east + marginX,
+    Math.min(90, north + marginY),
+  ];
+}
+
+function areaOf(feature: Feature<Polygon | MultiPolygon> | null): number {
+  return feature ? turf.area(feature) / M2_PER_KM2 : 0;
+}
+
+/**
+ * Combine the enabled clues into the feasible region, and measure how much area each one
+ * eliminates compared to the region of all the others
+ */
+export function evaluateConstraints(
+  constraints: Constraint[],
+  layers: ConstraintLayers,
+  grid: ElevationGrid | null = null
+): ConstraintsResult {
+  const result: ConstraintsResult = {
+    region: null,
+    areaKm2: 0,
+    frame: null,
+    statuses: {},
+    error: null,
+  };
+  const enabled = constraints.filter((constraint) => constraint.enabled);
+  for (const constraint of constraints) {
+    result.statuses[constraint.id] = { error: null, pending: false, eliminatedKm2: 0 };
+  }
+
+  try {
+    const bounded = enabled
+      .filter((constraint) => isBounded(constraint))
+      .map((constraint) => {
+        const geometry =
+          constraint.kind === 'distance'
+            ? distanceGeometry(constraint, layers)
+            : areaGeometry(constraint, layers);
+        return geometry && turf.area(geometry) > 0 ? geometry : null;
+      })
+      .filter((geometry) => geometry !== null);
+    if (bounded.length === 0) {
+      result.error = 'Add a distance or an "inside" area clue to bound the region';
+      return result;
+    }
+    const frame = regionFrame(bounded);
+    result.frame = frame;
+
+    const usable: { id: string; geometry: Feature<Polygon | MultiPolygon> | null }[] = [];
+    for (const constraint of enabled) {
+      const status = result.statuses[constraint.id]!;
+      const geometry = constraintGeometry(constraint, layers, frame, grid);
+      if (geometry === 'pending') {
+        status.pending = true;
+      } else if (typeof geometry === 'string') {
+        status.error = geometry;
+      } else {
+        usable.push({ id: constraint.id, geometry });
+      }
+    }
+
+    // A clue allowing no place at all empties the region
+    const present = usable.map((entry) => entry.geometry);
+    const region = present.includes(null)
+      ? null
+      : intersectAll(present as Feature<Polygon | MultiPolygon>[]);
+    result.region = region?.geometry ?? null;
+    result.areaKm2 = areaOf(region);
+
+    for (const entry of usable) {
+      const others = usable.filter((other) => other !== entry).map((other) => other.geometry);
+      let withoutArea = bboxArea(frame);
+      if (others.includes(null)) {
+        withoutArea = 0;
+      } else if (others.length > 0) {
+        withoutArea = areaOf(intersectAll(others as Feature<Polygon | MultiPolygon>[]));
+      }
+      result.statuses[entry.id]!.eliminatedKm2 = Math.max(0, withoutArea - result.areaKm2);
+    }
+  } catch (error) {
+    console.error('[Constraints] Error combining clues:', error);
+    result.error = 'The clues could not be combined';
+  }
+  return result;
+}
+
+/**
+ * Sample points of an elevation grid across a frame, at the centre of each cell, rounded the way
+ * elevation lookups are keyed
+ */
+export function elevationGridPoints(bbox: BBox, size = ELEVATION_GRID_SIZE): LatLon[] {
+  const [west, south, east, north] = bbox;
+  const points: LatLon[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      points.push({
+        lat: Number((south + ((row + 0.5) * (north - south)) / size).toFixed(6)),
+        lon: Number((west + ((col + 0.5) * (east - west)) / size).toFixed(6)),
+      });
+    }
+  }
+  return points;
+}
+
+/**
+ * Elevation grid from the elevations fetched for elevationGridPoints
+ */
+export function createElevationGrid(
+  bbox: BBox,
+  elevations: Map<string, number>,
+  size = ELEVATION_GRID_SIZE
+): ElevationGrid {
+  return {
+    bbox,
+    size,
+    values: elevationGridPoints(bbox, size).map(
+      (p) => elevations.get(`${p.lat.toFixed(6)}_${p.lon.toFixed(6)}`) ?? null
+    ),
+  };
+}
+
+/**
+ * Eliminated area for lists, e.g. "removes 12.40 km² (35%)", the share being of the area the
+ * other clues leave
+ */
+export function formatEliminated(eliminatedKm2: number, regionKm2: number): string {
+  const total = eliminatedKm2 + regionKm2;
+  const share = total > 0 ? Math.round((eliminatedKm2 / total) * 100) : 0;
+  return `removes ${formatZoneArea(eliminatedKm2)} (${share}%)`;
+}
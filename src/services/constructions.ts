@@ -0,0 +1,285 @@
+/**
+ * Constructions - Classical ruler-and-compass constructions on the earth model
+ *
+ * Lines are the drawn paths of line segments (geodesic, rhumb or straight on the map) extended
+ * past their ends where needed. Distances and bearings follow the active earth model, and the new
+ * lines are geodesics, so on the ellipsoid a "perpendicular" meets its line at a right angle.
+ */
+
+import type { LatLon, LinePathType } from './geometry';
+import type { LineSegmentElement } from './storage';
+import { geodesicDirect, geodesicDistance, geodesicInverse } from './geodesy';
+import { getLinePathType, pathInterpolator, pathLength } from './geometry';
+import { intersectElements } from './intersections';
+
+export type ConstructionKind =
+  | 'perpendicularFoot'
+  | 'perpendicularThrough'
+  | 'perpendicularBisector'
+  | 'angleBisector'
+  | 'reflection'
+  | 'parallelOffset';
+
+export const CONSTRUCTION_LABELS: Record<ConstructionKind, string> = {
+  perpendicularFoot: 'Foot of the perpendicular',
+  perpendicularThrough: 'Perpendicular through a point',
+  perpendicularBisector: 'Perpendicular bisector',
+  angleBisector: 'Angle bisector',
+  reflection: 'Reflection across a line',
+  parallelOffset: 'Parallel offset',
+};
+
+export interface ConstructionLine {
+  start: LatLon;
+  end: LatLon;
+  pathType: LinePathType;
+}
+
+export interface PerpendicularFoot {
+  point: LatLon;
+  fraction: number; // Along the line, 0 at its start and 1 at its end; outside when extended
+  distanceKm: number; // From the given point to the foot
+}
+
+const SCAN_SAMPLES = 256;
+const HALF_CIRCUMFERENCE_KM = 20_000;
+const MAX_EXTENSION_KM = 2000; // How far lines are extended to find where they meet
+const ON_LINE_KM = 1e-6; // Closer than this, a point lies on the line
+const TANGENT_STEP = 1e-6; // Fraction of the line used to measure its direction
+
+/**
+ * Path of a line segment, or null for parallels and lines without an end
+ */
+export function segmentLine(segment: LineSegmentElement): ConstructionLine | null {
+  if (segment.mode === 'parallel' || !segment.endpoint) {
+    return null;
+  }
+  return { start: segment.center, end: segment.endpoint, pathType: getLinePathType(segment) };
+}
+
+/**
+ * Golden-section search for the parameter where f is smallest on [a, b]
+ */
+function minimize(f: (t: number) => number, a: number, b: number): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = a;
+  let high = b;
+  let x1 = high - ratio * (high - low);
+  let x2 = low + ratio * (high - low);
+  let f1 = f(x1);
+  let f2 = f(x2);
+  for (let i = 0; i < 80; i++) {
+    if (f1 < f2) {
+      high = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = high - ratio * (high - low);
+      f1 = f(x1);
+    } else {
+      low = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = low + ratio * (high - low);
+      f2 = f(x2);
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Bearing of the line at a fraction of its length, in the direction of its end
+ */
+export function lineBearingAt(line: ConstructionLine, fraction: number): number {
+  const along = pathInterpolator(line.start, line.end, line.pathType);
+  return geodesicInverse(along(fraction - TANGENT_STEP), along(fraction + TANGENT_STEP))
+    .initialBearing;
+}
+
+/**
+ * Closest point of a line (extended past its ends) to a point
+ * The foot lies within twice the distance to the start of the line, so only that stretch is
+ * scanned before refining the closest sample
+ */
+export function perpendicularFoot(point: LatLon, line: ConstructionLine): PerpendicularFoot | null {
+  const lengthKm = pathLength(line.start, line.end, line.pathType);
+  if (!(lengthKm > 0)) {
+    return null;
+  }
+
+  const along = pathInterpolator(line.start, line.end, line.pathType);
+  const distance = (fraction: number) => geodesicDistance(point, along(fraction));
+  const reach = Math.min(2 * geodesicDistance(point, line.start), HALF_CIRCUMFERENCE_KM) / lengthKm;
+  const from = Math.min(-reach, 0);
+  const to = Math.max(reach, 1);
+  const step = (to - from) / SCAN_SAMPLES;
+
+  let best = from;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (let i = 0; i <= SCAN_SAMPLES; i++) {
+    const fraction = from + i * step;
+    const d = distance(fraction);
+    if (d < bestDistance) {
+      best = fraction;
+      bestDistance = d;
+    }
+  }
+
+  const fraction = minimize(distance, best - step, best + step);
+  return { point: along(fraction), fraction, distanceKm: distance(fraction) };
+}
+
+/**
+ * Geodesic through a point at a bearing, centred on the point
+ */
+function centredLine(center: LatLon, bearing: number, lengthKm: number): ConstructionLine {
+  return {
+    start: geodesicDirect(center, lengthKm / 2, bearing + 180),
+    end: geodesicDirect(center, lengthKm / 2, bearing),
+    pathType: 'geodesic',
+  };
+}
+
+/**
+ * Line through a point at right angles to a line, centred on the foot of the perpendicular
+ * Without a length it reaches from the point to its mirror image across the line
+ */
+export function perpendicularThrough(
+  point: LatLon,
+  line: ConstructionLine,
+  lengthKm?: number
+): ConstructionLine | null {
+  const foot = perpendicularFoot(point, line);
+  if (!foot) {
+    return null;
+  }
+  const onLine = foot.distanceKm < ON_LINE_KM;
+  const bearing = onLine
+    ? lineBearingAt(line, foot.fraction) + 90
+    : geodesicInverse(foot.point, point).initialBearing;
+  const length =
+    lengthKm ?? (onLine ? pathLength(line.start, line.end, line.pathType) : 2 * foot.distanceKm);
+  return centredLine(foot.point, bearing, length);
+}
+
+/**
+ * Line of the points equidistant from a and b near their midpoint: the geodesic through the
+ * midpoint at right angles to a–b. Without a length it is as long as a–b.
+ */
+export function perpendicularBisector(
+  a: LatLon,
+  b: LatLon,
+  lengthKm?: number
+): ConstructionLine | null {
+  const { distanceKm, initialBearing } = geodesicInverse(a, b);
+  if (!(distanceKm > 0)) {
+    return null;
+  }
+  const midpoint = geodesicDirect(a, distanceKm / 2, initialBearing);
+  const bearing = geodesicInverse(midpoint, b).initialBearing;
+  return centredLine(midpoint, bearing + 90, lengthKm ?? distanceKm);
+}
+
+/**
+ * Line extended by up to MAX_EXTENSION_KM past each end, on its own path
+ */
+function extendedSegment(line: ConstructionLine): LineSegmentElement {
+  const lengthKm = pathLength(line.start, line.end, line.pathType);
+  const extension = MAX_EXTENSION_KM / lengthKm;
+  const along = pathInterpolator(line.start, line.end, line.pathType);
+  return {
+    id: '',
+    name: '',
+    center: along(-extension),
+    endpoint: along(1 + extension),
+    mode: 'coordinate',
+    pathType: line.pathType,
+  };
+}
+
+/**
+ * Direction from where two lines meet along the arm of a line, towards its farther end
+ */
+function armBearing(vertex: LatLon, line: ConstructionLine): number {
+  const foot = perpendicularFoot(vertex, line);
+  const fraction = foot?.fraction ?? 0;
+  const bearing = lineBearingAt(line, fraction);
+  return fraction < 0.5 ? bearing : bearing + 180;
+}
+
+/**
+ * Bisector of the angle between two lines, starting where they meet (extended if needed) and
+ * running between their arms, each arm pointing towards the farther end of its line
+ * Returns null when the lines do not meet within MAX_EXTENSION_KM of their ends
+ */
+export function angleBisector(
+  first: ConstructionLine,
+  second: ConstructionLine,
+  lengthKm: number
+): { vertex: LatLon; bearing: number; line: ConstructionLine; angle: number } | null {
+  if (
+    !(pathLength(first.start, first.end, first.pathType) > 0) ||
+    !(pathLength(second.start, second.end, second.pathType) > 0)
+  ) {
+    return null;
+  }
+  const { points, overlapping } = intersectElements(
+    { type: 'lineSegment', element: extendedSegment(first) },
+    { type: 'lineSegment', element: extendedSegment(second) }
+  );
+  if (overlapping || points.length === 0) {
+    return null;
+  }
+
+  // The crossing nearest to both lines
+  const vertex = points
+    .map((point) => ({
+      point: { lat: point.lat, lon: point.lon },
+      distance: geodesicDistance(point, first.start) + geodesicDistance(point, second.start),
+    }))
+    .toSorted((p, q) => p.distance - q.distance)[0]!.point;
+
+  const firstBearing = armBearing(vertex, first);
+  const secondBearing = armBearing(vertex, second);
+  const angle = ((((secondBearing - firstBearing) % 360) + 540) % 360) - 180;
+  const bearing = (((firstBearing + angle / 2) % 360) + 360) % 360;
+  return {
+    vertex,
+    bearing,
+    line: { start: vertex, end: geodesicDirect(vertex, lengthKm, bearing), pathType: 'geodesic' },
+    angle: Math.abs(angle),
+  };
+}
+
+/**
+ * Mirror image of a point across a line: as far past the foot of the perpendicular as the point
+ * is before it
+ */
+export function reflectPoint(point: LatLon, line: ConstructionLine): LatLon | null {
+  const foot = perpendicularFoot(point, line);
+  if (!foot) {
+    return null;
+  }
+  if (foot.distanceKm < ON_LINE_KM) {
+    return { lat: point.lat, lon: point.lon };
+  }
+  const bearing = geodesicInverse(foot.point, point).initialBearing;
+  return geodesicDirect(foot.point, foot.distanceKm, bearing + 180);
+}
+
+/**
+ * Line at a distance to the right (positive) or left (negative) of a line, facing its end
+ * Its ends are moved at right angles and joined on the same kind of path. The true offset of a
+ * geodesic is not a geodesic: a 1 km offset of a 500 km line strays under a metre in the middle.
+ */
+export function parallelOffset(line: ConstructionLine, offsetKm: number): ConstructionLine | null {
+  if (!(pathLength(line.start, line.end, line.pathType) > 0)) {
+    return null;
+  }
+  const side = offsetKm >= 0 ? 90 : -90;
+  const distance = Math.abs(offsetKm);
+  return {
+    start: geodesicDirect(line.start, distance, lineBearingAt(line, 0) + side),
+    end: geodesicDirect(line.end, distance, lineBearingAt(line, 1) + side),
+    pathType: line.pathType,
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Coordinate format - Write positions in the notation chosen for display
+ *
+ * Geographic notations keep the hemisphere letters and may count longitudes from the Paris
+ * meridian or use the NTF datum, as old French maps do; projected ones round to the metre.
+ * UTM and MGRS are undefined beyond 80°S and 84°N, where positions fall back to decimal degrees.
+ */
+
+import type { AngleAxis } from './coordinateParser';
+import type { LatLon } from './geometry';
+import type { GeodeticDatum, LambertProjectionId } from './projections';
+import {
+  DEGREES_PER_GRAD,
+  fromWGS84,
+  GEODETIC_DATUMS,
+  latLonToLambert,
+  latLonToMGRS,
+  latLonToUTM,
+  mgrsBand,
+  toParisMeridian,
+} from './projections';
+
+export type CoordinateFormat =
+  | 'decimal'
+  | 'dms'
+  | 'ddm'
+  | 'grads'
+  | 'utm'
+  | 'mgrs'
+  | LambertProjectionId;
+
+export type PrimeMeridian = 'greenwich' | 'paris';
+
+export interface CoordinateDisplay {
+  format: CoordinateFormat;
+  precision: number; // Decimals of decimal degrees and grads
+  meridian: PrimeMeridian; // Geographic formats only
+  datum: GeodeticDatum; // Geographic formats only
+}
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  decimal: 'Decimal degrees',
+  dms: 'Degrees, minutes, seconds',
+  ddm: 'Degrees, decimal minutes',
+  grads: 'Grads',
+  utm: 'UTM',
+  mgrs: 'MGRS',
+  lambert93: 'Lambert 93',
+  lambert1: 'Lambert I (NTF)',
+  lambert2e: 'Lambert II étendu (NTF)',
+  lambert3: 'Lambert III (NTF)',
+  lambert4: 'Lambert IV (NTF, Corsica)',
+};
+
+export const COORDINATE_FORMATS = Object.keys(COORDINATE_FORMAT_LABELS) as CoordinateFormat[];
+
+export const PRIME_MERIDIAN_LABELS: Record<PrimeMeridian, string> = {
+  greenwich: 'Greenwich',
+  paris: 'Paris',
+};
+
+export const DEFAULT_COORDINATE_DISPLAY: CoordinateDisplay = {
+  format: 'decimal',
+  precision: 6,
+  meridian: 'greenwich',
+  datum: 'wgs84',
+};
+
+export const MIN_DECIMAL_PRECISION = 0;
+export const MAX_DECIMAL_PRECISION = 8;
+
+// Short prefixes the coordinate parser recognizes
+const LAMBERT_PREFIXES: Record<LambertProjectionId, string> = {
+  lambert93: 'L93',
+  lambert1: 'L1',
+  lambert2e: 'L2E',
+  lambert3: 'L3',
+  lambert4: 'L4',
+};
+const GEOGRAPHIC_FORMATS = new Set<CoordinateFormat>(['decimal', 'dms', 'ddm', 'grads']);
+
+const UTM_SOUTH_LIMIT = -80;
+const UTM_NORTH_LIMIT = 84;
+const SECONDS_DECIMALS = 1;
+const MINUTES_DECIMALS = 3;
+
+export function isCoordinateFormat(value: unknown): value is CoordinateFormat {
+  return typeof value === 'string' && value in COORDINATE_FORMAT_LABELS;
+}
+
+/**
+ * Whether a format writes angles, and so follows the meridian and datum settings
+ */
+export function isGeographicFormat(format: CoordinateFormat): boolean {
+  return GEOGRAPHIC_FORMATS.has(format);
+}
+
+/**
+ * Display settings read back from storage, falling back to the defaults
+ */
+export function toCoordinateDisplay(value: unknown): CoordinateDisplay {
+  if (typeof value !== 'object' || value === null) return { ...DEFAULT_COORDINATE_DISPLAY };
+  const { format, precision, meridian, datum } = value as Record<string, unknown>;
+  return {
+    format: isCoordinateFormat(format) ? format : DEFAULT_COORDINATE_DISPLAY.format,
+    precision:
+      typeof precision === 'number' && Number.isInteger(precision)
+        ? Math.min(Math.max(precision, MIN_DECIMAL_PRECISION), MAX_DECIMAL_PRECISION)
+        : DEFAULT_COORDINATE_DISPLAY.precision,
+    meridian:
+      typeof meridian === 'string' && meridian in PRIME_MERIDIAN_LABELS
+        ? (meridian as PrimeMeridian)
+        : DEFAULT_COORDINATE_DISPLAY.meridian,
+    datum:
+      typeof datum === 'string' && datum in GEODETIC_DATUMS
+        ? (datum as GeodeticDatum)
+        : DEFAULT_COORDINATE_DISPLAY.datum,
+  };
+}
+
+/**
+ * One angle with its hemisphere letter, e.g. 48°51'24.0"N or 48°51.400'N
+ * Rounding happens on the smallest unit so that 59.96" never shows as 60.0"
+ */
+function formatAngle(value: number, letters: [string, string], withSeconds: boolean): string {
+  const decimals = withSeconds ? SECONDS_DECIMALS : MINUTES_DECIMALS;
+  const unitsPerDegree = withSeconds ? 3600 : 60;
+  const factor = 10 ** decimals;
+  const total = Math.round(Math.abs(value) * unitsPerDegree * factor) / factor;
+  const letter = value < 0 && total > 0 ? letters[1] : letters[0];
+  const degrees = Math.floor(total / unitsPerDegree + 1e-12);
+  const rest = total - degrees * unitsPerDegree;
+  if (!withSeconds) {
+    return `${degrees}°${rest.toFixed(decimals).padStart(decimals + 3, '0')}'${letter}`;
+  }
+  const minutes = Math.floor(rest / 60 + 1e-12);
+  const seconds = (rest - minutes * 60).toFixed(decimals).padStart(decimals + 3, '0');
+  return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds}"${letter}`;
+}
+
+// Values rounding to zero lose their minus sign
+function formatFixed(value: number, precision: number, unit = ''): string {
+  return value.toFixed(precision).replace(/^-(?=[0.]+$)/, '') + (unit && ` ${unit}`);
+}
+
+function formatDecimal({ lat, lon }: LatLon, precision: number): string {
+  return `${formatFixed(lat, precision)}, ${formatFixed(lon, precision)}`;
+}
+
+/**
+ * Position moved to the chosen datum, with longitudes counted from the chosen meridian
+ */
+function displayPosition(coordinate: LatLon, display: CoordinateDisplay): LatLon {
+  const onDatum = fromWGS84(coordinate, display.datum);
+  return {
+    lat: onDatum.lat,
+    lon: display.meridian === 'paris' ? toParisMeridian(onDatum.lon) : onDatum.lon,
+  };
+}
+
+function formatGeographicAngle(value: number, axis: AngleAxis, display: CoordinateDisplay): string {
+  switch (display.format) {
+    case 'dms':
+    case 'ddm': {
+      const letters: [string, string] = axis === 'latitude' ? ['N', 'S'] : ['E', 'W'];
+      return formatAngle(value, letters, display.format === 'dms');
+    }
+    case 'grads': {
+      return formatFixed(value / DEGREES_PER_GRAD, display.precision, 'gr');
+    }
+    default: {
+      return formatFixed(value, display.precision);
+    }
+  }
+}
+
+function datumPrefix(display: CoordinateDisplay): string {
+  return display.datum === 'wgs84' ? '' : `${GEODETIC_DATUMS[display.datum].label} `;
+}
+
+/**
+ * Angles on the chosen datum and meridian, marked the way the coordinate parser reads them back,
+ * e.g. "NTF 54.276500 gr, 0.000000 gr Paris"
+ */
+function formatGeographic(coordinate: LatLon, display: CoordinateDisplay): string {
+  const position = displayPosition(coordinate, display);
+  const lat = formatGeographicAngle(position.lat, 'latitude', display);
+  const lon = formatGeographicAngle(position.lon, 'longitude', display);
+  const separator = display.format === 'dms' || display.format === 'ddm' ? ' ' : ', ';
+  const meridian = display.meridian === 'paris' ? ' Paris' : '';
+  return `${datumPrefix(display)}${lat}${separator}${lon}${meridian}`;
+}
+
+/**
+ * Latitude or longitude of a position on its own, e.g. 48°51'24.0"N or "0.000000 gr Paris"
+ * Projected notations have no single-axis form, so they fall back to decimal degrees
+ */
+export function formatCoordinateAxis(
+  coordinate: LatLon,
+  axis: AngleAxis,
+  display: CoordinateDisplay = DEFAULT_COORDINATE_DISPLAY
+): string {
+  if (!isGeographicFormat(display.format)) {
+    return formatFixed(axis === 'latitude' ? coordinate.lat : coordinate.lon, display.precision);
+  }
+  const position = displayPosition(coordinate, display);
+  if (axis === 'latitude') {
+    return `${datumPrefix(display)}${formatGeographicAngle(position.lat, axis, display)}`;
+  }
+  const meridian = display.meridian === 'paris' ? ' Paris' : '';
+  return `${datumPrefix(display)}${formatGeographicAngle(position.lon, axis, display)}${meridian}`;
+}
+
+/**
+ * Position in the chosen notation, e.g. "48.856600, 2.352200", 48°51'24.0"N 2°21'07.9"E,
+ * "31U 452278 5411740", "31U DQ 52278 11740", "L93 652469 6862035" or "L1 601152 1128460"
+ */
+export function formatCoordinate(
+  coordinate: LatLon,
+  display: CoordinateDisplay = DEFAULT_COORDINATE_DISPLAY
+): string {
+  const { lat, lon } = coordinate;
+  const outsideUTM = lat < UTM_SOUTH_LIMIT || lat > UTM_NORTH_LIMIT;
+  switch (display.format) {
+    case 'utm': {
+      if (outsideUTM) return formatDecimal(coordinate, display.precision);
+      const utm = latLonToUTM(lat, lon);
+      return `${utm.zone}${mgrsBand(lat)} ${Math.round(utm.easting)} ${Math.round(utm.northing)}`;
+    }
+    case 'mgrs': {
+      if (outsideUTM) return formatDecimal(coordinate, display.precision);
+      const mgrs = latLonToMGRS(lat, lon);
+      const digits = (metres: number) => String(Math.floor(metres)).padStart(5, '0');
+      return `${mgrs.zone}${mgrs.band} ${mgrs.square} ${digits(mgrs.easting)} ${digits(mgrs.northing)}`;
+    }
+    case 'lambert93':
+    case 'lambert1':
+    case 'lambert2e':
+    case 'lambert3':
+    case 'lambert4': {
+      const { x, y } = latLonToLambert(lat, lon, display.format);
+      return `${LAMBERT_PREFIXES[display.format]} ${Math.round(x)} ${Math.round(y)}`;
+    }
+    default: {
+      return formatGeographic(coordinate, display);
+    }
+  }
+}
@@ -0,0 +1,574 @@
+/**
+ * Coordinate parser - Read a position written in any common notation
+ *
+ * Geographic: decimal degrees, DMS and DDM, with hemisphere letters before or after each value
+ * (N/S/E/W, O for the French "ouest"), signs, degree/minute/second marks, comma decimals and
+ * comma, semicolon, slash or space separators.
+ * Projected: UTM with a zone and latitude band or hemisphere, MGRS, and Lambert 93 or NTF Lambert
+ * zone I to IV and II étendu metres (prefixed, or recognized by their range over France).
+ * Old French notations: values in grads ("54.2765 gr"), longitudes from the Paris meridian
+ * ("0°30'E de Paris") and positions on the NTF datum ("NTF (Paris) ..."), all read back to
+ * degrees from Greenwich on WGS84.
+ *
+ * When a text reads several ways (e.g. "45 12 5.7" as DDM or as two angles), every reading is
+ * returned and no coordinate is picked. A UTM "S" is band S when the position falls in that band,
+ * and the southern hemisphere otherwise.
+ */
+
+import type { LatLon } from './geometry';
+import type { LambertProjectionId, UTMHemisphere } from './projections';
+import {
+  DEGREES_PER_GRAD,
+  fromParisMeridian,
+  isMGRSBand,
+  LAMBERT_PROJECTIONS,
+  lambertToLatLon,
+  mgrsBandHemisphere,
+  mgrsBandLatitude,
+  mgrsToUTM,
+  toWGS84,
+  utmToLatLon,
+} from './projections';
+
+export type CoordinateNotation =
+  | 'decimal'
+  | 'ddm'
+  | 'dms'
+  | 'grads'
+  | 'utm'
+  | 'mgrs'
+  | LambertProjectionId;
+
+export type AngleAxis = 'latitude' | 'longitude';
+
+export interface ParsedCoordinate extends LatLon {
+  notation: CoordinateNotation;
+  label: string; // How the text was read, e.g. "UTM 31T" or "DMS"
+}
+
+export interface CoordinateParseResult {
+  coordinate: ParsedCoordinate | null; // Set only when the text reads one way
+  candidates: ParsedCoordinate[]; // Every reading, several when the text is ambiguous
+  error: string | null; // Why there is no coordinate
+}
+
+export interface ParsedAngle {
+  value: number; // Degrees, longitudes from Greenwich
+  label: string;
+}
+
+export interface AngleParseResult {
+  angle: ParsedAngle | null;
+  error: string | null;
+}
+
+export const COORDINATE_NOTATION_LABELS: Record<CoordinateNotation, string> = {
+  decimal: 'Decimal degrees',
+  ddm: 'Degrees and decimal minutes',
+  dms: 'Degrees, minutes and seconds',
+  grads: 'Grads',
+  utm: 'UTM',
+  mgrs: 'MGRS',
+  lambert93: 'Lambert 93',
+  lambert1: 'Lambert I',
+  lambert2e: 'Lambert II étendu',
+  lambert3: 'Lambert III',
+  lambert4: 'Lambert IV',
+};
+
+const ANGLE_NOTATIONS: CoordinateNotation[] = ['decimal', 'ddm', 'dms'];
+const NUMBER = String.raw`[-+]?\d+(?:[.,]\d+)?`;
+const MGRS_PATTERN = /^(\d{1,2})([A-Z])([A-Z]{2})(\d*)$/;
+const UTM_PATTERN = new RegExp(
+  String.raw`^(?:UTM\s*)?(\d{1,2})\s*(?:([A-Z]|NORTH|SOUTH|NORD|SUD)[\s,;]*|[\s,;]+)(${NUMBER})\s*(?:M\s*)?E?[\s,;]+(${NUMBER})\s*(?:M\s*)?N?$`
+);
+const UTM_MIN_EASTING = 100_000;
+const UTM_BAND_MARGIN = 0.5; // Degrees a position may stray out of its band letter
+const MGRS_BAND_HEIGHT = 8;
+const PROJECTED_LABELS = /\b[XY]\s*[=:]|\b[EN]\s*[=:]/g;
+// Prefixes of each Lambert system, and its bounds over the area it covers with a margin
+const LAMBERT_SYSTEMS: { id: LambertProjectionId; prefix: RegExp; x: number[]; y: number[] }[] = [
+  {
+    id: 'lambert93',
+    prefix: /^(?:LAMBERT|L)\s*-?\s*93\b|^RGF\s*93(?:\s*\/\s*LAMBERT[\s-]*93)?/,
+    x: [0, 1_300_000],
+    y: [6_000_000, 7_200_000],
+  },
+  {
+    id: 'lambert1',
+    prefix: ntfLambertPrefix('I|1'),
+    x: [0, 1_200_000],
+    y: [1_000_000, 1_450_000],
+  },
+  {
+    id: 'lambert2e',
+    prefix: ntfLambertPrefix(String.raw`(?:II|2)(?:\s*-?\s*(?:[EÉ]TENDU|E))?`),
+    x: [0, 1_200_000],
+    y: [1_600_000, 2_700_000],
+  },
+  {
+    id: 'lambert3',
+    prefix: ntfLambertPrefix('III|3'),
+    x: [0, 1_200_000],
+    y: [2_900_000, 3_500_000],
+  },
+  {
+    id: 'lambert4',
+    prefix: ntfLambertPrefix('IV|4'),
+    x: [300_000, 700_000],
+    y: [4_000_000, 4_400_000],
+  },
+];
+const GRAD_VALUES = /(\d+(?:[.,]\d+)?)\s*(?:GRADE?S?|GONS?|GR|G|ᵍ)(?![A-Z])/g;
+const PARIS_MERIDIAN_WORDS =
+  /(?:\b(?:OF|DE|DU)\s+)?(?:\bM[EÉ]RIDI(?:AN|EN)\s+(?:OF\s+|DE\s+)?)?\(?\s*\bPARIS\b\s*\)?/g;
+const NTF_DATUM = /\bNTF\b/;
+const HEMISPHERE_WORDS: [RegExp, string][] = [
+  [/\bNORD\b/g, 'N'],
+  [/\bSUD\b/g, 'S'],
+  [/\bEST\b/g, 'E'],
+  [/\bOUEST\b/g, 'W'],
+  [/\bNORTH\b/g, 'N'],
+  [/\bSOUTH\b/g, 'S'],
+  [/\bEAST\b/g, 'E'],
+  [/\bWEST\b/g, 'W'],
+];
+
+/**
+ * Prefix of an NTF Lambert zone, e.g. "L3", "Lambert III" or "NTF / Lambert zone III"
+ */
+function ntfLambertPrefix(zone: string): RegExp {
+  return new RegExp(
+    String.raw`^(?:NTF\s*(?:\(\s*PARIS\s*\))?\s*\/\s*)?(?:LAMBERT|L)\s*-?\s*(?:ZONE\s*)?(?:${zone})\b`
+  );
+}
+
+function parseNumber(value: string): number {
+  return Number.parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * Unify typographic primes, quotes and degree signs
+ */
+function normalize(text: string): string {
+  return text
+    .trim()
+    .toUpperCase()
+    .replaceAll(/[′’‘`´]/g, "'")
+    .replaceAll(/[″“”]|''/g, '"')
+    .replaceAll(/º|˚/g, '°');
+}
+
+/**
+ * Hemisphere words as letters, and "O" (ouest) as west
+ */
+function hemisphereLetters(value: string): string {
+  let letters = value;
+  for (const [word, letter] of HEMISPHERE_WORDS) {
+    letters = letters.replaceAll(word, letter);
+  }
+  return letters.replaceAll(/(^|[^A-Z])O(?=[^A-Z]|$)/g, '$1W');
+}
+
+/**
+ * Values in grads written as degrees, and whether there were any
+ */
+function gradsAsDegrees(value: string): { text: string; grads: boolean } {
+  const text = value.replaceAll(
+    GRAD_VALUES,
+    (_, grads: string) => `${(parseNumber(grads) * DEGREES_PER_GRAD).toFixed(12)}°`
+  );
+  return { text, grads: text !== value };
+}
+
+/**
+ * Text without its mention of the Paris meridian, and whether there was one
+ */
+function withoutParisMeridian(value: string): { text: string; paris: boolean } {
+  const text = value.replaceAll(PARIS_MERIDIAN_WORDS, ' ');
+  return { text, paris: text !== value };
+}
+
+function notationLabel(notation: CoordinateNotation): string {
+  if (notation === 'decimal') return 'decimal degrees';
+  return notation === 'grads' ? notation : notation.toUpperCase();
+}
+
+/**
+ * One angle from its numbers, with the sign from a minus or the hemisphere letter
+ * Only the last number may carry decimals, and minutes and seconds stay below 60
+ */
+function angleFromNumbers(
+  numbers: string[],
+  negative: boolean
+): { value: number; notation: CoordinateNotation } | null {
+  if (numbers.length === 0 || numbers.length > 3) return null;
+  const values = numbers.map((n) => parseNumber(n));
+  if (values.some((v) => Number.isNaN(v))) return null;
+  const [degrees = 0, minutes = 0, seconds = 0] = values;
+  if (numbers.slice(0, -1).some((n) => /[.,]/.test(n))) return null;
+  if (numbers.slice(1).some((n) => n.startsWith('-') || n.startsWith('+'))) return null;
+  if (minutes >= 60 || seconds >= 60) return null;
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const sign = degrees < 0 || Object.is(degrees, -0) || negative ? -1 : 1;
+  return { value: sign * magnitude, notation: ANGLE_NOTATIONS[numbers.length - 1]! };
+}
+
+function numbersOf(text: string): string[] {
+  return text.match(new RegExp(NUMBER, 'g')) ?? [];
+}
+
+function geographic(
+  lat: { value: number; notation: CoordinateNotation } | null,
+  lon: { value: number; notation: CoordinateNotation } | null
+): ParsedCoordinate | null {
+  if (!lat || !lon || Math.abs(lat.value) > 90 || Math.abs(lon.value) > 180) return null;
+  // The richer notation of the two names the reading
+  const notation =
+    ANGLE_NOTATIONS.indexOf(lat.notation) >= ANGLE_NOTATIONS.indexOf(lon.notation)
+      ? lat.notation
+      : lon.notation;
+  return {
+    lat: lat.value,
+    lon: lon.value,
+    notation,
+    label: notationLabel(notation),
+  };
+}
+
+/**
+ * Hemisphere letters split the text unambiguously, e.g. 45°12'33"N 5°43'10"E or N 45 12.5 E 5 43.1
+ * A single letter only signs its own half, which a separator has to split off
+ */
+function readWithHemispheres(value: string): ParsedCoordinate[] | null {
+  const letters = [...value.matchAll(/[NSEW]/g)];
+  if (letters.length <= 1) return null;
+  const [first, second] = letters;
+  if (
+    letters.length !== 2 ||
+    !first ||
+    !second ||
+    /[NS]/.test(first[0]) === /[NS]/.test(second[0])
+  ) {
+    return [];
+  }
+  const isPrefix = value.slice(0, first.index).trim() === '';
+  const split = isPrefix ? second.index : first.index + 1;
+  const head = value.slice(0, split);
+  const tail = value.slice(split);
+  const [latText, lonText, latLetter, lonLetter] = /[NS]/.test(first[0])
+    ? [head, tail, first[0], second[0]]
+    : [tail, head, second[0], first[0]];
+  const latNumbers = numbersOf(latText);
+  const lonNumbers = numbersOf(lonText);
+  // A letter already gives the sign
+  if ([latNumbers[0], lonNumbers[0]].some((n) => n?.startsWith('-'))) return [];
+  const coordinate = geographic(
+    angleFromNumbers(latNumbers, latLetter === 'S'),
+    angleFromNumbers(lonNumbers, lonLetter === 'W')
+  );
+  return coordinate ? [coordinate] : [];
+}
+
+/**
+ * Every way of splitting a list of numbers into a latitude and a longitude
+ */
+function readNumberList(numbers: string[]): ParsedCoordinate[] {
+  const readings: ParsedCoordinate[] = [];
+  for (let split = 1; split < numbers.length; split++) {
+    const coordinate = geographic(
+      angleFromNumbers(numbers.slice(0, split), false),
+      angleFromNumbers(numbers.slice(split), false)
+    );
+    if (coordinate) {
+      readings.push(coordinate);
+    }
+  }
+  return readings;
+}
+
+/**
+ * One half of a separated coordinate, signed by the hemisphere letter it may start or end with,
+ * e.g. the "0.5° E" of "48.85, 0.5° E"
+ */
+function angleFromHalf(
+  text: string,
+  letters: [string, string]
+): { value: number; notation: CoordinateNotation } | null {
+  const [positive, negative] = letters;
+  const match = new RegExp(
+    String.raw`^\s*([${positive}${negative}](?![A-Z]))?(.*?)((?<![A-Z])[${positive}${negative}])?\s*$`
+  ).exec(text);
+  const [, before, numbers = '', after] = match ?? [];
+  const letter = before ?? after;
+  if ((before && after) || /(?<![A-Z])[NSEW](?![A-Z])/.test(numbers)) return null;
+  // A letter already gives the sign
+  if (letter && numbersOf(numbers)[0]?.startsWith('-')) return null;
+  return angleFromNumbers(numbersOf(numbers), letter === negative);
+}
+
+/**
+ * Readings without hemisphere letters, latitude first
+ * Halves are split on an explicit separator or a single comma, and may each carry their own
+ * letter; otherwise a space-separated list of numbers (commas then being decimal marks) is split
+ * every possible way
+ */
+function readWithoutHemispheres(value: string): ParsedCoordinate[] {
+  const readings: ParsedCoordinate[] = [];
+  const halves = [/\s*[;|/\t]\s*/, /,\s+/, /,/]
+    .map((separator) => value.split(separator))
+    .find((parts) => parts.length === 2);
+  if (halves) {
+    const coordinate = geographic(
+      angleFromHalf(halves[0]!, ['N', 'S']),
+      angleFromHalf(halves[1]!, ['E', 'W'])
+    );
+    if (coordinate) {
+      readings.push(coordinate);
+    }
+  }
+  // Commas between digits are decimal marks when the text has no dots
+  const list = value.includes('.') ? value : value.replaceAll(/(\d),(\d)/g, '$1.$2');
+  if (!/[;|/\t,NSEW]|\d\.\d+\.\d/.test(list)) {
+    readings.push(...readNumberList(numbersOf(list)));
+  }
+  return readings;
+}
+
+function utmReading(
+  zone: number,
+  designator: string,
+  easting: number,
+  northing: number
+): ParsedCoordinate | null {
+  const read = (hemisphere: UTMHemisphere, label: string): ParsedCoordinate => ({
+    ...utmToLatLon({ zone, hemisphere, easting, northing }),
+    notation: 'utm',
+    label,
+  });
+  if (isMGRSBand(designator)) {
+    const band = read(mgrsBandHemisphere(designator), `UTM ${zone}${designator}`);
+    // S is also the southern hemisphere, meant when the position is not in band S
+    const edge = mgrsBandLatitude(designator);
+    const inBand =
+      band.lat > edge - UTM_BAND_MARGIN && band.lat < edge + MGRS_BAND_HEIGHT + UTM_BAND_MARGIN;
+    if (designator !== 'S' || inBand) return band;
+  }
+  if (/^S(?:OUTH|UD)?$/.test(designator)) return read('south', `UTM ${zone} south`);
+  if (/^N(?:ORTH|ORD)?$/.test(designator)) return read('north', `UTM ${zone} north`);
+  return null;
+}
+
+/**
+ * UTM, MGRS and Lambert readings, or null when the text is not projected metres
+ */
+function readProjected(value: string): ParsedCoordinate[] | string | null {
+  const compact = value.replaceAll(/\s+/g, '');
+  const mgrs = compact.match(MGRS_PATTERN);
+  if (mgrs && mgrs[4]!.length % 2 === 0 && mgrs[4]!.length <= 10) {
+    const [, zone, band, square, digits] = mgrs;
+    const half = digits!.length / 2;
+    const utm = mgrsToUTM(
+      Number(zone),
+      band!,
+      square!,
+      digits!.slice(0, half),
+      digits!.slice(half)
+    );
+    if (!utm || Number(zone) < 1 || Number(zone) > 60) {
+      return `${zone}${band} ${square} is not an MGRS square`;
+    }
+    return [{ ...utmToLatLon(utm), notation: 'mgrs', label: `MGRS ${zone}${band} ${square}` }];
+  }
+
+  // Eastings are hundreds of kilometres, which keeps lists of degrees out
+  const utm = value.match(UTM_PATTERN);
+  if (utm && parseNumber(utm[3]!) >= UTM_MIN_EASTING) {
+    const [, zone, designator, easting, northing] = utm;
+    if (Number(zone) < 1 || Number(zone) > 60) return `UTM zone ${zone} does not exist`;
+    if (!designator) {
+      return `Add the latitude band or hemisphere to UTM zone ${zone}, e.g. ${zone}T or ${zone} north`;
+    }
+    const reading = utmReading(
+      Number(zone),
+      designator,
+      parseNumber(easting!),
+      parseNumber(northing!)
+    );
+    return reading ? [reading] : `${designator} is not a UTM latitude band`;
+  }
+
+  const prefixed = LAMBERT_SYSTEMS.map((system) => ({
+    system,
+    match: system.prefix.exec(value),
+  })).find(({ match }) => match);
+  const body = (prefixed ? value.slice(prefixed.match![0].length) : value).replaceAll(
+    PROJECTED_LABELS,
+    ' '
+  );
+  const numbers = numbersOf(body).map((n) => parseNumber(n));
+  if (numbers.length !== 2 || (!prefixed && numbers.some((n) => Math.abs(n) < 1000))) {
+    return prefixed
+      ? `${LAMBERT_PROJECTIONS[prefixed.system.id].label} needs an X and a Y in metres`
+      : null;
+  }
+  const [x, y] = numbers as [number, number];
+  const system =
+    prefixed?.system ??
+    LAMBERT_SYSTEMS.find(
+      (candidate) =>
+        x >= candidate.x[0]! && x <= candidate.x[1]! && y >= candidate.y[0]! && y <= candidate.y[1]!
+    );
+  if (!system) {
+    return 'Metres need a system: prefix them with L93, L2E, another Lambert zone such as L3, or a UTM zone such as 31T';
+  }
+  return [
+    {
+      ...lambertToLatLon(x, y, system.id),
+      notation: system.id,
+      label: LAMBERT_PROJECTIONS[system.id].label,
+    },
+  ];
+}
+
+/**
+ * Degrees, DMS and DDM readings, and the old French notations brought back to WGS84
+ */
+function readGeographic(value: string): ParsedCoordinate[] {
+  const meridian = withoutParisMeridian(value);
+  const datum = meridian.text.replace(NTF_DATUM, ' ');
+  const ntf = datum !== meridian.text;
+  const { text, grads } = gradsAsDegrees(datum);
+  const letters = hemisphereLetters(text);
+  const readings = readWithHemispheres(letters) ?? readWithoutHemispheres(letters);
+  // Grads only come as decimals
+  return readings
+    .filter((reading) => !grads || reading.notation === 'decimal')
+    .map((reading) => {
+      const position = {
+        lat: reading.lat,
+        lon: meridian.paris ? fromParisMeridian(reading.lon) : reading.lon,
+      };
+      const notation = grads ? 'grads' : reading.notation;
+      return {
+        ...(ntf ? toWGS84(position, 'ntf') : position),
+        notation,
+        label: [notationLabel(notation), meridian.paris && 'Paris meridian', ntf && 'NTF']
+          .filter(Boolean)
+          .join(', '),
+      };
+    });
+}
+
+function uniqueReadings(readings: ParsedCoordinate[]): ParsedCoordinate[] {
+  return readings.filter(
+    (reading, index) =>
+      readings.findIndex(
+        (other) =>
+          Math.abs(other.lat - reading.lat) < 1e-9 && Math.abs(other.lon - reading.lon) < 1e-9
+      ) === index
+  );
+}
+
+export function formatParsedCoordinate(coordinate: LatLon): string {
+  return `${coordinate.lat.toFixed(6)}, ${coordinate.lon.toFixed(6)}`;
+}
+
+/**
+ * Read a coordinate in any supported notation
+ */
+export function parseCoordinates(text: string | null | undefined): CoordinateParseResult {
+  const value = normalize(text ?? '');
+  if (!value) {
+    return { coordinate: null, candidates: [], error: 'Enter a coordinate' };
+  }
+
+  let readings: ParsedCoordinate[];
+  const projected = readProjected(value);
+  if (typeof projected === 'string') {
+    return { coordinate: null, candidates: [], error: projected };
+  } else if (projected) {
+    readings = projected;
+  } else {
+    readings = uniqueReadings(readGeographic(value));
+  }
+
+  if (readings.length === 0) {
+    const numbers = numbersOf(value).map((n) => parseNumber(n));
+    const swapped =
+      numbers.length === 2 && Math.abs(numbers[0]!) > 90 && Math.abs(numbers[1]!) <= 90;
+    return {
+      coordinate: null,
+      candidates: [],
+      error: swapped
+        ? 'Latitude comes first and stays within ±90°'
+        : 'Unreadable coordinate, e.g. 45.2094, 5.7194 or 45°12\'33"N 5°43\'10"E',
+    };
+  }
+  if (readings.length > 1) {
+    const options = readings.map((r) => `${formatParsedCoordinate(r)} (${r.label})`).join(' or ');
+    return { coordinate: null, candidates: readings, error: `Ambiguous: ${options}` };
+  }
+  return { coordinate: readings[0]!, candidates: readings, error: null };
+}
+
+/**
+ * Read a coordinate, or null when the text is unreadable or ambiguous
+ */
+export function parseCoordinate(text: string | null | undefined): LatLon | null {
+  const { coordinate } = parseCoordinates(text);
+  return coordinate ? { lat: coordinate.lat, lon: coordinate.lon } : null;
+}
+
+/**
+ * How a coordinate text was read, for input hints, e.g. "UTM 31T → 45.209420, 5.719440"
+ */
+export function describeParsedCoordinate(coordinate: ParsedCoordinate): string {
+  return `${coordinate.label} → ${formatParsedCoordinate(coordinate)}`;
+}
+
+/**
+ * Read a single latitude or longitude, e.g. for a parallel or a meridian
+ * Takes the same angle notations as coordinates, and longitudes from the Paris meridian
+ */
+export function parseAngle(text: string | null | undefined, axis: AngleAxis): AngleParseResult {
+  const value = normalize(text ?? '');
+  const fail = (error: string): AngleParseResult => ({ angle: null, error });
+  if (!value) return fail(`Enter a ${axis}`);
+  if (NTF_DATUM.test(value)) return fail('An NTF position needs both coordinates');
+
+  const meridian = withoutParisMeridian(value);
+  if (meridian.paris && axis === 'latitude') return fail('Only longitudes count from Paris');
+  const degrees = gradsAsDegrees(meridian.text);
+  const letters = hemisphereLetters(degrees.text);
+  const hemispheres = letters.match(/[NSEW]/g) ?? [];
+  const expected = axis === 'latitude' ? /[NS]/ : /[EW]/;
+  if (hemispheres.length > 1 || hemispheres.some((letter) => !expected.test(letter))) {
+    return fail(`Unreadable ${axis}, e.g. 48.8566, 48°51'24"N or 54.2765 gr`);
+  }
+
+  const numbers = numbersOf(letters);
+  const reading = angleFromNumbers(numbers, hemispheres[0] === 'S' || hemispheres[0] === 'W');
+  const limit = axis === 'latitude' ? 90 : 180;
+  if (
+    !reading ||
+    (degrees.grads && reading.notation !== 'decimal') ||
+    (hemispheres.length > 0 && numbers[0]?.startsWith('-'))
+  ) {
+    return fail(`Unreadable ${axis}, e.g. 48.8566, 48°51'24"N or 54.2765 gr`);
+  }
+  if (Math.abs(reading.value) > limit) {
+    return fail(`The ${axis} stays within ±${limit}°`);
+  }
+
+  const notation = degrees.grads ? 'grads' : reading.notation;
+  return {
+    angle: {
+      value: meridian.paris ? fromParisMeridian(reading.value) : reading.value,
+      label: [notationLabel(notation), meridian.paris && 'Paris meridian']
+        .filter(Boolean)
+        .join(', '),
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,360 @@
+/**
+ * CSV service - Functions for importing and exporting coordinates, points and search results as CSV/TSV
+ */
+
+import type { AddressSearchResult } from './geoportail';
+import type { PointElement, SavedCoordinate } from './storage';
+import { parseCoordinate } from './coordinateParser';
+
+export type CSVDelimiter = ',' | ';' | '\t';
+
+export interface CSVColumnMapping {
+  name: number | null;
+  lat: number | null;
+  lon: number | null;
+  coordinates: number | null; // Single column holding "lat, lon" in any supported notation
+  elevation: number | null;
+}
+
+export interface CSVImportRow {
+  line: number; // 1-based line in the source file
+  name: string;
+  lat?: number;
+  lon?: number;
+  elevation?: number;
+  error?: string;
+}
+
+export interface CSVTable {
+  delimiter: CSVDelimiter;
+  headers: string[]; // Column labels (generated when the file has no header row)
+  hasHeader: boolean;
+  records: string[][]; // Data rows, header excluded
+}
+
+const COLUMN_ALIASES: Record<keyof CSVColumnMapping, string[]> = {
+  name: ['name', 'nom', 'label', 'title', 'titre', 'description', 'desc'],
+  lat: ['lat', 'latitude', 'y'],
+  lon: ['lon', 'lng', 'long', 'longitude', 'x'],
+  coordinates: ['coordinates', 'coordinate', 'coords', 'coord', 'position', 'location', 'latlon'],
+  elevation: ['elevation', 'ele', 'altitude', 'alt', 'height', 'z'],
+};
+
+/**
+ * Pick the delimiter that splits the first lines most consistently
+ */
+function detectDelimiter(lines: string[]): CSVDelimiter {
+  const candidates: CSVDelimiter[] = ['\t', ';', ','];
+  const sample = lines.slice(0, 10);
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of candidates) {
+    const counts = sample.map((line) => splitRecord(line, delimiter).length);
+    const first = counts[0] ?? 1;
+    if (first < 2) {
+      continue;
+    }
+    // Columns must be stable across lines to count
+    const score = counts.filter((count) => count === first).length * first;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitRecord(line: string, delimiter: CSVDelimiter): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      inQuotes = true;
+      field = '';
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+
+  return fields;
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036F]/g, '')
+    .replace(/[^a-z]/g, '');
+}
+
+/**
+ * Parse CSV/TSV text into a table, detecting the delimiter and the header row
+ */
+export function parseCSVTable(content: string): CSVTable {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const delimiter = detectDelimiter(lines);
+  const rows = lines.map((line) => splitRecord(line, delimiter));
+  const firstRow = rows[0]!;
+
+  // A header row has no digits and either a known column name or digits below a label
+  const knownAliases = new Set(Object.values(COLUMN_ALIASES).flat());
+  const secondRow = rows[1] ?? [];
+  const hasHeader =
+    firstRow.every((cell) => !/\d/.test(cell)) &&
+    (firstRow.some((cell) => knownAliases.has(normalizeHeader(cell))) ||
+      secondRow.some((cell) => /\d/.test(cell)));
+
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const headers = Array.from(
+    { length: columnCount },
+    (_, i) => (hasHeader ? firstRow[i] : undefined) || `Column ${i + 1}`
+  );
+
+  return { delimiter, headers, hasHeader, records: hasHeader ? rows.slice(1) : rows };
+}
+
+/**
+ * Guess which columns hold the name, latitude, longitude, coordinates and elevation
+ */
+export function detectColumns(table: CSVTable): CSVColumnMapping {
+  const mapping: CSVColumnMapping = {
+    name: null,
+    lat: null,
+    lon: null,
+    coordinates: null,
+    elevation: null,
+  };
+
+  if (table.hasHeader) {
+    const normalized = table.headers.map((header) => normalizeHeader(header));
+    for (const key of Object.keys(COLUMN_ALIASES) as (keyof CSVColumnMapping)[]) {
+      const index = normalized.findIndex(
+        (header, i) => COLUMN_ALIASES[key].includes(header) && !Object.values(mapping).includes(i)
+      );
+      mapping[key] = index === -1 ? null : index;
+    }
+    if (mapping.lat !== null && mapping.lon !== null) {
+      mapping.coordinates = null;
+      return mapping;
+    }
+    if (mapping.coordinates !== null) {
+      return mapping;
+    }
+    mapping.lat = null;
+    mapping.lon = null;
+  }
+
+  // Unknown headers: look at the content of the first rows
+  const sample = table.records.slice(0, 10);
+  const isColumn = (index: number, test: (cell: string) => boolean) =>
+    sample.length > 0 && sample.every((row) => test(row[index] ?? ''));
+  const isNumber = (cell: string) => /^[-+]?\d+(?:[.,]\d+)?$/.test(cell);
+  const isFree = (index: number) => !Object.values(mapping).includes(index);
+
+  for (let i = 0; i < table.headers.length; i++) {
+    if (
+      mapping.lat === null &&
+      isFree(i) &&
+      isFree(i + 1) &&
+      isColumn(i, isNumber) &&
+      isColumn(i + 1, isNumber)
+    ) {
+      mapping.lat = i;
+      mapping.lon = i + 1;
+      i++;
+      continue;
+    }
+    if (
+      mapping.lat === null &&
+      mapping.coordinates === null &&
+      isFree(i) &&
+      isColumn(i, (cell) => parseCoordinateText(cell) !== null)
+    ) {
+      mapping.coordinates = i;
+      continue;
+    }
+    if (mapping.name === null && isFree(i) && isColumn(i, (cell) => !isNumber(cell))) {
+      mapping.name = i;
+    }
+  }
+
+  return mapping;
+}
+
+function parseNumber(value: string): number {
+  return Number.parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * Parse one angle written as decimal degrees, DMS or DDM (e.g. 48°51'24"N, N 48 51.4, -2.35)
+ */
+function parseAngle(text: string, positive: string, negative: string): number | null {
+  const value = text.trim().toUpperCase();
+  const hemisphere = value.match(new RegExp(`[${positive}${negative}]`))?.[0];
+  const numbers = value.match(/[-+]?\d+(?:[.,]\d+)?/g)?.map((n) => parseNumber(n)) ?? [];
+  if (numbers.length === 0 || numbers.length > 3) {
+    return null;
+  }
+
+  const [degrees = 0, minutes = 0, seconds = 0] = numbers;
+  if (minutes < 0 || minutes >= 60 || seconds < 0 || seconds >= 60) {
+    return null;
+  }
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const sign = degrees < 0 || hemisphere === negative ? -1 : 1;
+  return sign * magnitude;
+}
+
+/**
+ * Parse a single coordinate cell in any notation the coordinate parser reads (decimal, DMS, DDM,
+ * UTM, MGRS or Lambert 93); ambiguous cells give null
+ */
+export function parseCoordinateText(text: string): { lat: number; lon: number } | null {
+  return parseCoordinate(text);
+}
+
+/**
+ * Turn table records into import rows using the column mapping; invalid rows carry an error
+ */
+export function readCoordinateRows(table: CSVTable, mapping: CSVColumnMapping): CSVImportRow[] {
+  const firstLine = table.hasHeader ? 2 : 1;
+
+  return table.records.map((record, index) => {
+    const line = firstLine + index;
+    const cell = (column: number | null) => (column === null ? '' : (record[column] ?? ''));
+    const name = cell(mapping.name) || `Row ${line}`;
+    const elevationText = cell(mapping.elevation);
+    const elevation = elevationText ? parseNumber(elevationText) : undefined;
+
+    let position: { lat: number; lon: number } | null = null;
+    if (mapping.lat !== null && mapping.lon !== null) {
+      const lat = parseAngle(cell(mapping.lat), 'N', 'S');
+      const lon = parseAngle(cell(mapping.lon).toUpperCase().replace('O', 'W'), 'E', 'W');
+      position = lat === null || lon === null ? null : { lat, lon };
+    } else if (mapping.coordinates === null) {
+      return { line, name, error: 'No coordinate column selected' };
+    } else {
+      position = parseCoordinateText(cell(mapping.coordinates));
+    }
+
+    if (!position) {
+      return { line, name, error: 'Unreadable coordinates' };
+    }
+    if (Math.abs(position.lat) > 90 || Math.abs(position.lon) > 180) {
+      return { line, name, error: 'Coordinates out of range' };
+    }
+    if (elevation !== undefined && Number.isNaN(elevation)) {
+      return { line, name, ...position, error: 'Invalid elevation' };
+    }
+
+    return { line, name, ...position, elevation };
+  });
+}
+
+function escapeCSVField(value: string | number | undefined, delimiter: CSVDelimiter): string {
+  if (value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replaceAll('"', '""')}"`
+    : text;
+}
+
+/**
+ * Build CSV text from a header row and data rows
+ */
+export function generateCSV(
+  headers: string[],
+  rows: (string | number | undefined)[][],
+  delimiter: CSVDelimiter = ','
+): string {
+  return [headers, ...rows]
+    .map((row) => row.map((value) => escapeCSVField(value, delimiter)).join(delimiter))
+    .join('\r\n');
+}
+
+export function coordinatesToCSV(coordinates: SavedCoordinate[]): string {
+  return generateCSV(
+    ['name', 'lat', 'lon'],
+    coordinates.map((coord) => [coord.name, coord.lat, coord.lon])
+  );
+}
+
+export function pointsToCSV(points: PointElement[]): string {
+  return generateCSV(
+    ['name', 'lat', 'lon', 'elevation', 'color', 'group'],
+    points.map((point) => [
+      point.name,
+      point.coordinates.lat,
+      point.coordinates.lon,
+      point.elevation,
+      point.color,
+      point.group,
+    ])
+  );
+}
+
+/**
+ * Export search results, with the distance to the searched element when provided
+ */
+export function searchResultsToCSV(
+  results: AddressSearchResult[],
+  getDistance?: (result: AddressSearchResult) => number
+): string {
+  return generateCSV(
+    ['name', 'details', 'type', 'lat', 'lon', 'elevation', 'distance_km'],
+    results.map((result) => [
+      result.main,
+      result.secondary,
+      result.type,
+      result.coordinates.lat,
+      result.coordinates.lon,
+      result.elevation,
+      getDistance ? Number(getDistance(result).toFixed(3)) : undefined,
+    ])
+  );
+}
+
+/**
+ * Download CSV text as a file (with a BOM so spreadsheet apps detect UTF-8)
+ */
+export function downloadCSV(content: string, filename: string): void {
+  const blob = new Blob([`\uFEFF${content}`], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.append(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,394 @@
+/**
+ * Geodesy service - Direct and inverse geodesic problems on the WGS84 ellipsoid or a sphere
+ *
+ * All distance, bearing and destination calculations in the app go through this module.
+ * The ellipsoid solutions use Vincenty's formulae (sub-millimetre accuracy); the sphere is kept
+ * as a per-project fallback for hunts whose clues were computed with spherical formulas.
+ * Rhumb lines (constant bearing) are solved on the same model through the isometric latitude.
+ */
+
+import type { LatLon } from './geometry';
+
+export type EarthModel = 'wgs84' | 'sphere';
+
+export interface GeodesicInverse {
+  distanceKm: number;
+  initialBearing: number; // Degrees clockwise from north at the start point, 0-360
+  finalBearing: number; // Degrees clockwise from north at the end point, 0-360
+}
+
+export const DEFAULT_EARTH_MODEL: EarthModel = 'wgs84';
+
+export const EARTH_MODEL_LABELS: Record<EarthModel, string> = {
+  wgs84: 'WGS84 ellipsoid',
+  sphere: 'Sphere (6371 km)',
+};
+
+export const EARTH_RADIUS_KM = 6371; // Mean radius used by the spherical model
+
+// WGS84 ellipsoid, in km
+const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257_223_563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+const MAX_ITERATIONS = 200;
+const CONVERGENCE = 1e-12;
+
+let earthModel: EarthModel = DEFAULT_EARTH_MODEL;
+
+/**
+ * Select the model used by default; set from the active project's settings
+ */
+export function setEarthModel(model: EarthModel): void {
+  earthModel = model;
+}
+
+export function getEarthModel(): EarthModel {
+  return earthModel;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+function normalizeBearing(degrees: number): number {
+  return (degrees + 360) % 360;
+}
+
+function sphericalInverse(from: LatLon, to: LatLon): GeodesicInverse {
+  const φ1 = toRadians(from.lat);
+  const φ2 = toRadians(to.lat);
+  const Δφ = φ2 - φ1;
+  const Δλ = toRadians(to.lon - from.lon);
+
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  const distanceKm = EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  const bearing = (φa: number, φb: number, δλ: number) =>
+    toDegrees(
+      Math.atan2(
+        Math.sin(δλ) * Math.cos(φb),
+        Math.cos(φa) * Math.sin(φb) - Math.sin(φa) * Math.cos(φb) * Math.cos(δλ)
+      )
+    );
+
+  return {
+    distanceKm,
+    initialBearing: normalizeBearing(bearing(φ1, φ2, Δλ)),
+    // Final bearing is the reverse of the initial bearing from the end point
+    finalBearing: normalizeBearing(bearing(φ2, φ1, -Δλ) + 180),
+  };
+}
+
+function sphericalDirect(from: LatLon, distanceKm: number, bearing: number): LatLon {
+  const δ = distanceKm / EARTH_RADIUS_KM;
+  const θ = toRadians(bearing);
+  const φ1 = toRadians(from.lat);
+  const λ1 = toRadians(from.lon);
+
+  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+  const λ2 =
+    λ1 +
+    Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+
+  return { lat: toDegrees(φ2), lon: toDegrees(λ2) };
+}
+
+/**
+ * Reduced latitude on the ellipsoid, as [sin U, cos U, tan U]
+ */
+function reducedLatitude(lat: number): [number, number, number] {
+  const tanU = (1 - WGS84_F) * Math.tan(toRadians(lat));
+  const cosU = 1 / Math.sqrt(1 + tanU * tanU);
+  return [tanU * cosU, cosU, tanU];
+}
+
+function seriesCoefficients(cosSqα: number): { A: number; B: number } {
+  const uSq = (cosSqα * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  return {
+    A: 1 + (uSq / 16_384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq))),
+    B: (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq))),
+  };
+}
+
+function deltaSigma(B: number, sinσ: number, cosσ: number, cos2σm: number): number {
+  return (
+    B *
+    sinσ *
+    (cos2σm +
+      (B / 4) *
+        (cosσ * (-1 + 2 * cos2σm * cos2σm) -
+          (B / 6) * cos2σm * (-3 + 4 * sinσ * sinσ) * (-3 + 4 * cos2σm * cos2σm)))
+  );
+}
+
+/**
+ * Vincenty inverse; returns null when the iteration does not converge (nearly antipodal points)
+ */
+function ellipsoidalInverse(from: LatLon, to: LatLon): GeodesicInverse | null {
+  const L = toRadians(to.lon - from.lon);
+  const [sinU1, cosU1] = reducedLatitude(from.lat);
+  const [sinU2, cosU2] = reducedLatitude(to.lat);
+
+  let λ = L;
+  let sinλ = 0;
+  let cosλ = 0;
+  let sinσ = 0;
+  let cosσ = 0;
+  let σ = 0;
+  let sinα = 0;
+  let cosSqα = 1;
+  let cos2σm = 0;
+  let converged = false;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    sinλ = Math.sin(λ);
+    cosλ = Math.cos(λ);
+    const sinSqσ = (cosU2 * sinλ) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosλ) ** 2;
+    if (sinSqσ === 0) {
+      // Coincident points
+      return { distanceKm: 0, initialBearing: 0, finalBearing: 0 };
+    }
+    sinσ = Math.sqrt(sinSqσ);
+    cosσ = sinU1 * sinU2 + cosU1 * cosU2 * cosλ;
+    σ = Math.atan2(sinσ, cosσ);
+    sinα = (cosU1 * cosU2 * sinλ) / sinσ;
+    cosSqα = 1 - sinα * sinα;
+    // Equatorial lines have cos²α = 0
+    cos2σm = cosSqα === 0 ? 0 : cosσ - (2 * sinU1 * sinU2) / cosSqα;
+    const C = (WGS84_F / 16) * cosSqα * (4 + WGS84_F * (4 - 3 * cosSqα));
+    const previous = λ;
+    λ =
+      L +
+      (1 - C) * WGS84_F * sinα * (σ + C * sinσ * (cos2σm + C * cosσ * (-1 + 2 * cos2σm * cos2σm)));
+    if (Math.abs(λ) > Math.PI * 1.5) {
+      return null;
+    }
+    if (Math.abs(λ - previous) < CONVERGENCE) {
+      converged = true;
+      break;
+    }
+  }
+  if (!converged) {
+    return null;
+  }
+
+  const { A, B } = seriesCoefficients(cosSqα);
+  const distanceKm = WGS84_B * A * (σ - deltaSigma(B, sinσ, cosσ, cos2σm));
+  const α1 = Math.atan2(cosU2 * sinλ, cosU1 * sinU2 - sinU1 * cosU2 * cosλ);
+  const α2 = Math.atan2(cosU1 * sinλ, -sinU1 * cosU2 + cosU1 * sinU2 * cosλ);
+
+  return {
+    distanceKm,
+    initialBearing: normalizeBearing(toDegrees(α1)),
+    finalBearing: normalizeBearing(toDegrees(α2)),
+  };
+}
+
+/**
+ * Vincenty direct; converges for every distance and bearing
+ */
+function ellipsoidalDirect(from: LatLon, distanceKm: number, bearing: number): LatLon {
+  const α1 = toRadians(bearing);
+  const sinα1 = Math.sin(α1);
+  const cosα1 = Math.cos(α1);
+  const [sinU1, cosU1, tanU1] = reducedLatitude(from.lat);
+
+  const σ1 = Math.atan2(tanU1, cosα1);
+  const sinα = cosU1 * sinα1;
+  const cosSqα = 1 - sinα * sinα;
+  const { A, B } = seriesCoefficients(cosSqα);
+
+  let σ = distanceKm / (WGS84_B * A);
+  let sinσ = 0;
+  let cosσ = 0;
+  let cos2σm = 0;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    cos2σm = Math.cos(2 * σ1 + σ);
+    sinσ = Math.sin(σ);
+    cosσ = Math.cos(σ);
+    const previous = σ;
+    σ = distanceKm / (WGS84_B * A) + deltaSigma(B, sinσ, cosσ, cos2σm);
+    if (Math.abs(σ - previous) < CONVERGENCE) {
+      break;
+    }
+  }
+  sinσ = Math.sin(σ);
+  cosσ = Math.cos(σ);
+  cos2σm = Math.cos(2 * σ1 + σ);
+
+  const x = sinU1 * sinσ - cosU1 * cosσ * cosα1;
+  const φ2 = Math.atan2(sinU1 * cosσ + cosU1 * sinσ * cosα1, (1 - WGS84_F) * Math.hypot(sinα, x));
+  const λ = Math.atan2(sinσ * sinα1, cosU1 * cosσ - sinU1 * sinσ * cosα1);
+  const C = (WGS84_F / 16) * cosSqα * (4 + WGS84_F * (4 - 3 * cosSqα));
+  const L =
+    λ -
+    (1 - C) * WGS84_F * sinα * (σ + C * sinσ * (cos2σm + C * cosσ * (-1 + 2 * cos2σm * cos2σm)));
+
+  // Longitude is not wrapped, so shapes crossing the antimeridian stay continuous
+  return { lat: toDegrees(φ2), lon: from.lon + toDegrees(L) };
+}
+
+/**
+ * Distance and bearings between two points
+ * Nearly antipodal points, where Vincenty does not converge, fall back to the sphere
+ */
+export function geodesicInverse(
+  from: LatLon,
+  to: LatLon,
+  model: EarthModel = earthModel
+): GeodesicInverse {
+  if (model === 'sphere') {
+    return sphericalInverse(from, to);
+  }
+  return ellipsoidalInverse(from, to) ?? sphericalInverse(from, to);
+}
+
+/**
+ * Point reached from a start point after distanceKm along an initial bearing (degrees)
+ */
+export function geodesicDirect(
+  from: LatLon,
+  distanceKm: number,
+  bearing: number,
+  model: EarthModel = earthModel
+): LatLon {
+  return model === 'sphere'
+    ? sphericalDirect(from, distanceKm, bearing)
+    : ellipsoidalDirect(from, distanceKm, bearing);
+}
+
+/**
+ * Geodesic distance between two points in km
+ */
+export function geodesicDistance(from: LatLon, to: LatLon, model: EarthModel = earthModel): number {
+  return geodesicInverse(from, to, model).distanceKm;
+}
+
+export interface RhumbInverse {
+  distanceKm: number;
+  bearing: number; // Constant bearing of the rhumb line, degrees clockwise from north, 0-360
+}
+
+interface RhumbEllipsoid {
+  a: number; // Equatorial radius in km
+  e: number; // First eccentricity
+  n: number; // Third flattening
+}
+
+const RHUMB_ELLIPSOIDS: Record<EarthModel, RhumbEllipsoid> = {
+  wgs84: {
+    a: WGS84_A,
+    e: Math.sqrt(WGS84_F * (2 - WGS84_F)),
+    n: WGS84_F / (2 - WGS84_F),
+  },
+  sphere: { a: EARTH_RADIUS_KM, e: 0, n: 0 },
+};
+
+/**
+ * Isometric latitude ψ: the Mercator northing, in which rhumb lines are straight
+ */
+function isometricLatitude(φ: number, { e }: RhumbEllipsoid): number {
+  return Math.atanh(Math.sin(φ)) - e * Math.atanh(e * Math.sin(φ));
+}
+
+/**
+ * Meridian arc length from the equator to latitude φ (Helmert series in n)
+ */
+function meridianArc(φ: number, { a, n }: RhumbEllipsoid): number {
+  const n2 = n * n;
+  return (
+    (a / (1 + n)) *
+    ((1 + n2 / 4 + (n2 * n2) / 64) * φ -
+      ((3 / 2) * n - (3 / 16) * n2 * n) * Math.sin(2 * φ) +
+      ((15 / 16) * n2 - (15 / 64) * n2 * n2) * Math.sin(4 * φ) -
+      (35 / 48) * n2 * n * Math.sin(6 * φ) +
+      (315 / 512) * n2 * n2 * Math.sin(8 * φ))
+  );
+}
+
+/**
+ * Latitude at a given meridian arc length, through the rectifying latitude μ
+ */
+function latitudeFromMeridianArc(m: number, { a, n }: RhumbEllipsoid): number {
+  const n2 = n * n;
+  const μ = m / ((a / (1 + n)) * (1 + n2 / 4 + (n2 * n2) / 64));
+  return (
+    μ +
+    ((3 / 2) * n - (27 / 32) * n2 * n) * Math.sin(2 * μ) +
+    ((21 / 16) * n2 - (55 / 32) * n2 * n2) * Math.sin(4 * μ) +
+    (151 / 96) * n2 * n * Math.sin(6 * μ) +
+    (1097 / 512) * n2 * n2 * Math.sin(8 * μ)
+  );
+}
+
+/**
+ * Radius of the parallel at latitude φ
+ */
+function parallelRadius(φ: number, { a, e }: RhumbEllipsoid): number {
+  return (a * Math.cos(φ)) / Math.sqrt(1 - (e * Math.sin(φ)) ** 2);
+}
+
+/**
+ * Distance and constant bearing of the rhumb line (loxodrome) between two points
+ * Takes the shorter way around in longitude
+ */
+export function rhumbInverse(
+  from: LatLon,
+  to: LatLon,
+  model: EarthModel = earthModel
+): RhumbInverse {
+  const ellipsoid = RHUMB_ELLIPSOIDS[model];
+  const φ1 = toRadians(from.lat);
+  const φ2 = toRadians(to.lat);
+  let Δλ = toRadians(to.lon - from.lon);
+  if (Math.abs(Δλ) > Math.PI) {
+    Δλ = Δλ > 0 ? Δλ - 2 * Math.PI : Δλ + 2 * Math.PI;
+  }
+  const Δψ = isometricLatitude(φ2, ellipsoid) - isometricLatitude(φ1, ellipsoid);
+  const θ = Math.atan2(Δλ, Δψ);
+
+  // Along an east-west line the meridian arc does not change, so use the parallel instead
+  const distanceKm =
+    Math.abs(Δψ) < 1e-12
+      ? Math.abs(Δλ) * parallelRadius(φ1, ellipsoid)
+      : (meridianArc(φ2, ellipsoid) - meridianArc(φ1, ellipsoid)) / Math.cos(θ);
+
+  return { distanceKm, bearing: normalizeBearing(toDegrees(θ)) };
+}
+
+/**
+ * Point reached from a start point after distanceKm along a constant bearing (degrees)
+ * Rhumb lines spiral into the poles; a line that would pass a pole stops on it
+ */
+export function rhumbDirect(
+  from: LatLon,
+  distanceKm: number,
+  bearing: number,
+  model: EarthModel = earthModel
+): LatLon {
+  const ellipsoid = RHUMB_ELLIPSOIDS[model];
+  const θ = toRadians(bearing);
+  const φ1 = toRadians(from.lat);
+  const quarterMeridian = meridianArc(Math.PI / 2, ellipsoid);
+
+  const m2 = meridianArc(φ1, ellipsoid) + distanceKm * Math.cos(θ);
+  if (Math.abs(m2) >= quarterMeridian) {
+    return { lat: Math.sign(m2) * 90, lon: from.lon };
+  }
+  const φ2 = latitudeFromMeridianArc(m2, ellipsoid);
+  const Δψ = isometricLatitude(φ2, ellipsoid) - isometricLatitude(φ1, ellipsoid);
+
+  const Δλ =
+    Math.abs(Δψ) < 1e-12
+      ? (distanceKm * Math.sin(θ)) / parallelRadius(φ1, ellipsoid)
+      : Δψ * Math.tan(θ);
+
+  // Longitude is not wrapped, like geodesicDirect
+  return { lat: toDegrees(φ2), lon: from.lon + toDegrees(Δλ) };
+}
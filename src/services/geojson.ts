@@ -0,0 +1,685 @@
+/**
+ * GeoJSON service - Functions for exporting and importing projects as GeoJSON FeatureCollections
+ */
+
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import type { LatLon } from './geometry';
+import type {
+  LayerImportResult,
+  LineSegmentElement,
+  NoteElement,
+  ProjectLayerData,
+} from './storage';
+import { v4 as uuidv4 } from 'uuid';
+import { arcShapeRings, isArcArea, isArcShape } from './arcShapes';
+import {
+  calculateDistance,
+  generateCircle,
+  generateLocus,
+  getLinePathType,
+  isLinePathType,
+  isLocusKind,
+} from './geometry';
+import { getLineSegmentTrackPoints } from './gpx';
+import { getToleranceZone, toleranceZoneToPolygon } from './toleranceZone';
+import { computeZone, isZoneOperation, parseZoneSources } from './zones';
+
+export type GeoJSONExportData = Pick<
+  ProjectLayerData,
+  'circles' | 'lineSegments' | 'points' | 'polygons' | 'arcs' | 'loci' | 'zones' | 'notes'
+>;
+
+type GeoJSONProperties = Record<string, string | number | undefined>;
+type ElementKind = 'circle' | 'lineSegment' | 'point' | 'polygon' | 'arc' | 'locus' | 'zone';
+
+const DEFAULT_COLOR = '#000000';
+const DEFAULT_POLYGON_COLOR = '#90EE90';
+const CIRCLE_VERTICES = 360;
+const CLOSED_RING_TOLERANCE_KM = 0.001;
+const LINE_MODES = new Set(['coordinate', 'azimuth', 'intersection', 'parallel']);
+
+function toPosition(point: LatLon): Position {
+  return [point.lon, point.lat];
+}
+
+function closedRing(points: LatLon[]): Position[] {
+  const first = points[0];
+  return first ? [...points, first].map((p) => toPosition(p)) : [];
+}
+
+/**
+ * Drop undefined values so properties stay clean in GIS attribute tables
+ */
+function cleanProperties(properties: GeoJSONProperties): Record<string, string | number> {
+  return Object.fromEntries(
+    Object.entries(properties).filter(([, value]) => value !== undefined)
+  ) as Record<string, string | number>;
+}
+
+function noteProperties(note: NoteElement | undefined): GeoJSONProperties {
+  return note
+    ? {
+        noteId: note.id,
+        noteTitle: note.title,
+        noteContent: note.content,
+        noteCreatedAt: note.createdAt,
+        noteUpdatedAt: note.updatedAt,
+      }
+    : {};
+}
+
+/**
+ * Build a FeatureCollection with one Feature per element
+ * Properties are flat scalars (QGIS friendly) and keep the parametric definition of each element
+ */
+export function generateGeoJSON(data: GeoJSONExportData): FeatureCollection {
+  const notesById = new Map(data.notes.map((note) => [note.id, note]));
+  const linkedNote = (element: { noteId?: string }) =>
+    element.noteId ? notesById.get(element.noteId) : undefined;
+
+  const feature = (geometry: Geometry | null, properties: GeoJSONProperties): Feature => ({
+    type: 'Feature',
+    geometry: geometry as Geometry,
+    properties: cleanProperties(properties),
+  });
+
+  const features: Feature[] = [];
+
+  // Tolerance zones follow their element as plain polygons, so GIS tools can show the area
+  const pushToleranceZone = (
+    type: 'circle' | 'lineSegment',
+    element: Parameters<typeof getToleranceZone>[1]
+  ) => {
+    const zone = getToleranceZone(type, element);
+    if (zone) {
+      features.push(
+        feature(toleranceZoneToPolygon(zone), {
+          geochaseKind: 'toleranceZone',
+          elementId: element.id,
+          name: `${element.name} tolerance zone`,
+          color: element.color,
+          group: element.group,
+        })
+      );
+    }
+  };
+
+  for (const circle of data.circles) {
+    const ring = generateCircle(
+      circle.center.lat,
+      circle.center.lon,
+      circle.radius,
+      CIRCLE_VERTICES
+    );
+    features.push(
+      feature(
+        { type: 'Polygon', coordinates: [ring.map((p) => toPosition(p))] },
+        {
+          geochaseKind: 'circle',
+          id: circle.id,
+          name: circle.name,
+          color: circle.color,
+          group: circle.group,
+          createdAt: circle.createdAt,
+          centerLat: circle.center.lat,
+          centerLon: circle.center.lon,
+          radiusKm: circle.radius,
+          radiusToleranceKm: circle.radiusTolerance,
+          ...noteProperties(linkedNote(circle)),
+        }
+      )
+    );
+    pushToleranceZone('circle', circle);
+  }
+
+  for (const segment of data.lineSegments) {
+    const points = getLineSegmentTrackPoints(segment);
+    if (points.length < 2) {
+      continue;
+    }
+    features.push(
+      feature(
+        { type: 'LineString', coordinates: points.map((p) => toPosition(p)) },
+        {
+          geochaseKind: 'lineSegment',
+          id: segment.id,
+          name: segment.name,
+          color: segment.color,
+          group: segment.group,
+          createdAt: segment.createdAt,
+          mode: segment.mode,
+          centerLat: segment.center.lat,
+          centerLon: segment.center.lon,
+          endpointLat: segment.endpoint?.lat,
+          endpointLon: segment.endpoint?.lon,
+          distanceKm: segment.distance,
+          azimuth: segment.azimuth,
+          intersectionLat: segment.intersectionPoint?.lat,
+          intersectionLon: segment.intersectionPoint?.lon,
+          intersectionDistanceKm: segment.intersectionDistance,
+          // Parallels store their latitude in the longitude field
+          latitude: segment.mode === 'parallel' ? segment.longitude : undefined,
+          pathType: segment.mode === 'parallel' ? undefined : getLinePathType(segment),
+          azimuthTolerance: segment.azimuthTolerance,
+          distanceToleranceKm: segment.distanceTolerance,
+          ...noteProperties(linkedNote(segment)),
+        }
+      )
+    );
+    pushToleranceZone('lineSegment', segment);
+  }
+
+  for (const point of data.points) {
+    const position = toPosition(point.coordinates);
+    features.push(
+      feature(
+        {
+          type: 'Point',
+          coordinates: point.elevation === undefined ? position : [...position, point.elevation],
+        },
+        {
+          geochaseKind: 'point',
+          id: point.id,
+          name: point.name,
+          color: point.color,
+          group: point.group,
+          createdAt: point.createdAt,
+          elevation: point.elevation,
+          ...noteProperties(linkedNote(point)),
+        }
+      )
+    );
+  }
+
+  for (const polygon of data.polygons) {
+    if (polygon.points.length < 3) {
+      continue;
+    }
+    features.push(
+      feature(
+        { type: 'Polygon', coordinates: [closedRing(polygon.points)] },
+        {
+          geochaseKind: 'polygon',
+          id: polygon.id,
+          name: polygon.name,
+          color: polygon.color,
+          group: polygon.group,
+          createdAt: polygon.createdAt,
+          ...noteProperties(linkedNote(polygon)),
+        }
+      )
+    );
+  }
+
+  // Annuli and sectors as polygons (the hole of an annulus as an inner ring), arcs as lines
+  for (const arc of data.arcs) {
+    const rings = arcShapeRings(arc).map((ring) => ring.map((p) => toPosition(p)));
+    features.push(
+      feature(
+        isArcArea(arc)
+          ? { type: 'Polygon', coordinates: rings }
+          : { type: 'LineString', coordinates: rings[0] ?? [] },
+        {
+          geochaseKind: 'arc',
+          id: arc.id,
+          name: arc.name,
+          color: arc.color,
+          group: arc.group,
+          createdAt: arc.createdAt,
+          shape: arc.shape,
+          centerLat: arc.center.lat,
+          centerLon: arc.center.lon,
+          radiusKm: arc.radius,
+          innerRadiusKm: arc.innerRadius,
+          startAzimuth: arc.startAzimuth,
+          endAzimuth: arc.endAzimuth,
+          ...noteProperties(linkedNote(arc)),
+        }
+      )
+    );
+  }
+
+  // Ellipses, hyperbolas and Apollonius circles as lines, with the foci and constant to redraw them
+  for (const locus of data.loci) {
+    features.push(
+      feature(
+        { type: 'LineString', coordinates: generateLocus(locus).map((p) => toPosition(p)) },
+        {
+          geochaseKind: 'locus',
+          id: locus.id,
+          name: locus.name,
+          color: locus.color,
+          group: locus.group,
+          createdAt: locus.createdAt,
+          locusKind: locus.kind,
+          firstFocusLat: locus.firstFocus.lat,
+          firstFocusLon: locus.firstFocus.lon,
+          secondFocusLat: locus.secondFocus.lat,
+          secondFocusLon: locus.secondFocus.lon,
+          constant: locus.constant,
+          ...noteProperties(linkedNote(locus)),
+        }
+      )
+    );
+  }
+
+  // Zones as their computed area, with the operation and sources to recompute them
+  for (const zone of data.zones) {
+    features.push(
+      feature(computeZone(zone, data).geometry, {
+        geochaseKind: 'zone',
+        id: zone.id,
+        name: zone.name,
+        color: zone.color,
+        group: zone.group,
+        createdAt: zone.createdAt,
+        operation: zone.operation,
+        zoneSources: JSON.stringify(zone.sources),
+        ...noteProperties(linkedNote(zone)),
+      })
+    );
+  }
+
+  // Notes without a linked element become features without geometry
+  for (const note of data.notes.filter((n) => !n.linkedElementId)) {
+    features.push(feature(null, { geochaseKind: 'note', ...noteProperties(note) }));
+  }
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Download a FeatureCollection as a .geojson file
+ */
+export function downloadGeoJSON(collection: FeatureCollection, filename: string): void {
+  const blob = new Blob([JSON.stringify(collection, null, 2)], { type: 'application/geo+json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.append(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+function toLatLon(position: Position): LatLon | null {
+  const [lon, lat] = position;
+  if (
+    typeof lat !== 'number' ||
+    typeof lon !== 'number' ||
+    Number.isNaN(lat) ||
+    Number.isNaN(lon)
+  ) {
+    return null;
+  }
+  return { lat, lon };
+}
+
+function toLatLons(positions: Position[]): LatLon[] {
+  return positions.map((p) => toLatLon(p)).filter((p): p is LatLon => p !== null);
+}
+
+function isClosedRing(points: LatLon[]): boolean {
+  const first = points[0];
+  const last = points.at(-1);
+  if (!first || !last || points.length < 4) {
+    return false;
+  }
+  return calculateDistance(first.lat, first.lon, last.lat, last.lon) < CLOSED_RING_TOLERANCE_KM;
+}
+
+function numberProperty(properties: Record<string, unknown>, name: string): number | undefined {
+  const value = properties[name];
+  const parsed = typeof value === 'number' ? value : Number.parseFloat(String(value ?? ''));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function stringProperty(
+  properties: Record<string, unknown>,
+  ...names: string[]
+): string | undefined {
+  for (const name of names) {
+    const value = properties[name];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function latLonProperty(properties: Record<string, unknown>, prefix: string): LatLon | undefined {
+  const lat = numberProperty(properties, `${prefix}Lat`);
+  const lon = numberProperty(properties, `${prefix}Lon`);
+  return lat === undefined || lon === undefined ? undefined : { lat, lon };
+}
+
+/**
+ * Read the linked note stored in feature properties (or a plain description)
+ */
+function readNote(
+  properties: Record<string, unknown>,
+  name: string,
+  linked?: { type: ElementKind; id: string }
+): NoteElement | null {
+  const content = stringProperty(properties, 'noteContent', 'description');
+  if (!content) {
+    return null;
+  }
+  return {
+    id: stringProperty(properties, 'noteId') || uuidv4(),
+    title: stringProperty(properties, 'noteTitle') || name,
+    content,
+    linkedElementType: linked?.type,
+    linkedElementId: linked?.id,
+    createdAt: numberProperty(properties, 'noteCreatedAt'),
+    updatedAt: numberProperty(properties, 'noteUpdatedAt'),
+  };
+}
+
+/**
+ * Rebuild an element from GeoChase properties; returns null when they are missing or incomplete
+ */
+function readParametricElement(
+  properties: Record<string, unknown>,
+  base: { id: string; name: string; color?: string; group?: string; createdAt?: number },
+  geometry: Geometry | null,
+  result: LayerImportResult
+): { type: ElementKind; id: string } | null {
+  switch (properties.geochaseKind) {
+    case 'circle': {
+      const center = latLonProperty(properties, 'center');
+      const radius = numberProperty(properties, 'radiusKm');
+      if (!center || radius === undefined) {
+        return null;
+      }
+      result.circles.push({
+        ...base,
+        center,
+        radius,
+        radiusTolerance: numberProperty(properties, 'radiusToleranceKm'),
+      });
+      return { type: 'circle', id: base.id };
+    }
+    case 'lineSegment': {
+      const mode = stringProperty(properties, 'mode') as LineSegmentElement['mode'] | undefined;
+      const center = latLonProperty(properties, 'center');
+      const pathType = stringProperty(properties, 'pathType');
+      if (!mode || !LINE_MODES.has(mode) || !center) {
+        return null;
+      }
+      result.lineSegments.push({
+        ...base,
+        center,
+        endpoint: latLonProperty(properties, 'endpoint'),
+        mode,
+        distance: numberProperty(properties, 'distanceKm'),
+        azimuth: numberProperty(properties, 'azimuth'),
+        intersectionPoint: latLonProperty(properties, 'intersection'),
+        intersectionDistance: numberProperty(properties, 'intersectionDistanceKm'),
+        longitude: numberProperty(properties, 'latitude'),
+        pathType: isLinePathType(pathType) ? pathType : undefined,
+        azimuthTolerance: numberProperty(properties, 'azimuthTolerance'),
+        distanceTolerance: numberProperty(properties, 'distanceToleranceKm'),
+      });
+      return { type: 'lineSegment', id: base.id };
+    }
+    case 'point': {
+      if (geometry?.type !== 'Point') {
+        return null;
+      }
+      const coordinates = toLatLon(geometry.coordinates);
+      if (!coordinates) {
+        return null;
+      }
+      result.points.push({
+        ...base,
+        coordinates,
+        elevation: numberProperty(properties, 'elevation'),
+      });
+      return { type: 'point', id: base.id };
+    }
+    case 'arc': {
+      const shape = stringProperty(properties, 'shape');
+      const center = latLonProperty(properties, 'center');
+      const radius = numberProperty(properties, 'radiusKm');
+      if (!isArcShape(shape) || !center || radius === undefined) {
+        return null;
+      }
+      result.arcs.push({
+        ...base,
+        shape,
+        center,
+        radius,
+        innerRadius: numberProperty(properties, 'innerRadiusKm'),
+        startAzimuth: numberProperty(properties, 'startAzimuth'),
+        endAzimuth: numberProperty(properties, 'endAzimuth'),
+      });
+      return { type: 'arc', id: base.id };
+    }
+    case 'locus': {
+      const kind = stringProperty(properties, 'locusKind');
+      const firstFocus = latLonProperty(properties, 'firstFocus');
+      const secondFocus = latLonProperty(properties, 'secondFocus');
+      const constant = numberProperty(properties, 'constant');
+      if (!isLocusKind(kind) || !firstFocus || !secondFocus || constant === undefined) {
+        return null;
+      }
+      result.loci.push({ ...base, kind, firstFocus, secondFocus, constant });
+      return { type: 'locus', id: base.id };
+    }
+    case 'zone': {
+      const operation = stringProperty(properties, 'operation');
+      const sources = parseZoneSources(stringProperty(properties, 'zoneSources'));
+      if (!isZoneOperation(operation) || sources.length === 0) {
+        return null;
+      }
+      result.zones.push({ ...base, operation, sources });
+      return { type: 'zone', id: base.id };
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+/**
+ * Convert a plain geometry into elements; returns the first element created
+ */
+function readGeometry(
+  geometry: Geometry,
+  base: { id: string; name: string; color?: string; group?: string; createdAt?: number },
+  result: LayerImportResult
+): { type: ElementKind; id: string } | null {
+  const { name } = base;
+
+  switch (geometry.type) {
+    case 'Point': {
+      const coordinates = toLatLon(geometry.coordinates);
+      if (!coordinates) {
+        return null;
+      }
+      const elevation = geometry.coordinates[2];
+      result.points.push({
+        ...base,
+        color: base.color || DEFAULT_COLOR,
+        coordinates,
+        elevation: typeof elevation === 'number' ? elevation : undefined,
+      });
+      return { type: 'point', id: base.id };
+    }
+    case 'LineString': {
+      const points = toLatLons(geometry.coordinates);
+      const first = points[0];
+      const last = points.at(-1);
+      const color = base.color || DEFAULT_COLOR;
+      if (!first || !last || points.length < 2) {
+        result.warnings.push(`"${name}" has fewer than 2 points and was skipped`);
+        return null;
+      }
+      if (points.length === 2) {
+        result.lineSegments.push({
+          ...base,
+          color,
+          center: first,
+          endpoint: last,
+          mode: 'coordinate',
+        });
+        return { type: 'lineSegment', id: base.id };
+      }
+      if (isClosedRing(points)) {
+        result.polygons.push({ ...base, color, points: points.slice(0, -1) });
+        return { type: 'polygon', id: base.id };
+      }
+      // Open polyline: one segment per leg, the first keeps the feature id
+      for (let i = 0; i < points.length - 1; i++) {
+        result.lineSegments.push({
+          ...base,
+          id: i === 0 ? base.id : uuidv4(),
+          name: `${name} (${i + 1}/${points.length - 1})`,
+          color,
+          center: points[i]!,
+          endpoint: points[i + 1]!,
+          mode: 'coordinate',
+        });
+      }
+      result.warnings.push(`"${name}" was split into ${points.length - 1} line segments`);
+      return { type: 'lineSegment', id: base.id };
+    }
+    case 'Polygon': {
+      const [outer, ...holes] = geometry.coordinates;
+      const points = toLatLons(outer ?? []);
+      const vertices = isClosedRing(points) ? points.slice(0, -1) : points;
+      if (vertices.length < 3) {
+        result.warnings.push(`"${name}" has fewer than 3 vertices and was skipped`);
+        return null;
+      }
+      if (holes.length > 0) {
+        result.warnings.push(`Holes in "${name}" were ignored`);
+      }
+      result.polygons.push({
+        ...base,
+        color: base.color || DEFAULT_POLYGON_COLOR,
+        points: vertices,
+      });
+      return { type: 'polygon', id: base.id };
+    }
+    case 'MultiPoint':
+    case 'MultiLineString':
+    case 'MultiPolygon': {
+      const partType = geometry.type.replace('Multi', '') as 'Point' | 'LineString' | 'Polygon';
+      const parts = geometry.coordinates.map(
+        (coordinates) => ({ type: partType, coordinates }) as Geometry
+      );
+      return readParts(parts, base, result);
+    }
+    case 'GeometryCollection': {
+      return readParts(geometry.geometries, base, result);
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+function readParts(
+  parts: Geometry[],
+  base: { id: string; name: string; color?: string; group?: string; createdAt?: number },
+  result: LayerImportResult
+): { type: ElementKind; id: string } | null {
+  let first: { type: ElementKind; id: string } | null = null;
+  for (const [index, part] of parts.entries()) {
+    const created = readGeometry(
+      part,
+      {
+        ...base,
+        id: index === 0 ? base.id : uuidv4(),
+        name: parts.length > 1 ? `${base.name} (${index + 1}/${parts.length})` : base.name,
+      },
+      result
+    );
+    first ??= created;
+  }
+  return first;
+}
+
+/**
+ * Parse GeoJSON (FeatureCollection, Feature or bare geometry) into layer elements
+ * Features exported by GeoChase are restored from their parametric properties
+ * @throws Error when the content is not valid GeoJSON
+ */
+export function parseGeoJSON(content: string): LayerImportResult {
+  const json = JSON.parse(content);
+
+  let features: Feature[];
+  switch (json?.type) {
+    case 'FeatureCollection': {
+      features = Array.isArray(json.features) ? json.features : [];
+      break;
+    }
+    case 'Feature': {
+      features = [json];
+      break;
+    }
+    default: {
+      if (typeof json?.type !== 'string' || !('coordinates' in json || 'geometries' in json)) {
+        throw new Error('Invalid GeoJSON file');
+      }
+      features = [{ type: 'Feature', geometry: json, properties: {} }];
+    }
+  }
+
+  const result: LayerImportResult = {
+    circles: [],
+    lineSegments: [],
+    points: [],
+    polygons: [],
+    arcs: [],
+    loci: [],
+    zones: [],
+    notes: [],
+    warnings: [],
+  };
+
+  for (const [index, feature] of features.entries()) {
+    const properties: Record<string, unknown> = feature?.properties ?? {};
+    const geometry = feature?.geometry ?? null;
+    const name = stringProperty(properties, 'name', 'title', 'Name') || `Feature ${index + 1}`;
+
+    // Tolerance zones are rebuilt from their circle or line
+    if (properties.geochaseKind === 'toleranceZone') {
+      continue;
+    }
+
+    // Notes without a linked element; empty zones have no geometry either
+    if (!geometry && properties.geochaseKind !== 'zone') {
+      const note = readNote(properties, name);
+      if (note) {
+        result.notes.push(note);
+      } else {
+        result.warnings.push(`"${name}" has no geometry and was skipped`);
+      }
+      continue;
+    }
+
+    const base = {
+      id: stringProperty(properties, 'id') || uuidv4(),
+      name,
+      // simplestyle-spec colours (geojson.io) are used when there is no GeoChase colour
+      color: stringProperty(properties, 'color', 'stroke', 'marker-color', 'fill'),
+      group: stringProperty(properties, 'group'),
+      createdAt: numberProperty(properties, 'createdAt'),
+    };
+
+    const created =
+      readParametricElement(properties, base, geometry, result) ??
+      (geometry ? readGeometry(geometry, base, result) : null);
+
+    const note = readNote(properties, name, created ?? undefined);
+    if (note) {
+      result.notes.push(note);
+    }
+  }
+
+  return result;
+}
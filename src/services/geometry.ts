@@ -1,8 +1,17 @@
 /**
  * Geometry service - Utility functions for geographic calculations
  * Reused from original application with TypeScript typing
+ * Distances, bearings and destinations follow the active earth model (see services/geodesy)
  */
 
+import {
+  EARTH_RADIUS_KM,
+  geodesicDirect,
+  geodesicInverse,
+  rhumbDirect,
+  rhumbInverse,
+} from './geodesy';
+
 export interface Vector2D {
   x: number;
   y: number;
@@ -19,7 +28,26 @@ export interface LatLon {
   lon: number;
 }
 
-const EARTH_RADIUS_KM = 6371; // Earth's radius in km
+/**
+ * How a line joins its two ends:
+ * - geodesic: shortest path on the active earth model
+ * - rhumb: constant bearing (loxodrome) on the active earth model
+ * - mercator: straight on the Web Mercator map, as Leaflet draws two points; close to the rhumb
+ *   line, which it matches exactly only on the sphere
+ */
+export type LinePathType = 'geodesic' | 'rhumb' | 'mercator';
+
+export const LINE_PATH_TYPE_LABELS: Record<LinePathType, string> = {
+  geodesic: 'Geodesic (shortest path)',
+  rhumb: 'Rhumb line (constant bearing)',
+  mercator: 'Straight on the map (Mercator)',
+};
+
+export const DEFAULT_LINE_PATH_TYPE: LinePathType = 'geodesic';
+
+const MAX_PATH_SAMPLE_SPACING_KM = 10; // Densify curved paths for drawing and export
+const MAX_PATH_SAMPLES = 512;
+
 const EARTH_RADIUS_M = 6_378_137; // Earth's radius in meters
 const MAX_LAT = 85.051_128_78; // Max latitude for Web Mercator
 
@@ -39,7 +67,6 @@ export function toDegrees(radians: number): number {
 
 /**
  * Calculate destination point given distance and bearing from start point
- * Uses spherical earth model
  */
 export function destinationPoint(
   lat: number,
@@ -47,26 +74,11 @@ export function destinationPoint(
   distanceKm: number,
   bearing: number
 ): LatLon {
-  const δ = distanceKm / EARTH_RADIUS_KM; // angular distance
-  const θ = toRadians(bearing);
-
-  const φ1 = toRadians(lat);
-  const λ1 = toRadians(lon);
-
-  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
-
-  const λ2 =
-    λ1 +
-    Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
-
-  return {
-    lat: toDegrees(φ2),
-    lon: toDegrees(λ2),
-  };
+  return geodesicDirect({ lat, lon }, distanceKm, bearing);
 }
 
 /**
- * Calculate bearing between two points
+ * Calculate initial bearing between two points
  */
 export function calculateBearing(
   fromLat: number,
@@ -74,18 +86,7 @@ export function calculateBearing(
   toLat: number,
   toLon: number
 ): number {
-  const φ1 = toRadians(fromLat);
-  const λ1 = toRadians(fromLon);
-  const φ2 = toRadians(toLat);
-  const λ2 = toRadians(toLon);
-
-  const Δλ = λ2 - λ1;
-
-  const y = Math.sin(Δλ) * Math.cos(φ2);
-  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
-  const bearing = toDegrees(Math.atan2(y, x));
-
-  return (bearing + 360) % 360;
+  return geodesicInverse({ lat: fromLat, lon: fromLon }, { lat: toLat, lon: toLon }).initialBearing;
 }
 
 /**
@@ -103,21 +104,46 @@ export function calculateInverseBearing(
 }
 
 /**
- * Calculate distance between two points using haversine formula
+ * Calculate geodesic distance between two points in km
  */
 export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = EARTH_RADIUS_KM;
-  const φ1 = toRadians(lat1);
-  const φ2 = toRadians(lat2);
-  const Δφ = toRadians(lat2 - lat1);
-  const Δλ = toRadians(lon2 - lon1);
+  return geodesicInverse({ lat: lat1, lon: lon1 }, { lat: lat2, lon: lon2 }).distanceKm;
+}
 
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+/**
+ * Calculate destination point along a rhumb line (constant bearing) from start point
+ */
+export function rhumbDestinationPoint(
+  lat: number,
+  lon: number,
+  distanceKm: number,
+  bearing: number
+): LatLon {
+  return rhumbDirect({ lat, lon }, distanceKm, bearing);
+}
 
-  return R * c;
+/**
+ * Calculate the constant bearing of the rhumb line between two points
+ */
+export function calculateRhumbBearing(
+  fromLat: number,
+  fromLon: number,
+  toLat: number,
+  toLon: number
+): number {
+  return rhumbInverse({ lat: fromLat, lon: fromLon }, { lat: toLat, lon: toLon }).bearing;
+}
+
+/**
+ * Calculate rhumb-line distance between two points in km
+ */
+export function calculateRhumbDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  return rhumbInverse({ lat: lat1, lon: lon1 }, { lat: lat2, lon: lon2 }).distanceKm;
 }
 
 /**
@@ -211,16 +237,29 @@ function dotProduct(v1: Vector3D, v2: Vector3D): number {
 
 /**
  * Calculate endpoint from start point through intersection point with specified distance
- * Compute endpoint so that the straight line in Web Mercator from start to end passes through the intersection point,
- * while the geodesic distance from start to end equals the provided distance.
+ * Geodesic and rhumb lines continue along their path until the distance is reached.
+ * Mercator lines compute the endpoint so that the straight line in Web Mercator from start to end
+ * passes through the intersection point, while the geodesic distance from start to end equals
+ * the provided distance.
  */
 export function endpointFromIntersection(
   startLat: number,
   startLon: number,
   intersectLat: number,
   intersectLon: number,
-  distanceKm: number
+  distanceKm: number,
+  pathType: LinePathType = 'mercator'
 ): LatLon {
+  if (pathType !== 'mercator') {
+    const start = { lat: startLat, lon: startLon };
+    const intersection = { lat: intersectLat, lon: intersectLon };
+    const bearing =
+      pathType === 'rhumb'
+        ? rhumbInverse(start, intersection).bearing
+        : geodesicInverse(start, intersection).initialBearing;
+    return pathDestination(start, distanceKm, bearing, pathType);
+  }
+
   const D = distanceKm; // km
 
   // Project to Web Mercator (meters)
@@ -393,6 +432,144 @@ export function generateLinePointsLinear(
   return points;
 }
 
+/**
+ * Path type of a line; lines saved before path types existed keep the path they were built on:
+ * azimuth lines followed the geodesic, the others were drawn straight on the map
+ */
+export function getLinePathType(line: { mode: string; pathType?: LinePathType }): LinePathType {
+  return line.pathType ?? (line.mode === 'azimuth' ? 'geodesic' : 'mercator');
+}
+
+export function isLinePathType(value: unknown): value is LinePathType {
+  return typeof value === 'string' && Object.keys(LINE_PATH_TYPE_LABELS).includes(value);
+}
+
+/**
+ * End of a line leaving start on a bearing
+ * Rhumb lines keep the bearing; geodesic and Mercator lines leave on it
+ */
+export function pathDestination(
+  start: LatLon,
+  distanceKm: number,
+  bearing: number,
+  pathType: LinePathType
+): LatLon {
+  return pathType === 'rhumb'
+    ? rhumbDirect(start, distanceKm, bearing)
+    : geodesicDirect(start, distanceKm, bearing);
+}
+
+/**
+ * Length of a line in km; Mercator lines are measured by the geodesic distance between the ends
+ */
+export function pathLength(start: LatLon, end: LatLon, pathType: LinePathType): number {
+  return pathType === 'rhumb'
+    ? rhumbInverse(start, end).distanceKm
+    : geodesicInverse(start, end).distanceKm;
+}
+
+/**
+ * Curve of a line from start to end, parametrized by the fraction (0 to 1) of the line
+ * Geodesic and rhumb lines are split by distance, Mercator lines linearly on the map
+ */
+export function pathInterpolator(
+  start: LatLon,
+  end: LatLon,
+  pathType: LinePathType
+): (fraction: number) => LatLon {
+  switch (pathType) {
+    case 'geodesic': {
+      const { distanceKm, initialBearing } = geodesicInverse(start, end);
+      return (fraction) => geodesicDirect(start, fraction * distanceKm, initialBearing);
+    }
+    case 'rhumb': {
+      const { distanceKm, bearing } = rhumbInverse(start, end);
+      return (fraction) => rhumbDirect(start, fraction * distanceKm, bearing);
+    }
+    default: {
+      const from = mercatorProject(start.lat, start.lon);
+      const to = mercatorProject(end.lat, end.lon);
+      return (fraction) =>
+        mercatorUnproject(from.x + (to.x - from.x) * fraction, from.y + (to.y - from.y) * fraction);
+    }
+  }
+}
+
+/**
+ * Point at a fraction (0 to 1) of a line from start to end
+ */
+export function interpolatePath(
+  start: LatLon,
+  end: LatLon,
+  pathType: LinePathType,
+  fraction: number
+): LatLon {
+  return pathInterpolator(start, end, pathType)(fraction);
+}
+
+/**
+ * Point on a line at distanceKm from start
+ * On Mercator lines this is the point of the map line at that geodesic distance from start
+ */
+export function pointAtPathDistance(
+  start: LatLon,
+  end: LatLon,
+  pathType: LinePathType,
+  distanceKm: number
+): LatLon {
+  const along = pathInterpolator(start, end, pathType);
+  if (pathType !== 'mercator') {
+    const length = pathLength(start, end, pathType);
+    return length === 0 ? { lat: start.lat, lon: start.lon } : along(distanceKm / length);
+  }
+
+  // The distance grows monotonically along the map line, so bisect on the fraction
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    const point = along(mid);
+    if (calculateDistance(start.lat, start.lon, point.lat, point.lon) < distanceKm) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return along((low + high) / 2);
+}
+
+/**
+ * Generate numPoints + 1 evenly spaced points along a line, ends included
+ */
+export function generatePathPoints(
+  start: LatLon,
+  end: LatLon,
+  pathType: LinePathType,
+  numPoints: number
+): LatLon[] {
+  const along = pathInterpolator(start, end, pathType);
+  const points = Array.from({ length: numPoints + 1 }, (_, i) => along(i / numPoints));
+  // Keep the exact ends rather than their round trip through the formulas
+  points[0] = { lat: start.lat, lon: start.lon };
+  points[numPoints] = { lat: end.lat, lon: end.lon };
+  return points;
+}
+
+/**
+ * Points drawn or exported for a line: both ends for Mercator lines, which Leaflet draws
+ * straight, and a point at least every 10 km for curved paths
+ */
+export function samplePath(start: LatLon, end: LatLon, pathType: LinePathType): LatLon[] {
+  if (pathType === 'mercator') {
+    return [
+      { lat: start.lat, lon: start.lon },
+      { lat: end.lat, lon: end.lon },
+    ];
+  }
+  const count = Math.ceil(pathLength(start, end, pathType) / MAX_PATH_SAMPLE_SPACING_KM);
+  return generatePathPoints(start, end, pathType, Math.min(MAX_PATH_SAMPLES, Math.max(1, count)));
+}
+
 /**
  * Generate circle points at specified radius and number of points
  */
@@ -417,3 +594,282 @@ export function generateCircle(
 
   return points;
 }
+
+/**
+ * Midpoint of the great-circle arc between two points
+ */
+export function greatCircleMidpoint(a: LatLon, b: LatLon): LatLon {
+  const va = latLonToVector(a.lat, a.lon);
+  const vb = latLonToVector(b.lat, b.lon);
+  return vectorToLatLon(normalize({ x: va.x + vb.x, y: va.y + vb.y, z: va.z + vb.z }));
+}
+
+/**
+ * Sample a parametric curve (t from 0 to 1) so that no chord strays more than maxErrorKm from it
+ * The error is measured between the curve and the great-circle midpoint of each chord
+ */
+export function sampleCurveByChordError(
+  curve: (t: number) => LatLon,
+  maxErrorKm: number,
+  initialSegments = 1,
+  maxDepth = 12
+): LatLon[] {
+  const points: LatLon[] = [curve(0)];
+
+  const subdivide = (t0: number, p0: LatLon, t1: number, p1: LatLon, depth: number) => {
+    const tm = (t0 + t1) / 2;
+    const pm = curve(tm);
+    const chordMid = greatCircleMidpoint(p0, p1);
+
+    if (
+      depth < maxDepth &&
+      calculateDistance(pm.lat, pm.lon, chordMid.lat, chordMid.lon) > maxErrorKm
+    ) {
+      subdivide(t0, p0, tm, pm, depth + 1);
+      subdivide(tm, pm, t1, p1, depth + 1);
+    } else {
+      points.push(p1);
+    }
+  };
+
+  for (let i = 0; i < initialSegments; i++) {
+    const t0 = i / initialSegments;
+    const t1 = (i + 1) / initialSegments;
+    subdivide(t0, points.at(-1)!, t1, curve(t1), 0);
+  }
+
+  return points;
+}
+
+/**
+ * Simplify a path with the Douglas–Peucker algorithm (tolerance in km)
+ * Offsets are measured in a local equirectangular projection, which is accurate at track scale
+ */
+export function simplifyPath(points: LatLon[], toleranceKm: number): LatLon[] {
+  if (points.length <= 2 || toleranceKm <= 0) {
+    return [...points];
+  }
+
+  const kmPerDegree = (Math.PI * EARTH_RADIUS_KM) / 180;
+  const cosLat = Math.cos(toRadians(points[0]!.lat));
+  const project = (p: LatLon): Vector2D => ({
+    x: p.lon * kmPerDegree * cosLat,
+    y: p.lat * kmPerDegree,
+  });
+  const projected = points.map((p) => project(p));
+
+  const offsetFromChord = (p: Vector2D, a: Vector2D, b: Vector2D): number => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+      lengthSq === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+  };
+
+  const keep = Array.from({ length: points.length }, () => false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to avoid deep recursion on long tracks
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxOffset = 0;
+    let maxIndex = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const offset = offsetFromChord(projected[i]!, projected[start]!, projected[end]!);
+      if (offset > maxOffset) {
+        maxOffset = offset;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxOffset > toleranceKm) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+}
+
+/**
+ * Loci defined by two foci and a constant:
+ * - ellipse: the sum of the distances to the foci
+ * - hyperbola: the distance to the first focus minus the distance to the second (one branch;
+ *   positive values give the branch nearer the second focus)
+ * - apollonius: the distance to the first focus divided by the distance to the second
+ */
+export type LocusKind = 'ellipse' | 'hyperbola' | 'apollonius';
+
+export const LOCUS_KIND_LABELS: Record<LocusKind, string> = {
+  ellipse: 'Ellipse',
+  hyperbola: 'Hyperbola',
+  apollonius: 'Apollonius circle',
+};
+
+export interface LocusDefinition {
+  kind: LocusKind;
+  firstFocus: LatLon;
+  secondFocus: LatLon;
+  constant: number;
+}
+
+const LOCUS_BEARINGS = 360;
+const LOCUS_TOLERANCE_KM = 1e-6;
+const MAX_LOCUS_RADIUS_KM = 10_000;
+const HYPERBOLA_EXTENT = 3; // Branches are drawn out to this many focal distances from their focus
+
+export function isLocusKind(value: unknown): value is LocusKind {
+  return typeof value === 'string' && Object.keys(LOCUS_KIND_LABELS).includes(value);
+}
+
+/**
+ * Short description for lists, e.g. "Ellipse • sum 12 km"
+ */
+export function describeLocus(locus: LocusDefinition): string {
+  const label = LOCUS_KIND_LABELS[locus.kind];
+  switch (locus.kind) {
+    case 'ellipse': {
+      return `${label} • sum ${locus.constant} km`;
+    }
+    case 'hyperbola': {
+      return `${label} • difference ${locus.constant} km`;
+    }
+    default: {
+      return `${label} • ratio ${locus.constant}`;
+    }
+  }
+}
+
+/**
+ * Why a locus has no curve, or null when it can be drawn
+ */
+export function getLocusDefinitionError(locus: LocusDefinition): string | null {
+  const focalKm = calculateDistance(
+    locus.firstFocus.lat,
+    locus.firstFocus.lon,
+    locus.secondFocus.lat,
+    locus.secondFocus.lon
+  );
+  if (!(focalKm > 0)) {
+    return 'The foci must be two different places';
+  }
+  switch (locus.kind) {
+    case 'ellipse': {
+      return locus.constant > focalKm && locus.constant < 2 * MAX_LOCUS_RADIUS_KM
+        ? null
+        : `The sum must be more than the ${focalKm.toFixed(3)} km between the foci`;
+    }
+    case 'hyperbola': {
+      return locus.constant !== 0 && Math.abs(locus.constant) < focalKm
+        ? null
+        : `The difference must be between 0 and the ${focalKm.toFixed(3)} km between the foci`;
+    }
+    default: {
+      return locus.constant > 0 && locus.constant !== 1
+        ? null
+        : 'The ratio must be positive and other than 1';
+    }
+  }
+}
+
+/**
+ * Root of f between low and high, where f changes sign (Illinois variant of regula falsi)
+ */
+function findRoot(f: (x: number) => number, low: number, high: number): number {
+  let a = low;
+  let b = high;
+  let fa = f(a);
+  let fb = f(b);
+  let side = 0;
+  for (let i = 0; i < 100 && Math.abs(b - a) > LOCUS_TOLERANCE_KM; i++) {
+    const c = (a * fb - b * fa) / (fb - fa);
+    const fc = f(c);
+    if (fc === 0) {
+      return c;
+    }
+    if (Math.sign(fc) === Math.sign(fb)) {
+      b = c;
+      fb = fc;
+      if (side === -1) {
+        fa /= 2;
+      }
+      side = -1;
+    } else {
+      a = c;
+      fa = fc;
+      if (side === 1) {
+        fb /= 2;
+      }
+      side = 1;
+    }
+  }
+  return (a + b) / 2;
+}
+
+/**
+ * Points of a locus, found on rays from one focus: along each bearing the distance condition
+ * changes monotonically, so it has at most one root. Ellipses and Apollonius circles are closed
+ * (the first point is repeated); a hyperbola branch is open and stops at HYPERBOLA_EXTENT focal
+ * distances from its focus. Returns no points when the locus has no curve.
+ */
+export function generateLocus(locus: LocusDefinition, numBearings = LOCUS_BEARINGS): LatLon[] {
+  if (getLocusDefinitionError(locus)) {
+    return [];
+  }
+  const { firstFocus, secondFocus, constant } = locus;
+  const distance = (a: LatLon, b: LatLon) => calculateDistance(a.lat, a.lon, b.lat, b.lon);
+  const focalKm = distance(firstFocus, secondFocus);
+
+  // Ray origin, the other focus, the condition along a ray (increasing) and where to search
+  let origin = firstFocus;
+  let other = secondFocus;
+  let condition: (r: number, p: LatLon) => number;
+  let maxKm: number;
+  switch (locus.kind) {
+    case 'ellipse': {
+      condition = (r, p) => r + distance(p, other) - constant;
+      maxKm = constant;
+      break;
+    }
+    case 'hyperbola': {
+      // Rays leave the focus the branch curves around
+      [origin, other] = constant > 0 ? [secondFocus, firstFocus] : [firstFocus, secondFocus];
+      const difference = Math.abs(constant);
+      condition = (r, p) => r + difference - distance(p, other);
+      maxKm = Math.min(HYPERBOLA_EXTENT * focalKm, MAX_LOCUS_RADIUS_KM);
+      break;
+    }
+    default: {
+      // The circle surrounds the focus it is nearer to
+      [origin, other] = constant > 1 ? [secondFocus, firstFocus] : [firstFocus, secondFocus];
+      const ratio = constant > 1 ? constant : 1 / constant;
+      condition = (r, p) => ratio * r - distance(p, other);
+      maxKm = Math.min(focalKm / (ratio - 1), MAX_LOCUS_RADIUS_KM);
+    }
+  }
+
+  // A hyperbola branch faces the other focus, so the sweep starts straight away from it to keep
+  // the branch in one piece
+  const awayFromOther = calculateBearing(origin.lat, origin.lon, other.lat, other.lon) + 180;
+  const points: LatLon[] = [];
+  for (let i = 0; i < numBearings; i++) {
+    const bearing = awayFromOther + (360 * i) / numBearings;
+    const along = (r: number) => condition(r, destinationPoint(origin.lat, origin.lon, r, bearing));
+    if (along(maxKm) < 0) {
+      continue;
+    }
+    const r = findRoot(along, 0, maxKm);
+    points.push(destinationPoint(origin.lat, origin.lon, r, bearing));
+  }
+
+  if (locus.kind !== 'hyperbola' && points.length > 0) {
+    points.push(points[0]!);
+  }
+  return points;
+}
@@ -2,6 +2,8 @@
  * Geoportail API service - Integration with IGN Geoportail APIs
  */
 
+import { geodesicDistance } from './geodesy';
+
 export interface GeoportailResult {
   id?: string;
   fulltext: string;
@@ -30,9 +32,9 @@ const ELEVATION_API = 'https://api.open-elevation.com/api/v1/lookup';
  * Fetch elevation data for coordinates using Open-Elevation API
  * Handles "entity too large" errors by splitting the payload
  * @param coordinates Array of {lat, lon} coordinate pairs
- * @returns Map of coordinate strings to elevation values
+ * @returns Map of coordinate strings (`${lat.toFixed(6)}_${lon.toFixed(6)}`) to elevation values
  */
-async function fetchElevations(
+export async function fetchElevations(
   coordinates: Array<{ lat: number; lon: number }>
 ): Promise<Map<string, number>> {
   const elevationMap = new Map<string, number>();
@@ -231,27 +233,6 @@ function calculateBbox(points: Array<{ lat: number; lon: number }>, bufferKm = 0
   return `${minLon},${minLat},${maxLon},${maxLat}`;
 }
 
-/**
- * Calculate distance between two points in kilometers using Haversine formula
- */
-export function haversineDistance(
-  point1: { lat: number; lon: number },
-  point2: { lat: number; lon: number }
-): number {
-  const R = 6371; // Earth radius in km
-  const lat1 = (point1.lat * Math.PI) / 180;
-  const lat2 = (point2.lat * Math.PI) / 180;
-  const dLat = ((point2.lat - point1.lat) * Math.PI) / 180;
-  const dLon = ((point2.lon - point1.lon) * Math.PI) / 180;
-
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
 /**
  * Calculate minimum distance from a point to a line segment
  */
@@ -260,50 +241,59 @@ export function distancePointToSegment(
   segStart: { lat: number; lon: number },
   segEnd: { lat: number; lon: number }
 ): number {
-  // Simple approximation: use Haversine to start/end and interpolation points
-  const distances = [haversineDistance(point, segStart), haversineDistance(point, segEnd)];
+  // Simple approximation: use distances to start/end and interpolation points
+  const distances = [geodesicDistance(point, segStart), geodesicDistance(point, segEnd)];
 
   // Check midpoint for better accuracy
   const mid = {
     lat: (segStart.lat + segEnd.lat) / 2,
     lon: (segStart.lon + segEnd.lon) / 2,
   };
-  distances.push(haversineDistance(point, mid));
+  distances.push(geodesicDistance(point, mid));
 
   return Math.min(...distances);
 }
 
 /**
  * Check if a point is inside a GeoJSON polygon using ray casting algorithm
+ * Points in a hole (e.g. the middle of an annulus) are outside
  * @param point Point to check as [lon, lat]
- * @param polygon GeoJSON Polygon or Feature with Polygon geometry
+ * @param polygon GeoJSON Polygon or MultiPolygon, or a Feature with either geometry
  * @returns true if point is inside polygon
  */
 function pointInPolygon(point: [number, number], polygon: any): boolean {
-  // Get the polygon coordinates (handle both Polygon and Feature types)
-  let coords: any[];
-  if (polygon.type === 'Polygon') {
-    coords = polygon.coordinates;
-  } else if (polygon.type === 'Feature' && polygon.geometry?.type === 'Polygon') {
-    coords = polygon.geometry.coordinates;
+  // Get the polygon coordinates (handle both geometries and Feature types)
+  const geometry = polygon.type === 'Feature' ? polygon.geometry : polygon;
+  let polygons: any[][];
+  if (geometry?.type === 'Polygon') {
+    polygons = [geometry.coordinates];
+  } else if (geometry?.type === 'MultiPolygon') {
+    polygons = geometry.coordinates;
   } else {
     return false;
   }
 
-  const [x, y] = point;
-  const exterior = coords[0];
+  return polygons.some((coords) => {
+    const [exterior, ...holes] = coords;
 
-  if (!exterior || !Array.isArray(exterior)) {
-    return false;
-  }
+    if (!exterior || !Array.isArray(exterior)) {
+      return false;
+    }
+
+    return pointInRing(point, exterior) && !holes.some((hole) => pointInRing(point, hole));
+  });
+}
 
-  // Ray casting algorithm
+/**
+ * Ray casting test against a single ring of [lon, lat] positions
+ */
+function pointInRing([x, y]: [number, number], ring: any[]): boolean {
   let isInside = false;
-  for (let i = 0, j = exterior.length - 1; i < exterior.length; j = i++) {
-    const xi = exterior[i]![0];
-    const yi = exterior[i]![1];
-    const xj = exterior[j]![0];
-    const yj = exterior[j]![1];
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const xi = ring[i]![0];
+    const yi = ring[i]![1];
+    const xj = ring[j]![0];
+    const yj = ring[j]![1];
 
     const intersect = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
     if (intersect) {
@@ -459,7 +449,7 @@ function isLocationInSearchZone(
 
   let minDist = Infinity;
   if (pathPoints.length === 1) {
-    minDist = haversineDistance(resultCoords, pathPoints[0]!);
+    minDist = geodesicDistance(resultCoords, pathPoints[0]!);
   } else {
     for (let i = 0; i < pathPoints.length - 1; i++) {
       const dist = distancePointToSegment(resultCoords, pathPoints[i]!, pathPoints[i + 1]!);
@@ -1,246 +1,662 @@
 /**
- * GPX service - Functions for generating GPX files
+ * GPX service - Functions for generating and parsing GPX files
  * Reused from original application with TypeScript typing
  */
 
-import { destinationPoint, generateCircle } from './geometry';
+import type { LatLon, LocusDefinition } from './geometry';
+import type {
+  ArcElement,
+  CircleElement,
+  LayerImportResult,
+  LineSegmentElement,
+  LocusElement,
+  NoteElement,
+  ProjectLayerData,
+  ZoneElement,
+} from './storage';
+import type { ZoneSource } from './zones';
+import { v4 as uuidv4 } from 'uuid';
+import { ARC_SHAPE_LABELS, arcShapeRings, isArcShape } from './arcShapes';
+import {
+  calculateBearing,
+  calculateDistance,
+  destinationPoint,
+  generateCircle,
+  generateLocus,
+  getLinePathType,
+  isLinePathType,
+  isLocusKind,
+  latLonToVector,
+  LOCUS_KIND_LABELS,
+  pathDestination,
+  pathInterpolator,
+  sampleCurveByChordError,
+  simplifyPath,
+  vectorToLatLon,
+} from './geometry';
+import { getToleranceZone } from './toleranceZone';
+import { computeZone, isZoneOperation, toZoneSource, zonePolygons } from './zones';
 
-export interface CircleData {
-  lat: number;
-  lon: number;
-  radius?: number;
-  name?: string;
+export type GPXExportData = Pick<
+  ProjectLayerData,
+  'circles' | 'lineSegments' | 'points' | 'polygons' | 'arcs' | 'loci' | 'zones' | 'notes'
+>;
+
+type GPXElementKind = 'circle' | 'lineSegment' | 'point' | 'polygon' | 'arc' | 'locus' | 'zone';
+
+/**
+ * How densely a curved shape is sampled: a fixed vertex count or a maximum chord error
+ */
+export interface GPXShapeDensity {
+  mode: 'vertices' | 'chordError';
+  vertices: number;
+  maxChordErrorM: number;
 }
 
-export interface LineSegmentData {
-  name?: string;
-  center: { lat: number; lon: number };
-  endpoint?: { lat: number; lon: number };
-  mode: 'coordinate' | 'azimuth' | 'intersection' | 'parallel';
-  distance?: number;
-  azimuth?: number;
-  longitude?: number;
+export interface GPXExportOptions {
+  includeCircles: boolean;
+  includeLineSegments: boolean;
+  includePoints: boolean;
+  includePolygons: boolean;
+  includeArcs: boolean;
+  includeLoci: boolean;
+  includeZones: boolean;
+  excludedIds: string[];
+  circleDensity: GPXShapeDensity;
+  azimuthDensity: GPXShapeDensity; // Geodesic and rhumb lines
+  parallelDensity: GPXShapeDensity;
+  simplify: boolean;
+  simplifyToleranceM: number;
+  splitTracks: boolean;
+  maxTrackPoints: number;
+  output: 'track' | 'route';
 }
 
-export interface PointData {
-  name?: string;
-  coordinates: { lat: number; lon: number };
+export const DEFAULT_GPX_EXPORT_OPTIONS: GPXExportOptions = {
+  includeCircles: true,
+  includeLineSegments: true,
+  includePoints: true,
+  includePolygons: true,
+  includeArcs: true,
+  includeLoci: true,
+  includeZones: true,
+  excludedIds: [],
+  circleDensity: { mode: 'vertices', vertices: 360, maxChordErrorM: 10 },
+  azimuthDensity: { mode: 'vertices', vertices: 101, maxChordErrorM: 10 },
+  parallelDensity: { mode: 'vertices', vertices: 181, maxChordErrorM: 10 },
+  simplify: false,
+  simplifyToleranceM: 5,
+  splitTracks: false,
+  maxTrackPoints: 500, // Garmin handheld track limit
+  output: 'track',
+};
+
+/**
+ * Fill missing fields of remembered options with the defaults
+ */
+export function resolveGPXExportOptions(options?: Partial<GPXExportOptions>): GPXExportOptions {
+  return {
+    ...DEFAULT_GPX_EXPORT_OPTIONS,
+    ...options,
+    circleDensity: { ...DEFAULT_GPX_EXPORT_OPTIONS.circleDensity, ...options?.circleDensity },
+    azimuthDensity: { ...DEFAULT_GPX_EXPORT_OPTIONS.azimuthDensity, ...options?.azimuthDensity },
+    parallelDensity: {
+      ...DEFAULT_GPX_EXPORT_OPTIONS.parallelDensity,
+      ...options?.parallelDensity,
+    },
+    excludedIds: [...(options?.excludedIds ?? [])],
+  };
 }
 
+/** Namespace of the GeoChase GPX extensions used for lossless round-trips */
+export const GEOCHASE_GPX_NAMESPACE = 'https://github.com/Staormin/GPX-Drawing-tool/gpx/1';
+
 /**
- * Generate line segment tracks for GPX
+ * Escape text for use in XML content and attributes
  */
-export function generateLineSegmentTracks(segments: LineSegmentData[]): string {
-  let gpxTracks = '';
+export function escapeXml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;');
+}
 
-  for (const [segmentIndex, segment] of segments.entries()) {
-    let trackPoints: { lat: number; lon: number }[] = [];
+function latLonAttributes(point: LatLon, precise = false): string {
+  return precise
+    ? `lat="${point.lat}" lon="${point.lon}"`
+    : `lat="${point.lat.toFixed(6)}" lon="${point.lon.toFixed(6)}"`;
+}
 
-    if (segment.mode === 'coordinate' && segment.endpoint) {
-      trackPoints = [segment.center, segment.endpoint];
+function noteExtension(note: NoteElement): string {
+  const attributes = [`id="${escapeXml(note.id)}"`, `title="${escapeXml(note.title)}"`];
+  if (note.createdAt !== undefined) {
+    attributes.push(`createdAt="${note.createdAt}"`);
+  }
+  if (note.updatedAt !== undefined) {
+    attributes.push(`updatedAt="${note.updatedAt}"`);
+  }
+  return `<geochase:note ${attributes.join(' ')}>${escapeXml(note.content)}</geochase:note>`;
+}
 
-      gpxTracks += `  <trk>
-    <name>${segment.name || `Line Segment ${segmentIndex + 1}`}</name>
-    <type>LineSegment</type>
-    <trkseg>
-`;
-      for (const point of trackPoints) {
-        gpxTracks += `      <trkpt lat="${point.lat.toFixed(6)}" lon="${point.lon.toFixed(6)}">
-        <ele>0</ele>
-      </trkpt>
-`;
-      }
-      gpxTracks += `    </trkseg>
-  </trk>
-`;
-    } else {
-      switch (segment.mode) {
-        case 'azimuth': {
-          // Calculate endpoint from azimuth and distance
-          destinationPoint(
-            segment.center.lat,
-            segment.center.lon,
-            segment.distance!,
-            segment.azimuth!
-          );
-          // Generate intermediate points for smooth curve
-          trackPoints = [];
-          const numPoints = 100;
-          for (let i = 0; i <= numPoints; i++) {
-            const distance = (i / numPoints) * segment.distance!;
-            const point = destinationPoint(
-              segment.center.lat,
-              segment.center.lon,
-              distance,
-              segment.azimuth!
-            );
-            trackPoints.push(point);
-          }
-
-          gpxTracks += `  <trk>
-    <name>${segment.name || `Line Segment ${segmentIndex + 1}`}</name>
-    <type>LineSegment</type>
-    <trkseg>
-`;
-          for (const point of trackPoints) {
-            gpxTracks += `      <trkpt lat="${point.lat.toFixed(6)}" lon="${point.lon.toFixed(6)}">
-        <ele>0</ele>
-      </trkpt>
-`;
-          }
-          gpxTracks += `    </trkseg>
-  </trk>
+function extensionsXml(lines: string[], indent: string): string {
+  return `${indent}<extensions>
+${lines.map((line) => `${indent}  ${line}`).join('\n')}
+${indent}</extensions>
 `;
+}
 
-          break;
-        }
+/**
+ * Build the GeoChase <extensions> block describing an element exactly
+ */
+function elementExtensions(
+  kind: GPXElementKind,
+  element: { id: string; color?: string; group?: string; createdAt?: number },
+  fields: string[],
+  note: NoteElement | undefined,
+  indent: string
+): string {
+  const lines = [
+    `<geochase:kind>${kind}</geochase:kind>`,
+    `<geochase:id>${escapeXml(element.id)}</geochase:id>`,
+  ];
+  if (element.color) {
+    lines.push(`<geochase:color>${escapeXml(element.color)}</geochase:color>`);
+  }
+  if (element.group) {
+    lines.push(`<geochase:group>${escapeXml(element.group)}</geochase:group>`);
+  }
+  if (element.createdAt !== undefined) {
+    lines.push(`<geochase:createdAt>${element.createdAt}</geochase:createdAt>`);
+  }
+  lines.push(...fields);
+  if (note) {
+    lines.push(noteExtension(note));
+  }
 
-        case 'intersection': {
-          // Endpoint is already calculated and stored
-          if (segment.endpoint) {
-            trackPoints = [segment.center, segment.endpoint];
+  return extensionsXml(lines, indent);
+}
 
-            gpxTracks += `  <trk>
-    <name>${segment.name || `Line Segment ${segmentIndex + 1}`}</name>
-    <type>LineSegment</type>
-    <trkseg>
+/**
+ * Split a path into chunks of at most maxPoints, each chunk starting where the previous ended
+ */
+function splitPath(points: LatLon[], maxPoints: number): LatLon[][] {
+  if (maxPoints < 2 || points.length <= maxPoints) {
+    return [points];
+  }
+
+  const parts: LatLon[][] = [];
+  for (let start = 0; start < points.length - 1; start += maxPoints - 1) {
+    parts.push(points.slice(start, start + maxPoints));
+  }
+  return parts;
+}
+
+/**
+ * Write one element as a track or route, split into several parts when it is too long
+ * Only the first part carries the element extensions; the others reference it
+ */
+function pathXml(
+  element: { id: string; name: string },
+  type: string,
+  points: LatLon[],
+  extensions: string,
+  note: NoteElement | undefined,
+  options: GPXExportOptions,
+  precise = false
+): string {
+  const simplified = options.simplify
+    ? simplifyPath(points, options.simplifyToleranceM / 1000)
+    : points;
+  const parts = options.splitTracks ? splitPath(simplified, options.maxTrackPoints) : [simplified];
+  const isRoute = options.output === 'route';
+  const [tag, pointTag] = isRoute ? ['rte', 'rtept'] : ['trk', 'trkpt'];
+  const pointIndent = isRoute ? '    ' : '      ';
+
+  let xml = '';
+  for (const [partIndex, part] of parts.entries()) {
+    const name =
+      parts.length > 1 ? `${element.name} (${partIndex + 1}/${parts.length})` : element.name;
+
+    xml += `  <${tag}>
+    <name>${escapeXml(name)}</name>
 `;
-            for (const point of trackPoints) {
-              gpxTracks += `      <trkpt lat="${point.lat.toFixed(6)}" lon="${point.lon.toFixed(6)}">
-        <ele>0</ele>
-      </trkpt>
+    if (note?.content) {
+      xml += `    <desc>${escapeXml(note.content)}</desc>
 `;
-            }
-            gpxTracks += `    </trkseg>
-  </trk>
+    }
+    xml += `    <type>${type}</type>
 `;
-          }
-
-          break;
-        }
-        case 'parallel': {
-          // Generate parallel line (horizontal) from west to east at constant latitude
-          trackPoints = [];
-          const numPoints = 180;
-          const lat = segment.longitude === undefined ? 0 : segment.longitude;
-          for (let i = 0; i <= numPoints; i++) {
-            const lon = -180 + (i / numPoints) * 360;
-            trackPoints.push({ lat, lon });
-          }
-
-          gpxTracks += `  <trk>
-    <name>${segment.name || `Parallel ${segmentIndex + 1}`}</name>
-    <type>Parallel</type>
-    <trkseg>
+    xml +=
+      partIndex === 0
+        ? extensions
+        : extensionsXml([`<geochase:partOf>${escapeXml(element.id)}</geochase:partOf>`], '    ');
+    if (!isRoute) {
+      xml += `    <trkseg>
 `;
-          for (const point of trackPoints) {
-            gpxTracks += `      <trkpt lat="${point.lat.toFixed(6)}" lon="${point.lon.toFixed(6)}">
-        <ele>0</ele>
-      </trkpt>
+    }
+    for (const point of part) {
+      xml += `${pointIndent}<${pointTag} ${latLonAttributes(point, precise)} />
 `;
-          }
-          gpxTracks += `    </trkseg>
-  </trk>
+    }
+    if (!isRoute) {
+      xml += `    </trkseg>
 `;
-
-          break;
-        }
-        // No default
-      }
     }
+    xml += `  </${tag}>
+`;
   }
+  return xml;
+}
 
-  return gpxTracks;
+/**
+ * Compute the circle vertices for the requested density
+ */
+export function getCircleTrackPoints(
+  circle: CircleElement,
+  density: GPXShapeDensity = DEFAULT_GPX_EXPORT_OPTIONS.circleDensity
+): LatLon[] {
+  const { lat, lon } = circle.center;
+  if (density.mode === 'chordError') {
+    return sampleCurveByChordError(
+      (t) => destinationPoint(lat, lon, circle.radius, t * 360),
+      density.maxChordErrorM / 1000,
+      8
+    );
+  }
+  return generateCircle(lat, lon, circle.radius, Math.max(3, Math.round(density.vertices)));
 }
 
 /**
- * Generate complete GPX with circles, line segments, and points
+ * Compute the track points drawn for a line segment
  */
-export function generateCompleteGPX(
-  centers: CircleData[],
-  radiiKm: number[],
-  numPoints: number,
-  segments: LineSegmentData[],
-  layerPoints: PointData[] = []
+export function getLineSegmentTrackPoints(
+  segment: LineSegmentElement,
+  options: Pick<GPXExportOptions, 'azimuthDensity' | 'parallelDensity'> = DEFAULT_GPX_EXPORT_OPTIONS
+): LatLon[] {
+  if (segment.mode === 'parallel') {
+    // Constant latitude from west to east
+    const lat = segment.longitude ?? 0;
+    return sampleShape((t) => ({ lat, lon: -180 + t * 360 }), options.parallelDensity, 4);
+  }
+
+  const pathType = getLinePathType(segment);
+  const { center, distance, azimuth } = segment;
+  const endpoint =
+    segment.mode === 'azimuth' && distance !== undefined && azimuth !== undefined
+      ? pathDestination(center, distance, azimuth, pathType)
+      : segment.endpoint;
+  if (!endpoint) {
+    return [];
+  }
+  // Mercator lines are straight between their ends; densify the others along their path
+  if (pathType === 'mercator') {
+    return [center, endpoint];
+  }
+  return sampleShape(pathInterpolator(center, endpoint, pathType), options.azimuthDensity, 1);
+}
+
+function sampleShape(
+  curve: (t: number) => LatLon,
+  density: GPXShapeDensity,
+  initialSegments: number
+): LatLon[] {
+  if (density.mode === 'chordError') {
+    return sampleCurveByChordError(curve, density.maxChordErrorM / 1000, initialSegments);
+  }
+  const count = Math.max(2, Math.round(density.vertices));
+  return Array.from({ length: count }, (_, i) => curve(i / (count - 1)));
+}
+
+function lineSegmentFields(segment: LineSegmentElement): string[] {
+  const fields = [
+    `<geochase:mode>${segment.mode}</geochase:mode>`,
+    `<geochase:center ${latLonAttributes(segment.center, true)} />`,
+  ];
+  if (segment.endpoint) {
+    fields.push(`<geochase:endpoint ${latLonAttributes(segment.endpoint, true)} />`);
+  }
+  if (segment.distance !== undefined) {
+    fields.push(`<geochase:distance>${segment.distance}</geochase:distance>`);
+  }
+  if (segment.azimuth !== undefined) {
+    fields.push(`<geochase:azimuth>${segment.azimuth}</geochase:azimuth>`);
+  }
+  if (segment.intersectionPoint) {
+    fields.push(
+      `<geochase:intersectionPoint ${latLonAttributes(segment.intersectionPoint, true)} />`
+    );
+  }
+  if (segment.intersectionDistance !== undefined) {
+    fields.push(
+      `<geochase:intersectionDistance>${segment.intersectionDistance}</geochase:intersectionDistance>`
+    );
+  }
+  if (segment.mode !== 'parallel') {
+    fields.push(`<geochase:pathType>${getLinePathType(segment)}</geochase:pathType>`);
+  }
+  if (segment.longitude !== undefined) {
+    // Parallels store their latitude in the longitude field
+    fields.push(`<geochase:latitude>${segment.longitude}</geochase:latitude>`);
+  }
+  if (segment.azimuthTolerance !== undefined) {
+    fields.push(
+      `<geochase:azimuthTolerance>${segment.azimuthTolerance}</geochase:azimuthTolerance>`
+    );
+  }
+  if (segment.distanceTolerance !== undefined) {
+    fields.push(
+      `<geochase:distanceTolerance>${segment.distanceTolerance}</geochase:distanceTolerance>`
+    );
+  }
+  return fields;
+}
+
+/**
+ * Closed tracks outlining the tolerance zone of a circle or line, one per ring
+ * They reference their element and are skipped on import, where the zone is rebuilt
+ */
+function toleranceZoneXml(
+  type: 'circle' | 'lineSegment',
+  element: CircleElement | LineSegmentElement,
+  options: GPXExportOptions
 ): string {
-  const timestamp = new Date().toISOString();
-  const radiiDesc =
-    radiiKm.length === 1 ? `radius ${radiiKm[0]} km` : `radii ${radiiKm.join(', ')} km`;
-  const first = centers[0];
-  const centersDesc =
-    centers.length === 1
-      ? `center at ${first?.lat ?? 0}, ${first?.lon ?? 0}`
-      : `${centers.length} centers`;
+  const zone = getToleranceZone(type, element);
+  if (!zone) {
+    return '';
+  }
+  const extensions = extensionsXml(
+    [`<geochase:toleranceZoneOf>${escapeXml(element.id)}</geochase:toleranceZoneOf>`],
+    '    '
+  );
+  return zone
+    .map((ring, index) =>
+      pathXml(
+        {
+          id: element.id,
+          name:
+            index === 0
+              ? `${element.name} tolerance zone`
+              : `${element.name} tolerance zone (inner edge)`,
+        },
+        'ToleranceZone',
+        [...ring, ring[0]!],
+        extensions,
+        undefined,
+        options
+      )
+    )
+    .join('');
+}
 
-  let descSuffix = '';
-  if (segments.length > 0) {
-    descSuffix += ` plus ${segments.length} line segment(s)`;
+function arcFields(arc: ArcElement): string[] {
+  const fields = [
+    `<geochase:shape>${arc.shape}</geochase:shape>`,
+    `<geochase:center ${latLonAttributes(arc.center, true)} />`,
+    `<geochase:radius>${arc.radius}</geochase:radius>`,
+  ];
+  if (arc.innerRadius !== undefined) {
+    fields.push(`<geochase:innerRadius>${arc.innerRadius}</geochase:innerRadius>`);
+  }
+  if (arc.startAzimuth !== undefined) {
+    fields.push(`<geochase:startAzimuth>${arc.startAzimuth}</geochase:startAzimuth>`);
   }
-  if (layerPoints.length > 0) {
-    descSuffix += ` plus ${layerPoints.length} point(s)`;
+  if (arc.endAzimuth !== undefined) {
+    fields.push(`<geochase:endAzimuth>${arc.endAzimuth}</geochase:endAzimuth>`);
   }
+  return fields;
+}
+
+/**
+ * Annuli and sectors as closed tracks, one per ring, and arcs as open tracks
+ * Only the first ring carries the element; the inner edge of an annulus references it
+ */
+function arcXml(
+  arc: ArcElement,
+  extensions: string,
+  note: NoteElement | undefined,
+  options: GPXExportOptions
+): string {
+  const label = ARC_SHAPE_LABELS[arc.shape];
+  return arcShapeRings(arc)
+    .map((ring, index) =>
+      index === 0
+        ? pathXml(arc, label, ring, extensions, note, options)
+        : pathXml(
+            { id: arc.id, name: `${arc.name} (inner edge)` },
+            label,
+            ring,
+            extensionsXml([`<geochase:partOf>${escapeXml(arc.id)}</geochase:partOf>`], '    '),
+            undefined,
+            options
+          )
+    )
+    .join('');
+}
+
+function locusFields(locus: LocusElement): string[] {
+  return [
+    `<geochase:locusKind>${locus.kind}</geochase:locusKind>`,
+    `<geochase:firstFocus ${latLonAttributes(locus.firstFocus, true)} />`,
+    `<geochase:secondFocus ${latLonAttributes(locus.secondFocus, true)} />`,
+    `<geochase:constant>${locus.constant}</geochase:constant>`,
+  ];
+}
+
+function zoneFields(zone: ZoneElement): string[] {
+  return [
+    `<geochase:operation>${zone.operation}</geochase:operation>`,
+    ...zone.sources.map((source) => {
+      const buffer = source.bufferKm === undefined ? '' : ` bufferKm="${source.bufferKm}"`;
+      return `<geochase:source type="${source.type}" id="${escapeXml(source.id)}" mode="${source.mode}"${buffer} />`;
+    }),
+  ];
+}
+
+/**
+ * Zones as closed tracks, one per ring of their computed area
+ * Only the first ring carries the element; the other rings reference it
+ */
+function zoneXml(
+  zone: ZoneElement,
+  layers: GPXExportData,
+  extensions: string,
+  note: NoteElement | undefined,
+  options: GPXExportOptions
+): string {
+  const { geometry } = computeZone(zone, layers);
+  if (!geometry) {
+    return '';
+  }
+  return zonePolygons(geometry)
+    .flat()
+    .map((ring, index) =>
+      index === 0
+        ? pathXml(zone, 'Zone', ring, extensions, note, options)
+        : pathXml(
+            { id: zone.id, name: `${zone.name} (ring ${index + 1})` },
+            'Zone',
+            ring,
+            extensionsXml([`<geochase:partOf>${escapeXml(zone.id)}</geochase:partOf>`], '    '),
+            undefined,
+            options
+          )
+    )
+    .join('');
+}
+
+/**
+ * Keep only the element types and elements selected in the export options
+ */
+export function filterGPXExportData(data: GPXExportData, options: GPXExportOptions): GPXExportData {
+  const excluded = new Set(options.excludedIds);
+  const isIncluded = (element: { id: string }) => !excluded.has(element.id);
+
+  return {
+    circles: options.includeCircles ? data.circles.filter((e) => isIncluded(e)) : [],
+    lineSegments: options.includeLineSegments ? data.lineSegments.filter((e) => isIncluded(e)) : [],
+    points: options.includePoints ? data.points.filter((e) => isIncluded(e)) : [],
+    polygons: options.includePolygons ? data.polygons.filter((e) => isIncluded(e)) : [],
+    arcs: options.includeArcs ? data.arcs.filter((e) => isIncluded(e)) : [],
+    loci: options.includeLoci ? data.loci.filter((e) => isIncluded(e)) : [],
+    zones: options.includeZones ? data.zones.filter((e) => isIncluded(e)) : [],
+    notes: data.notes,
+  };
+}
+
+/**
+ * Generate a GPX document with one waypoint or track per project element
+ * Circles and polygons become closed tracks, linked notes are written as <desc>,
+ * and colour, id and mode are kept in GeoChase extensions so the file can be re-imported losslessly
+ */
+export function generateCompleteGPX(
+  projectData: GPXExportData,
+  exportOptions: Partial<GPXExportOptions> = {}
+): string {
+  const options = resolveGPXExportOptions(exportOptions);
+  const data = filterGPXExportData(projectData, options);
+  const timestamp = new Date().toISOString();
+  const notesById = new Map(data.notes.map((note) => [note.id, note]));
+  const linkedNote = (element: { noteId?: string }) =>
+    element.noteId ? notesById.get(element.noteId) : undefined;
+
+  const summary = [
+    `${data.circles.length} circle(s)`,
+    `${data.lineSegments.length} line segment(s)`,
+    `${data.points.length} point(s)`,
+    `${data.polygons.length} polygon(s)`,
+    `${data.arcs.length} arc shape(s)`,
+    `${data.loci.length} locus curve(s)`,
+    `${data.zones.length} zone(s)`,
+  ].join(', ');
 
   let gpx = `<?xml version="1.0" encoding="UTF-8"?>
 <gpx version="1.1" creator="GPX Circle Generator"
      xmlns="http://www.topografix.com/GPX/1/1"
+     xmlns:geochase="${GEOCHASE_GPX_NAMESPACE}"
      xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
      xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">
   <metadata>
     <name>Circle Tracks and Line Segments</name>
-    <desc>Circular tracks with ${centersDesc} and ${radiiDesc}${descSuffix}</desc>
+    <desc>${summary}</desc>
     <time>${timestamp}</time>
-  </metadata>
 `;
 
-  // Add waypoints for all centers
-  for (const [centerIndex, center] of centers.entries()) {
-    gpx += `  <wpt lat="${center.lat.toFixed(6)}" lon="${center.lon.toFixed(6)}">
-    <ele>0</ele>
-    <name>Center ${centerIndex + 1}</name>
-    <desc>Circle center point ${centerIndex + 1}</desc>
-    <sym>Flag, Blue</sym>
-  </wpt>
-`;
+  // Notes without a linked element have no GPX counterpart, keep them in metadata
+  const unlinkedNotes = data.notes.filter((note) => !note.linkedElementId);
+  if (unlinkedNotes.length > 0) {
+    gpx += extensionsXml(
+      unlinkedNotes.map((note) => noteExtension(note)),
+      '    '
+    );
   }
+  gpx += `  </metadata>
+`;
 
-  // Add waypoints for all layer points
-  for (const point of layerPoints) {
-    gpx += `  <wpt lat="${point.coordinates.lat.toFixed(6)}" lon="${point.coordinates.lon.toFixed(6)}">
-    <ele>0</ele>
-    <name>${point.name}</name>
-    <desc>User added point</desc>
+  // Waypoints for layer points, with their real elevation when known
+  for (const point of data.points) {
+    const note = linkedNote(point);
+    gpx += `  <wpt ${latLonAttributes(point.coordinates, true)}>
+`;
+    if (point.elevation !== undefined) {
+      gpx += `    <ele>${point.elevation}</ele>
+`;
+    }
+    gpx += `    <name>${escapeXml(point.name)}</name>
+    <desc>${escapeXml(note?.content || 'User added point')}</desc>
     <sym>Flag, Red</sym>
-  </wpt>
+${elementExtensions('point', point, [], note, '    ')}  </wpt>
 `;
   }
 
-  // Generate tracks for each center and radius combination
-  for (const [centerIndex, center] of centers.entries()) {
-    for (const radiusKm of radiiKm) {
-      const points = generateCircle(center.lat, center.lon, radiusKm, numPoints);
-
-      gpx += `  <trk>
-    <name>Center ${centerIndex + 1} - Circle ${radiusKm}km</name>
-    <type>Circle</type>
-    <trkseg>
-`;
+  // One closed track per circle, with its own radius
+  for (const circle of data.circles) {
+    const note = linkedNote(circle);
+    const fields = [
+      `<geochase:center ${latLonAttributes(circle.center, true)} />`,
+      `<geochase:radius>${circle.radius}</geochase:radius>`,
+    ];
+    if (circle.radiusTolerance !== undefined) {
+      fields.push(`<geochase:radiusTolerance>${circle.radiusTolerance}</geochase:radiusTolerance>`);
+    }
+    gpx += pathXml(
+      circle,
+      'Circle',
+      getCircleTrackPoints(circle, options.circleDensity),
+      elementExtensions('circle', circle, fields, note, '    '),
+      note,
+      options
+    );
+    gpx += toleranceZoneXml('circle', circle, options);
+  }
 
-      for (const point of points) {
-        gpx += `      <trkpt lat="${point.lat.toFixed(6)}" lon="${point.lon.toFixed(6)}">
-        <ele>0</ele>
-      </trkpt>
-`;
-      }
+  for (const segment of data.lineSegments) {
+    const points = getLineSegmentTrackPoints(segment, options);
+    if (points.length < 2) {
+      continue;
+    }
+    const note = linkedNote(segment);
+    gpx += pathXml(
+      segment,
+      segment.mode === 'parallel' ? 'Parallel' : 'LineSegment',
+      points,
+      elementExtensions('lineSegment', segment, lineSegmentFields(segment), note, '    '),
+      note,
+      options
+    );
+    gpx += toleranceZoneXml('lineSegment', segment, options);
+  }
 
-      gpx += `    </trkseg>
-  </trk>
-`;
+  // Polygons as closed tracks; exact vertices are kept in the extensions
+  for (const polygon of data.polygons) {
+    const first = polygon.points[0];
+    if (!first) {
+      continue;
     }
+    const note = linkedNote(polygon);
+    const vertices = polygon.points.map(
+      (point) => `<geochase:vertex ${latLonAttributes(point, true)} />`
+    );
+    gpx += pathXml(
+      polygon,
+      'Polygon',
+      [...polygon.points, first],
+      elementExtensions('polygon', polygon, vertices, note, '    '),
+      note,
+      options,
+      true
+    );
   }
 
-  // Add line segment tracks
-  if (segments.length > 0) {
-    gpx += generateLineSegmentTracks(segments);
+  for (const arc of data.arcs) {
+    const note = linkedNote(arc);
+    gpx += arcXml(arc, elementExtensions('arc', arc, arcFields(arc), note, '    '), note, options);
+  }
+
+  // Ellipses and Apollonius circles as closed tracks, hyperbola branches as open ones
+  for (const locus of data.loci) {
+    const note = linkedNote(locus);
+    gpx += pathXml(
+      locus,
+      LOCUS_KIND_LABELS[locus.kind],
+      generateLocus(locus),
+      elementExtensions('locus', locus, locusFields(locus), note, '    '),
+      note,
+      options
+    );
+  }
+
+  // Zones are computed from every source, including those left out of the export
+  for (const zone of data.zones) {
+    const note = linkedNote(zone);
+    gpx += zoneXml(
+      zone,
+      projectData,
+      elementExtensions('zone', zone, zoneFields(zone), note, '    '),
+      note,
+      options
+    );
   }
 
   gpx += `</gpx>`;
@@ -276,3 +692,526 @@ export function downloadGPX(content: string, filename: string): void {
   a.remove();
   URL.revokeObjectURL(url);
 }
+
+interface ParsedTrack {
+  name?: string;
+  type?: string;
+  points: LatLon[];
+  extensions?: Element;
+}
+
+const DEFAULT_IMPORT_COLOR = '#000000';
+const DEFAULT_POLYGON_COLOR = '#90EE90';
+const CLOSED_TRACK_TOLERANCE_KM = 0.001; // 1 m between first and last point
+const CIRCLE_CENTER_DESC = /^Circle center point \d+$/;
+const CIRCLE_RADIUS_IN_NAME = /Circle\s+([\d.]+)\s*km/i;
+
+/**
+ * Get the first direct child with the given local name
+ */
+function childElement(parent: Element, localName: string): Element | undefined {
+  for (const child of parent.children) {
+    if (child.localName === localName) {
+      return child;
+    }
+  }
+  return undefined;
+}
+
+function childText(parent: Element, localName: string): string | undefined {
+  return childElement(parent, localName)?.textContent?.trim() || undefined;
+}
+
+/**
+ * Read lat/lon attributes of a wpt/trkpt/rtept element
+ */
+function readLatLon(element: Element): LatLon | null {
+  const lat = Number.parseFloat(element.getAttribute('lat') ?? '');
+  const lon = Number.parseFloat(element.getAttribute('lon') ?? '');
+  if (Number.isNaN(lat) || Number.isNaN(lon)) {
+    return null;
+  }
+  return { lat, lon };
+}
+
+function readPoints(parent: Element, localName: 'trkpt' | 'rtept'): LatLon[] {
+  const points: LatLon[] = [];
+  for (const element of parent.getElementsByTagNameNS('*', localName)) {
+    const point = readLatLon(element);
+    if (point) {
+      points.push(point);
+    }
+  }
+  return points;
+}
+
+function isClosedTrack(points: LatLon[]): boolean {
+  const first = points[0];
+  const last = points.at(-1);
+  if (!first || !last || points.length < 4) {
+    return false;
+  }
+  return calculateDistance(first.lat, first.lon, last.lat, last.lon) < CLOSED_TRACK_TOLERANCE_KM;
+}
+
+/**
+ * Recover the center and radius of a circle from its vertices
+ * The center is the normalized mean of the vertices as unit vectors on the sphere
+ */
+function fitCircle(points: LatLon[]): { center: LatLon; radius: number } {
+  const ring = isClosedTrack(points) ? points.slice(0, -1) : points;
+
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  for (const point of ring) {
+    const v = latLonToVector(point.lat, point.lon);
+    x += v.x;
+    y += v.y;
+    z += v.z;
+  }
+  const mag = Math.hypot(x, y, z) || 1;
+  const center = vectorToLatLon({ x: x / mag, y: y / mag, z: z / mag });
+
+  const totalDistance = ring.reduce(
+    (sum, point) => sum + calculateDistance(center.lat, center.lon, point.lat, point.lon),
+    0
+  );
+
+  return { center, radius: totalDistance / ring.length };
+}
+
+function createCircleFromTrack(track: ParsedTrack, index: number): CircleElement {
+  const { center, radius } = fitCircle(track.points);
+
+  // Tracks exported by this tool carry the exact radius in their name
+  const radiusMatch = track.name?.match(CIRCLE_RADIUS_IN_NAME);
+  const namedRadius = radiusMatch ? Number.parseFloat(radiusMatch[1]!) : Number.NaN;
+
+  return {
+    id: uuidv4(),
+    name: track.name || `Circle ${index + 1}`,
+    center,
+    radius: Number.isNaN(namedRadius) ? radius : namedRadius,
+    color: DEFAULT_IMPORT_COLOR,
+  };
+}
+
+function createSegment(
+  start: LatLon,
+  end: LatLon,
+  name: string,
+  mode: 'coordinate' | 'azimuth'
+): LineSegmentElement {
+  const segment: LineSegmentElement = {
+    id: uuidv4(),
+    name,
+    center: { lat: start.lat, lon: start.lon },
+    endpoint: { lat: end.lat, lon: end.lon },
+    mode,
+    color: DEFAULT_IMPORT_COLOR,
+  };
+
+  if (mode === 'azimuth') {
+    segment.distance = calculateDistance(start.lat, start.lon, end.lat, end.lon);
+    segment.azimuth = calculateBearing(start.lat, start.lon, end.lat, end.lon);
+  }
+
+  return segment;
+}
+
+/**
+ * Find a direct GeoChase extension child by local name
+ */
+function geochaseChild(extensions: Element, localName: string): Element | undefined {
+  for (const child of extensions.children) {
+    if (child.namespaceURI === GEOCHASE_GPX_NAMESPACE && child.localName === localName) {
+      return child;
+    }
+  }
+  return undefined;
+}
+
+function geochaseText(extensions: Element, localName: string): string | undefined {
+  return geochaseChild(extensions, localName)?.textContent?.trim() || undefined;
+}
+
+function geochaseNumber(extensions: Element, localName: string): number | undefined {
+  const value = Number.parseFloat(geochaseText(extensions, localName) ?? '');
+  return Number.isNaN(value) ? undefined : value;
+}
+
+function geochaseLatLon(extensions: Element, localName: string): LatLon | undefined {
+  const child = geochaseChild(extensions, localName);
+  return child ? (readLatLon(child) ?? undefined) : undefined;
+}
+
+function readGeochaseNote(
+  noteElement: Element,
+  linkedElementType?: GPXElementKind,
+  linkedElementId?: string
+): NoteElement {
+  const createdAt = Number.parseInt(noteElement.getAttribute('createdAt') ?? '', 10);
+  const updatedAt = Number.parseInt(noteElement.getAttribute('updatedAt') ?? '', 10);
+
+  return {
+    id: noteElement.getAttribute('id') || uuidv4(),
+    title: noteElement.getAttribute('title') || 'Note',
+    content: noteElement.textContent ?? '',
+    linkedElementType,
+    linkedElementId,
+    createdAt: Number.isNaN(createdAt) ? undefined : createdAt,
+    updatedAt: Number.isNaN(updatedAt) ? undefined : updatedAt,
+  };
+}
+
+function readZoneSource(element: Element): ZoneSource | null {
+  const bufferKm = Number.parseFloat(element.getAttribute('bufferKm') ?? '');
+  return toZoneSource({
+    type: element.getAttribute('type'),
+    id: element.getAttribute('id'),
+    mode: element.getAttribute('mode'),
+    bufferKm: Number.isNaN(bufferKm) ? undefined : bufferKm,
+  });
+}
+
+function readGeochaseLocus(extensions: Element): LocusDefinition | null {
+  const kind = geochaseText(extensions, 'locusKind');
+  const firstFocus = geochaseLatLon(extensions, 'firstFocus');
+  const secondFocus = geochaseLatLon(extensions, 'secondFocus');
+  const constant = geochaseNumber(extensions, 'constant');
+  if (!isLocusKind(kind) || !firstFocus || !secondFocus || constant === undefined) {
+    return null;
+  }
+  return { kind, firstFocus, secondFocus, constant };
+}
+
+function readGeochaseZone(extensions: Element): Pick<ZoneElement, 'operation' | 'sources'> | null {
+  const operation = geochaseText(extensions, 'operation');
+  const sources = [...extensions.children]
+    .filter((child) => child.namespaceURI === GEOCHASE_GPX_NAMESPACE)
+    .filter((child) => child.localName === 'source')
+    .map((child) => readZoneSource(child))
+    .filter((source): source is ZoneSource => source !== null);
+  if (!isZoneOperation(operation) || sources.length === 0) {
+    return null;
+  }
+  return { operation, sources };
+}
+
+/**
+ * Rebuild an element exactly from its GeoChase extensions
+ * Returns false when the extensions do not describe a known element
+ */
+function addGeochaseTrackElement(track: ParsedTrack, result: LayerImportResult): boolean {
+  const { extensions } = track;
+  if (!extensions) {
+    return false;
+  }
+
+  // Continuation parts of a split track are covered by their first part, and tolerance zones
+  // are rebuilt from their circle or line
+  if (geochaseText(extensions, 'partOf') || geochaseText(extensions, 'toleranceZoneOf')) {
+    return true;
+  }
+
+  const kind = geochaseText(extensions, 'kind');
+  if (!kind) {
+    return false;
+  }
+
+  const id = geochaseText(extensions, 'id') || uuidv4();
+  const base = {
+    id,
+    color: geochaseText(extensions, 'color'),
+    group: geochaseText(extensions, 'group'),
+    createdAt: geochaseNumber(extensions, 'createdAt'),
+  };
+
+  switch (kind) {
+    case 'circle': {
+      const center = geochaseLatLon(extensions, 'center');
+      const radius = geochaseNumber(extensions, 'radius');
+      if (!center || radius === undefined) {
+        return false;
+      }
+      result.circles.push({
+        ...base,
+        name: track.name || `Circle ${result.circles.length + 1}`,
+        center,
+        radius,
+        radiusTolerance: geochaseNumber(extensions, 'radiusTolerance'),
+      });
+      break;
+    }
+    case 'lineSegment': {
+      const mode = geochaseText(extensions, 'mode') as LineSegmentElement['mode'] | undefined;
+      const center = geochaseLatLon(extensions, 'center');
+      const pathType = geochaseText(extensions, 'pathType');
+      if (!mode || !center) {
+        return false;
+      }
+      result.lineSegments.push({
+        ...base,
+        name: track.name || `Line Segment ${result.lineSegments.length + 1}`,
+        center,
+        endpoint: geochaseLatLon(extensions, 'endpoint'),
+        mode,
+        distance: geochaseNumber(extensions, 'distance'),
+        azimuth: geochaseNumber(extensions, 'azimuth'),
+        intersectionPoint: geochaseLatLon(extensions, 'intersectionPoint'),
+        intersectionDistance: geochaseNumber(extensions, 'intersectionDistance'),
+        longitude: geochaseNumber(extensions, 'latitude'),
+        pathType: isLinePathType(pathType) ? pathType : undefined,
+        azimuthTolerance: geochaseNumber(extensions, 'azimuthTolerance'),
+        distanceTolerance: geochaseNumber(extensions, 'distanceTolerance'),
+      });
+      break;
+    }
+    case 'polygon': {
+      const vertices = [...extensions.children]
+        .filter((child) => child.namespaceURI === GEOCHASE_GPX_NAMESPACE)
+        .filter((child) => child.localName === 'vertex')
+        .map((child) => readLatLon(child))
+        .filter((point): point is LatLon => point !== null);
+      const trackPoints = isClosedTrack(track.points) ? track.points.slice(0, -1) : track.points;
+      const points = vertices.length >= 3 ? vertices : trackPoints;
+      if (points.length < 3) {
+        return false;
+      }
+      result.polygons.push({
+        ...base,
+        name: track.name || `Polygon ${result.polygons.length + 1}`,
+        points,
+      });
+      break;
+    }
+    case 'arc': {
+      const shape = geochaseText(extensions, 'shape');
+      const center = geochaseLatLon(extensions, 'center');
+      const radius = geochaseNumber(extensions, 'radius');
+      if (!isArcShape(shape) || !center || radius === undefined) {
+        return false;
+      }
+      result.arcs.push({
+        ...base,
+        name: track.name || `${ARC_SHAPE_LABELS[shape]} ${result.arcs.length + 1}`,
+        shape,
+        center,
+        radius,
+        innerRadius: geochaseNumber(extensions, 'innerRadius'),
+        startAzimuth: geochaseNumber(extensions, 'startAzimuth'),
+        endAzimuth: geochaseNumber(extensions, 'endAzimuth'),
+      });
+      break;
+    }
+    case 'locus': {
+      const definition = readGeochaseLocus(extensions);
+      if (!definition) {
+        return false;
+      }
+      result.loci.push({
+        ...base,
+        name: track.name || `${LOCUS_KIND_LABELS[definition.kind]} ${result.loci.length + 1}`,
+        ...definition,
+      });
+      break;
+    }
+    case 'zone': {
+      const definition = readGeochaseZone(extensions);
+      if (!definition) {
+        return false;
+      }
+      result.zones.push({
+        ...base,
+        name: track.name || `Zone ${result.zones.length + 1}`,
+        ...definition,
+      });
+      break;
+    }
+    default: {
+      return false;
+    }
+  }
+
+  const noteElement = geochaseChild(extensions, 'note');
+  if (noteElement) {
+    result.notes.push(readGeochaseNote(noteElement, kind, id));
+  }
+  return true;
+}
+
+/**
+ * Convert one track or route into layer elements
+ */
+function addTrackElements(track: ParsedTrack, result: LayerImportResult): void {
+  if (addGeochaseTrackElement(track, result)) {
+    return;
+  }
+
+  const { points } = track;
+  const first = points[0];
+  const last = points.at(-1);
+
+  if (!first || !last || points.length < 2) {
+    result.warnings.push(
+      `"${track.name || 'Unnamed track'}" has fewer than 2 points and was skipped`
+    );
+    return;
+  }
+
+  switch (track.type) {
+    case 'Circle': {
+      if (points.length >= 3) {
+        result.circles.push(createCircleFromTrack(track, result.circles.length));
+        return;
+      }
+      break;
+    }
+    case 'Parallel': {
+      result.lineSegments.push({
+        id: uuidv4(),
+        name: track.name || `Parallel ${result.lineSegments.length + 1}`,
+        center: { lat: first.lat, lon: 0 },
+        mode: 'parallel',
+        longitude: first.lat,
+        color: DEFAULT_IMPORT_COLOR,
+      });
+      return;
+    }
+    case 'LineSegment': {
+      // Curved lines are exported densified along their path, Mercator lines as two points
+      const name = track.name || `Line Segment ${result.lineSegments.length + 1}`;
+      result.lineSegments.push(
+        createSegment(first, last, name, points.length > 2 ? 'azimuth' : 'coordinate')
+      );
+      return;
+    }
+    // No default
+  }
+
+  const name = track.name || `Track ${result.lineSegments.length + result.polygons.length + 1}`;
+
+  if (points.length === 2) {
+    result.lineSegments.push(createSegment(first, last, name, 'coordinate'));
+  } else if (isClosedTrack(points)) {
+    result.polygons.push({
+      id: uuidv4(),
+      name,
+      points: points.slice(0, -1),
+      color: DEFAULT_POLYGON_COLOR,
+    });
+  } else {
+    // Open polyline: one segment per leg
+    for (let i = 0; i < points.length - 1; i++) {
+      result.lineSegments.push(
+        createSegment(
+          points[i]!,
+          points[i + 1]!,
+          `${name} (${i + 1}/${points.length - 1})`,
+          'coordinate'
+        )
+      );
+    }
+    result.warnings.push(`"${name}" was split into ${points.length - 1} line segments`);
+  }
+}
+
+/**
+ * Parse GPX content into circles, line segments, points, polygons, arc shapes, loci, zones and
+ * notes
+ * Elements carrying GeoChase extensions are restored exactly; other tracks exported by this
+ * tool (Circle, LineSegment, Parallel types) are rebuilt from their geometry
+ * @throws Error when the content is not a valid GPX document
+ */
+export function parseGPX(content: string): LayerImportResult {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  const root = doc.documentElement;
+
+  if (doc.querySelector('parsererror') || root?.localName !== 'gpx') {
+    throw new Error('Invalid GPX file');
+  }
+
+  const result: LayerImportResult = {
+    circles: [],
+    lineSegments: [],
+    points: [],
+    polygons: [],
+    arcs: [],
+    loci: [],
+    zones: [],
+    notes: [],
+    warnings: [],
+  };
+
+  // Notes not linked to any element are stored in the metadata extensions
+  const metadataExtensions = root.querySelector(':scope > metadata > extensions');
+  if (metadataExtensions) {
+    for (const child of metadataExtensions.children) {
+      if (child.namespaceURI === GEOCHASE_GPX_NAMESPACE && child.localName === 'note') {
+        result.notes.push(readGeochaseNote(child));
+      }
+    }
+  }
+
+  // Waypoints become points
+  for (const wpt of root.getElementsByTagNameNS('*', 'wpt')) {
+    const coordinates = readLatLon(wpt);
+    if (!coordinates) {
+      continue;
+    }
+
+    // Circle centers are regenerated from the circle tracks themselves
+    const desc = childText(wpt, 'desc');
+    if (desc && CIRCLE_CENTER_DESC.test(desc)) {
+      continue;
+    }
+
+    const elevation = Number.parseFloat(childText(wpt, 'ele') ?? '');
+    const extensions = childElement(wpt, 'extensions');
+    const isGeochasePoint = extensions && geochaseText(extensions, 'kind') === 'point';
+    const id = (isGeochasePoint && geochaseText(extensions, 'id')) || uuidv4();
+
+    result.points.push({
+      id,
+      name: childText(wpt, 'name') || `Point ${result.points.length + 1}`,
+      coordinates,
+      elevation: Number.isNaN(elevation) ? undefined : elevation,
+      color: (isGeochasePoint && geochaseText(extensions, 'color')) || DEFAULT_IMPORT_COLOR,
+      group: isGeochasePoint ? geochaseText(extensions, 'group') : undefined,
+      createdAt: isGeochasePoint ? geochaseNumber(extensions, 'createdAt') : undefined,
+    });
+
+    const noteElement = isGeochasePoint ? geochaseChild(extensions, 'note') : undefined;
+    if (noteElement) {
+      result.notes.push(readGeochaseNote(noteElement, 'point', id));
+    }
+  }
+
+  // Tracks (all segments merged) and routes become lines, circles or polygons
+  for (const trk of root.getElementsByTagNameNS('*', 'trk')) {
+    addTrackElements(
+      {
+        name: childText(trk, 'name'),
+        type: childText(trk, 'type'),
+        points: readPoints(trk, 'trkpt'),
+        extensions: childElement(trk, 'extensions'),
+      },
+      result
+    );
+  }
+
+  for (const rte of root.getElementsByTagNameNS('*', 'rte')) {
+    addTrackElements(
+      {
+        name: childText(rte, 'name'),
+        type: childText(rte, 'type'),
+        points: readPoints(rte, 'rtept'),
+        extensions: childElement(rte, 'extensions'),
+      },
+      result
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,561 @@
+/**
+ * Intersections service - Points where two drawn elements cross or touch
+ *
+ * Every element is reduced to curves parametrized from 0 to 1: circles, line paths and polygon
+ * edges. A circle is also the set of points at its radius from the center, so a curve meets a
+ * circle where that distance minus the radius changes sign (or dips to zero: tangency). Two curves
+ * meet where both are subdivided down to overlapping pieces, then solved with Newton's method.
+ * Pieces are discarded with distance bounds rather than sampled, so no solution falls between
+ * samples; all distances follow the active earth model.
+ */
+
+import type { LatLon } from './geometry';
+import type { CircleElement, LineSegmentElement, PolygonElement } from './storage';
+import { geodesicDirect, geodesicDistance } from './geodesy';
+import { getLinePathType, pathInterpolator, toRadians } from './geometry';
+
+export type IntersectableElement =
+  | { type: 'circle'; element: CircleElement }
+  | { type: 'lineSegment'; element: LineSegmentElement }
+  | { type: 'polygon'; element: PolygonElement };
+
+export interface IntersectionPoint extends LatLon {
+  tangent: boolean; // The elements touch (within the tolerance) rather than cross
+}
+
+export interface IntersectionResult {
+  points: IntersectionPoint[];
+  overlapping: boolean; // The elements share a stretch, so the solutions are not isolated points
+}
+
+export const DEFAULT_INTERSECTION_TOLERANCE_KM = 0.001; // 1 m
+
+type Curve = (t: number) => LatLon;
+
+interface Sample {
+  t: number;
+  p: LatLon;
+}
+
+interface CircleSample extends Sample {
+  g: number; // Distance to the circle's center minus its radius, in km
+}
+
+interface Piece {
+  a: Sample;
+  b: Sample;
+  mid: Sample;
+  radiusKm: number; // The piece lies within this distance of mid
+}
+
+const CIRCLE_PIECES = 64; // Initial pieces of a curve checked against a circle
+const CURVE_PIECES = 8; // Initial pieces of each curve checked against another curve
+const LEAF_SIZE_KM = 0.05; // Pieces shorter than this are solved directly
+const ARC_MARGIN = 1.1; // Allowance for a piece being longer than its chord
+const MAX_LEAVES = 4000; // More candidate pieces than this means the elements overlap
+const OVERLAP_KM = 25; // Longer stretches within the tolerance are overlaps, not tangencies
+const MIN_STEP = 1e-13; // Smallest parameter interval worth splitting
+const KM_PER_DEGREE = 111.319_490_79;
+
+/**
+ * Curves making up an element, each parametrized from 0 to 1
+ */
+function elementCurves(item: IntersectableElement): Curve[] {
+  switch (item.type) {
+    case 'circle': {
+      const { center, radius } = item.element;
+      return [(t) => geodesicDirect(center, radius, t * 360)];
+    }
+    case 'lineSegment': {
+      const segment = item.element;
+      if (segment.mode === 'parallel') {
+        // Parallels store their latitude in the longitude field
+        const lat = segment.longitude ?? 0;
+        return [(t) => ({ lat, lon: -180 + t * 360 })];
+      }
+      return segment.endpoint
+        ? [pathInterpolator(segment.center, segment.endpoint, getLinePathType(segment))]
+        : [];
+    }
+    case 'polygon': {
+      // Polygon edges are drawn straight on the map
+      const { points } = item.element;
+      return points.map((point, i) =>
+        pathInterpolator(point, points[(i + 1) % points.length]!, 'mercator')
+      );
+    }
+  }
+}
+
+function sampleCurve(curve: Curve, t: number): Sample {
+  return { t, p: curve(t) };
+}
+
+/**
+ * Golden-section search for the parameter where f is smallest on [a, b]
+ */
+function minimize(f: (t: number) => number, a: number, b: number): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = a;
+  let high = b;
+  let x1 = high - ratio * (high - low);
+  let x2 = low + ratio * (high - low);
+  let f1 = f(x1);
+  let f2 = f(x2);
+  for (let i = 0; i < 60 && high - low > MIN_STEP; i++) {
+    if (f1 < f2) {
+      high = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = high - ratio * (high - low);
+      f1 = f(x1);
+    } else {
+      low = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = low + ratio * (high - low);
+      f2 = f(x2);
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Bisection for the sign change of g between two samples
+ */
+function bisect(
+  sample: (t: number) => CircleSample,
+  a: CircleSample,
+  b: CircleSample
+): CircleSample {
+  let low = a;
+  let high = b;
+  for (let i = 0; i < 60 && high.t - low.t > MIN_STEP; i++) {
+    const mid = sample((low.t + high.t) / 2);
+    if (mid.g === 0) {
+      return mid;
+    }
+    if (Math.sign(mid.g) === Math.sign(low.g)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.abs(low.g) < Math.abs(high.g) ? low : high;
+}
+
+/**
+ * Whether g stays within the tolerance between two parameters
+ * The golden-section maximum is checked against a few evenly spaced samples in case g wiggles
+ */
+function isShallowDip(
+  sample: (t: number) => CircleSample,
+  from: number,
+  to: number,
+  toleranceKm: number
+): boolean {
+  const probes = Array.from({ length: 7 }, (_, i) => from + ((i + 1) * (to - from)) / 8);
+  probes.push(minimize((t) => -Math.abs(sample(t).g), from, to));
+  return probes.every((t) => Math.abs(sample(t).g) <= toleranceKm);
+}
+
+/**
+ * Points where a curve crosses or touches a circle
+ */
+function curveCircleIntersections(
+  curve: Curve,
+  circle: CircleElement,
+  toleranceKm: number
+): { candidates: IntersectionPoint[]; overlapping: boolean } {
+  const sample = (t: number): CircleSample => {
+    const p = curve(t);
+    return { t, p, g: geodesicDistance(circle.center, p) - circle.radius };
+  };
+
+  const pieces: [CircleSample, CircleSample][] = [];
+  const leaves: [CircleSample, CircleSample][] = [];
+  let curveLengthKm = 0;
+  let previous = sample(0);
+  for (let i = 1; i <= CIRCLE_PIECES; i++) {
+    const next = sample(i / CIRCLE_PIECES);
+    curveLengthKm += geodesicDistance(previous.p, next.p);
+    pieces.push([previous, next]);
+    previous = next;
+  }
+
+  while (pieces.length > 0) {
+    const [a, b] = pieces.pop()!;
+    const chord = geodesicDistance(a.p, b.p);
+    // Along the piece g changes at most by its length, so it cannot get within the tolerance
+    if (Math.abs(a.g) + Math.abs(b.g) > chord * ARC_MARGIN + 2 * toleranceKm) {
+      continue;
+    }
+    if (chord <= LEAF_SIZE_KM || b.t - a.t < MIN_STEP) {
+      leaves.push([a, b]);
+      if (leaves.length > MAX_LEAVES) {
+        return { candidates: [], overlapping: true };
+      }
+      continue;
+    }
+    const mid = sample((a.t + b.t) / 2);
+    pieces.push([a, mid], [mid, b]);
+  }
+
+  // A long stretch within the tolerance means the curve runs along the circle
+  const onCircleKm = leaves
+    .filter(([a, b]) => Math.abs(a.g) <= toleranceKm && Math.abs(b.g) <= toleranceKm)
+    .reduce((sum, [a, b]) => sum + geodesicDistance(a.p, b.p), 0);
+  if (onCircleKm > Math.min(OVERLAP_KM, curveLengthKm / 2)) {
+    return { candidates: [], overlapping: true };
+  }
+
+  const events: { sample: CircleSample; crossing: boolean }[] = [];
+  for (const [a, b] of leaves) {
+    if (Math.sign(a.g) !== Math.sign(b.g)) {
+      events.push({ sample: bisect(sample, a, b), crossing: true });
+      continue;
+    }
+    // No sign change: g may still dip across zero, or towards it, inside the piece
+    const side = Math.sign(a.g);
+    const extremum = sample(minimize((t) => side * sample(t).g, a.t, b.t));
+    if (Math.sign(extremum.g) !== side) {
+      events.push(
+        { sample: bisect(sample, a, extremum), crossing: true },
+        { sample: bisect(sample, extremum, b), crossing: true }
+      );
+    } else if (Math.abs(extremum.g) <= toleranceKm) {
+      events.push({ sample: extremum, crossing: false });
+    }
+  }
+
+  // Events with only a dip shallower than the tolerance between them are one solution: a
+  // crossing if the curve ends up on the other side of the circle, a tangency otherwise
+  events.sort((x, y) => x.sample.t - y.sample.t);
+  const candidates: IntersectionPoint[] = [];
+  let cluster: typeof events = [];
+  const closeCluster = () => {
+    const crossings = cluster.filter((event) => event.crossing);
+    if (crossings.length % 2 === 1) {
+      candidates.push({ ...crossings[(crossings.length - 1) / 2]!.sample.p, tangent: false });
+    } else if (crossings.length > 0) {
+      // Crossed back and forth: the curve is closest to tangent where it dips the most
+      const from = crossings[0]!.sample.t;
+      const to = crossings.at(-1)!.sample.t;
+      const dip = sample(minimize((t) => -Math.abs(sample(t).g), from, to));
+      candidates.push({ ...dip.p, tangent: true });
+    } else if (cluster.length > 0) {
+      const touch = cluster.reduce((best, event) =>
+        Math.abs(event.sample.g) < Math.abs(best.sample.g) ? event : best
+      );
+      candidates.push({ ...touch.sample.p, tangent: true });
+    }
+    cluster = [];
+  };
+  for (const event of events) {
+    const last = cluster.at(-1);
+    if (last && !isShallowDip(sample, last.sample.t, event.sample.t, toleranceKm)) {
+      closeCluster();
+    }
+    cluster.push(event);
+  }
+  closeCluster();
+
+  return { candidates, overlapping: false };
+}
+
+function makePiece(curve: Curve, a: Sample, b: Sample): Piece {
+  const mid = sampleCurve(curve, (a.t + b.t) / 2);
+  const radiusKm =
+    Math.max(geodesicDistance(mid.p, a.p), geodesicDistance(mid.p, b.p)) * ARC_MARGIN;
+  return { a, b, mid, radiusKm };
+}
+
+function splitPiece(curve: Curve, piece: Piece): [Piece, Piece] {
+  return [makePiece(curve, piece.a, piece.mid), makePiece(curve, piece.mid, piece.b)];
+}
+
+function initialPieces(curve: Curve): Piece[] {
+  const samples = Array.from({ length: CURVE_PIECES + 1 }, (_, i) =>
+    sampleCurve(curve, i / CURVE_PIECES)
+  );
+  return samples.slice(1).map((b, i) => makePiece(curve, samples[i]!, b));
+}
+
+/**
+ * Newton's method on two short pieces, in a local plane around the first one
+ */
+function solvePieces(curveA: Curve, pieceA: Piece, curveB: Curve, pieceB: Piece): Sample | null {
+  const origin = pieceA.mid.p;
+  const cosLat = Math.cos(toRadians(origin.lat));
+  const project = (p: LatLon) => ({
+    x: (p.lon - origin.lon) * KM_PER_DEGREE * cosLat,
+    y: (p.lat - origin.lat) * KM_PER_DEGREE,
+  });
+  const residual = (t: number, s: number) => {
+    const pa = project(curveA(t));
+    const pb = project(curveB(s));
+    return { x: pa.x - pb.x, y: pa.y - pb.y };
+  };
+
+  const spanA = pieceA.b.t - pieceA.a.t;
+  const spanB = pieceB.b.t - pieceB.a.t;
+  let t = pieceA.mid.t;
+  let s = pieceB.mid.t;
+
+  for (let i = 0; i < 30; i++) {
+    const f = residual(t, s);
+    if (Math.hypot(f.x, f.y) < 1e-10) {
+      break;
+    }
+    const ht = spanA * 1e-4;
+    const hs = spanB * 1e-4;
+    const ft = residual(t + ht, s);
+    const fs = residual(t, s + hs);
+    const j11 = (ft.x - f.x) / ht;
+    const j21 = (ft.y - f.y) / ht;
+    const j12 = (fs.x - f.x) / hs;
+    const j22 = (fs.y - f.y) / hs;
+    const det = j11 * j22 - j12 * j21;
+    // Parallel pieces have no isolated crossing
+    if (!Number.isFinite(det) || Math.abs(det) < 1e-12 * Math.abs(j11 * j22 + j12 * j21)) {
+      return null;
+    }
+    t -= (j22 * f.x - j12 * f.y) / det;
+    s -= (j11 * f.y - j21 * f.x) / det;
+  }
+
+  const f = residual(t, s);
+  const inA = t >= pieceA.a.t - spanA * 1e-6 && t <= pieceA.b.t + spanA * 1e-6;
+  const inB = s >= pieceB.a.t - spanB * 1e-6 && s <= pieceB.b.t + spanB * 1e-6;
+  return inA && inB && Math.hypot(f.x, f.y) < 1e-6 ? sampleCurve(curveA, t) : null;
+}
+
+/**
+ * Points where two curves cross
+ */
+function curveCurveIntersections(
+  curveA: Curve,
+  curveB: Curve,
+  toleranceKm: number
+): { candidates: IntersectionPoint[]; overlapping: boolean } {
+  const piecesB = initialPieces(curveB);
+  const pairs: [Piece, Piece][] = initialPieces(curveA).flatMap((pieceA) =>
+    piecesB.map((pieceB) => [pieceA, pieceB] as [Piece, Piece])
+  );
+  const leaves: [Piece, Piece][] = [];
+
+  while (pairs.length > 0) {
+    const [pieceA, pieceB] = pairs.pop()!;
+    const gap = geodesicDistance(pieceA.mid.p, pieceB.mid.p);
+    if (gap > pieceA.radiusKm + pieceB.radiusKm + toleranceKm) {
+      continue;
+    }
+    const aIsLeaf = pieceA.radiusKm <= LEAF_SIZE_KM / 2 || pieceA.b.t - pieceA.a.t < MIN_STEP;
+    const bIsLeaf = pieceB.radiusKm <= LEAF_SIZE_KM / 2 || pieceB.b.t - pieceB.a.t < MIN_STEP;
+    if (aIsLeaf && bIsLeaf) {
+      leaves.push([pieceA, pieceB]);
+      if (leaves.length > MAX_LEAVES) {
+        return { candidates: [], overlapping: true };
+      }
+    } else if (!aIsLeaf && (bIsLeaf || pieceA.radiusKm >= pieceB.radiusKm)) {
+      for (const half of splitPiece(curveA, pieceA)) {
+        pairs.push([half, pieceB]);
+      }
+    } else {
+      for (const half of splitPiece(curveB, pieceB)) {
+        pairs.push([pieceA, half]);
+      }
+    }
+  }
+
+  const candidates: IntersectionPoint[] = [];
+  for (const [pieceA, pieceB] of leaves) {
+    const solution = solvePieces(curveA, pieceA, curveB, pieceB);
+    if (solution) {
+      candidates.push({ ...solution.p, tangent: false });
+    }
+  }
+  return { candidates, overlapping: false };
+}
+
+/**
+ * Merge solutions closer than the tolerance (e.g. found on two neighbouring pieces or edges)
+ */
+function mergeCandidates(
+  candidates: IntersectionPoint[],
+  toleranceKm: number
+): IntersectionPoint[] {
+  const points: IntersectionPoint[] = [];
+  for (const candidate of candidates) {
+    const existing = points.find((point) => geodesicDistance(point, candidate) <= toleranceKm);
+    if (existing) {
+      // A crossing found twice is still a crossing
+      existing.tangent &&= candidate.tangent;
+    } else {
+      points.push({ lat: candidate.lat, lon: candidate.lon, tangent: candidate.tangent });
+    }
+  }
+  return points;
+}
+
+/**
+ * Exact points where two elements cross or touch
+ * Solutions closer than toleranceKm are merged, and elements that come within toleranceKm of
+ * each other without crossing are reported as tangent at their closest point
+ */
+export function intersectElements(
+  first: IntersectableElement,
+  second: IntersectableElement,
+  toleranceKm = DEFAULT_INTERSECTION_TOLERANCE_KM
+): IntersectionResult {
+  // Intersect curves against the implicit circle whenever one of the elements is a circle
+  const [curved, other] = second.type === 'circle' ? [first, second] : [second, first];
+  const candidates: IntersectionPoint[] = [];
+
+  for (const curve of elementCurves(curved)) {
+    if (other.type === 'circle') {
+      const result = curveCircleIntersections(curve, other.element, toleranceKm);
+      if (result.overlapping) {
+        return { points: [], overlapping: true };
+      }
+      candidates.push(...result.candidates);
+      continue;
+    }
+    for (const otherCurve of elementCurves(other)) {
+      const result = curveCurveIntersections(curve, otherCurve, toleranceKm);
+      if (result.overlapping) {
+        return { points: [], overlapping: true };
+      }
+      candidates.push(...result.candidates);
+    }
+  }
+
+  return { points: mergeCandidates(candidates, toleranceKm), overlapping: false };
+}
+
+export interface FoundIntersection extends IntersectionPoint {
+  elements: [IntersectableElement, IntersectableElement];
+  index: number; // Solution number between the two elements
+}
+
+export interface IntersectionCluster {
+  center: LatLon;
+  intersections: FoundIntersection[];
+  elements: IntersectableElement[]; // Distinct elements meeting in the cluster
+  spreadKm: number; // Farthest intersection from the center
+}
+
+/**
+ * Ends of the lines making up an element: line origins and endpoints, and polygon vertices
+ */
+function elementEnds(item: IntersectableElement): LatLon[] {
+  switch (item.type) {
+    case 'lineSegment': {
+      const segment = item.element;
+      if (segment.mode === 'parallel') return [];
+      return segment.endpoint ? [segment.center, segment.endpoint] : [segment.center];
+    }
+    case 'polygon': {
+      return item.element.points;
+    }
+    default: {
+      return [];
+    }
+  }
+}
+
+/**
+ * Whether a point is only where both elements end, e.g. the shared start of lines drawn from
+ * the same coordinate
+ */
+function isSharedEnd(
+  point: LatLon,
+  first: IntersectableElement,
+  second: IntersectableElement,
+  toleranceKm: number
+): boolean {
+  const endsAt = (item: IntersectableElement) =>
+    elementEnds(item).some((end) => geodesicDistance(point, end) <= toleranceKm);
+  return endsAt(first) && endsAt(second);
+}
+
+/**
+ * Every pairwise intersection among elements
+ * Overlapping pairs have no isolated solutions and are returned apart; points where both
+ * elements merely end are left out
+ */
+export function findAllIntersections(
+  elements: IntersectableElement[],
+  toleranceKm = DEFAULT_INTERSECTION_TOLERANCE_KM
+): {
+  intersections: FoundIntersection[];
+  overlapping: [IntersectableElement, IntersectableElement][];
+} {
+  const intersections: FoundIntersection[] = [];
+  const overlapping: [IntersectableElement, IntersectableElement][] = [];
+  for (const [i, first] of elements.entries()) {
+    for (const second of elements.slice(i + 1)) {
+      const result = intersectElements(first, second, toleranceKm);
+      if (result.overlapping) {
+        overlapping.push([first, second]);
+        continue;
+      }
+      const points = result.points.filter(
+        (point) => !isSharedEnd(point, first, second, toleranceKm)
+      );
+      for (const [index, point] of points.entries()) {
+        intersections.push({ ...point, elements: [first, second], index });
+      }
+    }
+  }
+  return { intersections, overlapping };
+}
+
+/**
+ * Group intersections chained within radiusKm of each other, most elements first
+ */
+export function clusterIntersections(
+  intersections: FoundIntersection[],
+  radiusKm: number
+): IntersectionCluster[] {
+  // Union-find over the pairs closer than the radius
+  const parent = intersections.map((_, i) => i);
+  const root = (i: number): number => {
+    let current = i;
+    while (parent[current] !== current) {
+      current = parent[current]!;
+    }
+    return current;
+  };
+  for (const [i, first] of intersections.entries()) {
+    for (let j = i + 1; j < intersections.length; j++) {
+      if (geodesicDistance(first, intersections[j]!) <= radiusKm) {
+        parent[root(j)] = root(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, FoundIntersection[]>();
+  for (const [i, intersection] of intersections.entries()) {
+    const group = groups.get(root(i)) ?? [];
+    group.push(intersection);
+    groups.set(root(i), group);
+  }
+
+  const clusters = [...groups.values()].map((group): IntersectionCluster => {
+    const center = {
+      lat: group.reduce((sum, p) => sum + p.lat, 0) / group.length,
+      lon: group.reduce((sum, p) => sum + p.lon, 0) / group.length,
+    };
+    const elements = new Map<string, IntersectableElement>();
+    for (const item of group.flatMap((intersection) => intersection.elements)) {
+      elements.set(`${item.type}_${item.element.id}`, item);
+    }
+    const spreadKm = Math.max(...group.map((p) => geodesicDistance(center, p)));
+    return { center, intersections: group, elements: [...elements.values()], spreadKm };
+  });
+
+  return clusters.toSorted(
+    (a, b) => b.elements.length - a.elements.length || a.spreadKm - b.spreadKm
+  );
+}
@@ -0,0 +1,945 @@
+/**
+ * KML service - Functions for generating and parsing KML/KMZ files (Google Earth, IGN croquis)
+ */
+
+import type { LatLon } from './geometry';
+import type {
+  ArcElement,
+  CircleElement,
+  LayerImportResult,
+  LineSegmentElement,
+  LocusElement,
+  NoteElement,
+  PointElement,
+  PolygonElement,
+  ProjectLayerData,
+  ZoneElement,
+} from './storage';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { v4 as uuidv4 } from 'uuid';
+import { arcShapeRings, isArcArea, isArcShape } from './arcShapes';
+import {
+  calculateDistance,
+  generateCircle,
+  generateLocus,
+  getLinePathType,
+  isLinePathType,
+  isLocusKind,
+} from './geometry';
+import { escapeXml, getLineSegmentTrackPoints } from './gpx';
+import { computeZone, isZoneOperation, parseZoneSources, zonePolygons } from './zones';
+
+export type KMLExportData = Pick<
+  ProjectLayerData,
+  'circles' | 'lineSegments' | 'points' | 'polygons' | 'arcs' | 'loci' | 'zones' | 'notes'
+>;
+
+type KMLElementKind = 'circle' | 'lineSegment' | 'point' | 'polygon' | 'arc' | 'locus' | 'zone';
+type KMLStyleKind = 'line' | 'circle' | 'polygon' | 'point';
+
+interface FolderNode {
+  placemarks: string[];
+  children: Map<string, FolderNode>;
+}
+
+interface KMLStyle {
+  line?: string;
+  poly?: string;
+  icon?: string;
+}
+
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2';
+const DEFAULT_COLOR = '#000000';
+const DEFAULT_POLYGON_COLOR = '#90EE90';
+const POLYGON_FILL_ALPHA = '4d'; // ~30% opacity, close to the map rendering
+const CIRCLE_VERTICES = 360;
+const GROUP_SEPARATOR = ' / ';
+const CLOSED_RING_TOLERANCE_KM = 0.001;
+
+/**
+ * Convert '#RRGGBB' to KML 'aabbggrr'
+ */
+function toKmlColor(hex: string, alpha = 'ff'): string {
+  const match = /^#?([\da-f]{2})([\da-f]{2})([\da-f]{2})/i.exec(hex);
+  if (!match) {
+    return `${alpha}000000`;
+  }
+  const [, r, g, b] = match;
+  return `${alpha}${b}${g}${r}`.toLowerCase();
+}
+
+/**
+ * Convert KML 'aabbggrr' to '#RRGGBB' (alpha is dropped)
+ */
+function fromKmlColor(kml: string | undefined): string | undefined {
+  const match = kml ? /^([\da-f]{2})([\da-f]{2})([\da-f]{2})([\da-f]{2})$/i.exec(kml.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+  const [b, g, r] = match.slice(2);
+  return `#${r}${g}${b}`.toUpperCase();
+}
+
+function coordinatesText(points: LatLon[]): string {
+  return points.map((p) => `${p.lon},${p.lat}`).join(' ');
+}
+
+function styleId(kind: KMLStyleKind, color: string): string {
+  return `${kind}-${color.replace('#', '').toLowerCase()}`;
+}
+
+function styleXml(kind: KMLStyleKind, color: string): string {
+  const id = styleId(kind, color);
+  if (kind === 'point') {
+    return `    <Style id="${id}">
+      <IconStyle><color>${toKmlColor(color)}</color></IconStyle>
+    </Style>
+`;
+  }
+  const fill =
+    kind === 'polygon'
+      ? `<PolyStyle><color>${toKmlColor(color, POLYGON_FILL_ALPHA)}</color></PolyStyle>`
+      : '<PolyStyle><fill>0</fill></PolyStyle>';
+  return `    <Style id="${id}">
+      <LineStyle><color>${toKmlColor(color)}</color><width>2</width></LineStyle>
+      ${fill}
+    </Style>
+`;
+}
+
+function extendedDataXml(data: Record<string, string | number | undefined>): string {
+  const entries = Object.entries(data).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `<ExtendedData>${entries
+    .map(
+      ([name, value]) => `<Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`
+    )
+    .join('')}</ExtendedData>`;
+}
+
+function placemarkXml(
+  name: string,
+  geometry: string,
+  style: string | undefined,
+  note: NoteElement | undefined,
+  data: Record<string, string | number | undefined>
+): string {
+  const parts = [`<name>${escapeXml(name)}</name>`];
+  if (note?.content) {
+    parts.push(`<description>${escapeXml(note.content)}</description>`);
+  }
+  if (style) {
+    parts.push(`<styleUrl>#${style}</styleUrl>`);
+  }
+  parts.push(extendedDataXml(data), geometry);
+  return `<Placemark>${parts.filter(Boolean).join('')}</Placemark>`;
+}
+
+function ringGeometry(points: LatLon[]): string {
+  return `<Polygon><outerBoundaryIs><LinearRing><coordinates>${coordinatesText(points)}</coordinates></LinearRing></outerBoundaryIs></Polygon>`;
+}
+
+/**
+ * Polygon from its outer ring followed by its holes
+ */
+function polygonGeometry([outer = [], ...holes]: LatLon[][]): string {
+  const inner = holes
+    .map(
+      (hole) =>
+        `<innerBoundaryIs><LinearRing><coordinates>${coordinatesText(hole)}</coordinates></LinearRing></innerBoundaryIs>`
+    )
+    .join('');
+  return `<Polygon><outerBoundaryIs><LinearRing><coordinates>${coordinatesText(outer)}</coordinates></LinearRing></outerBoundaryIs>${inner}</Polygon>`;
+}
+
+/**
+ * Polygon of an annulus or sector (with the hole of an annulus), or the line of an arc
+ */
+function arcGeometry(arc: ArcElement): string {
+  const rings = arcShapeRings(arc);
+  if (!isArcArea(arc)) {
+    return `<LineString><tessellate>1</tessellate><coordinates>${coordinatesText(rings[0] ?? [])}</coordinates></LineString>`;
+  }
+  return polygonGeometry(rings);
+}
+
+/**
+ * Computed area of a zone, a MultiGeometry when it falls apart in several polygons
+ */
+function zoneGeometry(zone: ZoneElement, data: KMLExportData): string {
+  const { geometry } = computeZone(zone, data);
+  const polygons = geometry ? zonePolygons(geometry).map((rings) => polygonGeometry(rings)) : [];
+  return polygons.length > 1
+    ? `<MultiGeometry>${polygons.join('')}</MultiGeometry>`
+    : (polygons[0] ?? '');
+}
+
+function renderFolder(node: FolderNode, indent: string): string {
+  let xml = '';
+  for (const placemark of node.placemarks) {
+    xml += `${indent}${placemark}
+`;
+  }
+  for (const [name, child] of node.children) {
+    xml += `${indent}<Folder>
+${indent}  <name>${escapeXml(name)}</name>
+${renderFolder(child, `${indent}  `)}${indent}</Folder>
+`;
+  }
+  return xml;
+}
+
+/**
+ * Generate a KML document with one Placemark per element
+ * Styles come from the element colour, linked notes become descriptions
+ * and groups become (nested) Folders
+ */
+export function generateKML(data: KMLExportData, documentName = 'GeoChase'): string {
+  const notesById = new Map(data.notes.map((note) => [note.id, note]));
+  const linkedNote = (element: { noteId?: string }) =>
+    element.noteId ? notesById.get(element.noteId) : undefined;
+
+  const styles = new Map<string, string>();
+  const useStyle = (kind: KMLStyleKind, color: string) => {
+    const id = styleId(kind, color);
+    if (!styles.has(id)) {
+      styles.set(id, styleXml(kind, color));
+    }
+    return id;
+  };
+
+  const root: FolderNode = { placemarks: [], children: new Map() };
+  const addToGroup = (group: string | undefined, placemark: string) => {
+    let node = root;
+    for (const name of group?.split(GROUP_SEPARATOR).filter(Boolean) ?? []) {
+      let child = node.children.get(name);
+      if (!child) {
+        child = { placemarks: [], children: new Map() };
+        node.children.set(name, child);
+      }
+      node = child;
+    }
+    node.placemarks.push(placemark);
+  };
+
+  for (const circle of data.circles) {
+    const points = generateCircle(
+      circle.center.lat,
+      circle.center.lon,
+      circle.radius,
+      CIRCLE_VERTICES
+    );
+    addToGroup(
+      circle.group,
+      placemarkXml(
+        circle.name,
+        ringGeometry(points),
+        useStyle('circle', circle.color || DEFAULT_COLOR),
+        linkedNote(circle),
+        {
+          geochaseKind: 'circle',
+          geochaseId: circle.id,
+          centerLat: circle.center.lat,
+          centerLon: circle.center.lon,
+          radiusKm: circle.radius,
+        }
+      )
+    );
+  }
+
+  for (const segment of data.lineSegments) {
+    const points = getLineSegmentTrackPoints(segment);
+    if (points.length < 2) {
+      continue;
+    }
+    addToGroup(
+      segment.group,
+      placemarkXml(
+        segment.name,
+        `<LineString><tessellate>1</tessellate><coordinates>${coordinatesText(points)}</coordinates></LineString>`,
+        useStyle('line', segment.color || DEFAULT_COLOR),
+        linkedNote(segment),
+        {
+          geochaseKind: 'lineSegment',
+          geochaseId: segment.id,
+          mode: segment.mode,
+          distanceKm: segment.distance,
+          azimuth: segment.azimuth,
+          intersectionLat: segment.intersectionPoint?.lat,
+          intersectionLon: segment.intersectionPoint?.lon,
+          intersectionDistanceKm: segment.intersectionDistance,
+          latitude: segment.mode === 'parallel' ? segment.longitude : undefined,
+          pathType: segment.mode === 'parallel' ? undefined : getLinePathType(segment),
+        }
+      )
+    );
+  }
+
+  for (const point of data.points) {
+    const { lat, lon } = point.coordinates;
+    const coordinates =
+      point.elevation === undefined ? `${lon},${lat}` : `${lon},${lat},${point.elevation}`;
+    addToGroup(
+      point.group,
+      placemarkXml(
+        point.name,
+        `<Point><coordinates>${coordinates}</coordinates></Point>`,
+        useStyle('point', point.color || DEFAULT_COLOR),
+        linkedNote(point),
+        { geochaseKind: 'point', geochaseId: point.id, elevation: point.elevation }
+      )
+    );
+  }
+
+  for (const polygon of data.polygons) {
+    const first = polygon.points[0];
+    if (!first) {
+      continue;
+    }
+    addToGroup(
+      polygon.group,
+      placemarkXml(
+        polygon.name,
+        ringGeometry([...polygon.points, first]),
+        useStyle('polygon', polygon.color || DEFAULT_POLYGON_COLOR),
+        linkedNote(polygon),
+        { geochaseKind: 'polygon', geochaseId: polygon.id }
+      )
+    );
+  }
+
+  for (const arc of data.arcs) {
+    addToGroup(
+      arc.group,
+      placemarkXml(
+        arc.name,
+        arcGeometry(arc),
+        useStyle(isArcArea(arc) ? 'polygon' : 'line', arc.color || DEFAULT_COLOR),
+        linkedNote(arc),
+        {
+          geochaseKind: 'arc',
+          geochaseId: arc.id,
+          shape: arc.shape,
+          centerLat: arc.center.lat,
+          centerLon: arc.center.lon,
+          radiusKm: arc.radius,
+          innerRadiusKm: arc.innerRadius,
+          startAzimuth: arc.startAzimuth,
+          endAzimuth: arc.endAzimuth,
+        }
+      )
+    );
+  }
+
+  for (const locus of data.loci) {
+    addToGroup(
+      locus.group,
+      placemarkXml(
+        locus.name,
+        `<LineString><tessellate>1</tessellate><coordinates>${coordinatesText(generateLocus(locus))}</coordinates></LineString>`,
+        useStyle('line', locus.color || DEFAULT_COLOR),
+        linkedNote(locus),
+        {
+          geochaseKind: 'locus',
+          geochaseId: locus.id,
+          locusKind: locus.kind,
+          firstFocusLat: locus.firstFocus.lat,
+          firstFocusLon: locus.firstFocus.lon,
+          secondFocusLat: locus.secondFocus.lat,
+          secondFocusLon: locus.secondFocus.lon,
+          constant: locus.constant,
+        }
+      )
+    );
+  }
+
+  for (const zone of data.zones) {
+    addToGroup(
+      zone.group,
+      placemarkXml(
+        zone.name,
+        zoneGeometry(zone, data),
+        useStyle('polygon', zone.color || DEFAULT_COLOR),
+        linkedNote(zone),
+        {
+          geochaseKind: 'zone',
+          geochaseId: zone.id,
+          operation: zone.operation,
+          zoneSources: JSON.stringify(zone.sources),
+        }
+      )
+    );
+  }
+
+  // Notes without a linked element become Placemarks without geometry
+  for (const note of data.notes.filter((n) => !n.linkedElementId)) {
+    root.placemarks.push(placemarkXml(note.title, '', undefined, note, { geochaseKind: 'note' }));
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="${KML_NAMESPACE}">
+  <Document>
+    <name>${escapeXml(documentName)}</name>
+${[...styles.values()].join('')}${renderFolder(root, '    ')}  </Document>
+</kml>`;
+}
+
+/**
+ * Zip a KML document into a KMZ archive
+ */
+export function generateKMZ(kml: string): Uint8Array {
+  return zipSync({ 'doc.kml': strToU8(kml) });
+}
+
+/**
+ * Download KML text or KMZ bytes to client
+ */
+export function downloadKML(content: string | Uint8Array, filename: string): void {
+  const isKmz = typeof content !== 'string';
+  const blob = new Blob([content as BlobPart], {
+    type: isKmz ? 'application/vnd.google-earth.kmz' : 'application/vnd.google-earth.kml+xml',
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.append(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+function childElement(parent: Element, localName: string): Element | undefined {
+  for (const child of parent.children) {
+    if (child.localName === localName) {
+      return child;
+    }
+  }
+  return undefined;
+}
+
+function childText(parent: Element, localName: string): string | undefined {
+  return childElement(parent, localName)?.textContent?.trim() || undefined;
+}
+
+/**
+ * Parse a KML coordinates string ("lon,lat[,alt] ...")
+ */
+function parseCoordinates(text: string | undefined): { point: LatLon; altitude?: number }[] {
+  const coordinates: { point: LatLon; altitude?: number }[] = [];
+  for (const tuple of text?.trim().split(/\s+/) ?? []) {
+    const [lon, lat, alt] = tuple.split(',').map((value) => Number.parseFloat(value));
+    if (lat === undefined || lon === undefined || Number.isNaN(lat) || Number.isNaN(lon)) {
+      continue;
+    }
+    coordinates.push({
+      point: { lat, lon },
+      altitude: alt === undefined || Number.isNaN(alt) ? undefined : alt,
+    });
+  }
+  return coordinates;
+}
+
+function readStyle(style: Element): KMLStyle {
+  const colorOf = (localName: string) => {
+    const substyle = childElement(style, localName);
+    return substyle ? fromKmlColor(childText(substyle, 'color')) : undefined;
+  };
+  return { line: colorOf('LineStyle'), poly: colorOf('PolyStyle'), icon: colorOf('IconStyle') };
+}
+
+/**
+ * Collect shared styles by id, resolving StyleMaps to their normal style
+ */
+function readStyles(doc: Document): Map<string, KMLStyle> {
+  const styles = new Map<string, KMLStyle>();
+  for (const style of doc.getElementsByTagNameNS('*', 'Style')) {
+    const id = style.getAttribute('id');
+    if (id) {
+      styles.set(id, readStyle(style));
+    }
+  }
+  for (const styleMap of doc.getElementsByTagNameNS('*', 'StyleMap')) {
+    const id = styleMap.getAttribute('id');
+    const normal = [...styleMap.getElementsByTagNameNS('*', 'Pair')].find(
+      (pair) => childText(pair, 'key') === 'normal'
+    );
+    const target = normal ? childText(normal, 'styleUrl')?.replace(/^#/, '') : undefined;
+    const style = target ? styles.get(target) : undefined;
+    if (id && style) {
+      styles.set(id, style);
+    }
+  }
+  return styles;
+}
+
+function readExtendedData(placemark: Element): Map<string, string> {
+  const data = new Map<string, string>();
+  const extendedData = childElement(placemark, 'ExtendedData');
+  if (!extendedData) {
+    return data;
+  }
+  for (const entry of extendedData.getElementsByTagNameNS('*', 'Data')) {
+    const name = entry.getAttribute('name');
+    const value = childText(entry, 'value');
+    if (name && value !== undefined) {
+      data.set(name, value);
+    }
+  }
+  for (const entry of extendedData.getElementsByTagNameNS('*', 'SimpleData')) {
+    const name = entry.getAttribute('name');
+    const value = entry.textContent?.trim();
+    if (name && value) {
+      data.set(name, value);
+    }
+  }
+  return data;
+}
+
+/**
+ * Collect Point, LineString and Polygon geometries, flattening MultiGeometry
+ */
+function collectGeometries(parent: Element, geometries: Element[] = []): Element[] {
+  for (const child of parent.children) {
+    if (['Point', 'LineString', 'Polygon', 'LinearRing'].includes(child.localName)) {
+      geometries.push(child);
+    } else if (child.localName === 'MultiGeometry') {
+      collectGeometries(child, geometries);
+    }
+  }
+  return geometries;
+}
+
+/**
+ * Descriptions may contain HTML (Google Earth balloons); keep only the text
+ */
+function descriptionText(placemark: Element): string | undefined {
+  const description = childText(placemark, 'description');
+  if (!description) {
+    return undefined;
+  }
+  if (!/<[a-z][\s\S]*>/i.test(description)) {
+    return description;
+  }
+  const html = new DOMParser().parseFromString(description, 'text/html');
+  return html.body.textContent?.trim() || undefined;
+}
+
+function isClosedRing(points: LatLon[]): boolean {
+  const first = points[0];
+  const last = points.at(-1);
+  if (!first || !last || points.length < 4) {
+    return false;
+  }
+  return calculateDistance(first.lat, first.lon, last.lat, last.lon) < CLOSED_RING_TOLERANCE_KM;
+}
+
+function numberData(data: Map<string, string>, name: string): number | undefined {
+  const value = Number.parseFloat(data.get(name) ?? '');
+  return Number.isNaN(value) ? undefined : value;
+}
+
+function resolveStyle(placemark: Element, styles: Map<string, KMLStyle>): KMLStyle {
+  const inline = childElement(placemark, 'Style');
+  if (inline) {
+    return readStyle(inline);
+  }
+  const url = childText(placemark, 'styleUrl')?.replace(/^.*#/, '');
+  return (url && styles.get(url)) || {};
+}
+
+/**
+ * Convert one Placemark into elements; its description becomes a note on the first one
+ */
+function readPlacemark(
+  placemark: Element,
+  group: string | undefined,
+  styles: Map<string, KMLStyle>,
+  result: LayerImportResult
+): void {
+  const name = childText(placemark, 'name') || 'Unnamed placemark';
+  const description = descriptionText(placemark);
+  const data = readExtendedData(placemark);
+  const style = resolveStyle(placemark, styles);
+  const geometries = collectGeometries(placemark);
+
+  const created: { type: KMLElementKind; id: string }[] = [];
+  // A zone is one element however many polygons its area has, or none when it is empty
+  const zone = data.get('geochaseKind') === 'zone' ? readZone(name, group, style, data) : null;
+  if (zone) {
+    result.zones.push(zone);
+    created.push({ type: 'zone', id: zone.id });
+  }
+  for (const [index, geometry] of zone ? [] : geometries.entries()) {
+    const partName = geometries.length > 1 ? `${name} (${index + 1}/${geometries.length})` : name;
+    // Only a single-geometry placemark can carry the original GeoChase id
+    const id = (geometries.length === 1 && data.get('geochaseId')) || uuidv4();
+    const element = readGeometry(geometry, partName, id, group, style, data, result);
+    if (element) {
+      created.push(element);
+    }
+  }
+
+  if (geometries.length === 0 && !zone && !description) {
+    result.warnings.push(`"${name}" has no supported geometry and was skipped`);
+    return;
+  }
+
+  if (description) {
+    const linked = created[0];
+    result.notes.push({
+      id: uuidv4(),
+      title: name,
+      content: description,
+      linkedElementType: linked?.type,
+      linkedElementId: linked?.id,
+    });
+  }
+}
+
+function readGeometry(
+  geometry: Element,
+  name: string,
+  id: string,
+  group: string | undefined,
+  style: KMLStyle,
+  data: Map<string, string>,
+  result: LayerImportResult
+): { type: KMLElementKind; id: string } | null {
+  const kind = data.get('geochaseKind');
+  if (kind === 'arc') {
+    const arc = readArc(name, id, group, style, data);
+    if (arc) {
+      result.arcs.push(arc);
+      return { type: 'arc', id };
+    }
+  }
+  if (kind === 'locus') {
+    const locus = readLocus(name, id, group, style, data);
+    if (locus) {
+      result.loci.push(locus);
+      return { type: 'locus', id };
+    }
+  }
+
+  switch (geometry.localName) {
+    case 'Point': {
+      const [coordinate] = parseCoordinates(childText(geometry, 'coordinates'));
+      if (!coordinate) {
+        return null;
+      }
+      // Altitude 0 is the KML default for clamped points, not a measured elevation
+      const elevation =
+        numberData(data, 'elevation') ??
+        (coordinate.altitude === 0 ? undefined : coordinate.altitude);
+      const point: PointElement = {
+        id,
+        name,
+        coordinates: coordinate.point,
+        elevation,
+        color: style.icon || DEFAULT_COLOR,
+        group,
+      };
+      result.points.push(point);
+      return { type: 'point', id };
+    }
+    case 'Polygon':
+    case 'LinearRing': {
+      const ring =
+        geometry.localName === 'Polygon'
+          ? geometry.getElementsByTagNameNS('*', 'outerBoundaryIs')[0]
+          : geometry;
+      const points = parseCoordinates(
+        ring?.getElementsByTagNameNS('*', 'coordinates')[0]?.textContent ?? ''
+      ).map((c) => c.point);
+
+      const centerLat = numberData(data, 'centerLat');
+      const centerLon = numberData(data, 'centerLon');
+      const radius = numberData(data, 'radiusKm');
+      if (
+        kind === 'circle' &&
+        centerLat !== undefined &&
+        centerLon !== undefined &&
+        radius !== undefined
+      ) {
+        const circle: CircleElement = {
+          id,
+          name,
+          center: { lat: centerLat, lon: centerLon },
+          radius,
+          color: style.line || DEFAULT_COLOR,
+          group,
+        };
+        result.circles.push(circle);
+        return { type: 'circle', id };
+      }
+
+      const vertices = isClosedRing(points) ? points.slice(0, -1) : points;
+      if (vertices.length < 3) {
+        result.warnings.push(`"${name}" has fewer than 3 vertices and was skipped`);
+        return null;
+      }
+      if (geometry.getElementsByTagNameNS('*', 'innerBoundaryIs').length > 0) {
+        result.warnings.push(`Holes in "${name}" were ignored`);
+      }
+      const polygon: PolygonElement = {
+        id,
+        name,
+        points: vertices,
+        color: style.poly || style.line || DEFAULT_POLYGON_COLOR,
+        group,
+      };
+      result.polygons.push(polygon);
+      return { type: 'polygon', id };
+    }
+    case 'LineString': {
+      const points = parseCoordinates(childText(geometry, 'coordinates')).map((c) => c.point);
+      return readLineString(points, name, id, group, style, data, result);
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+/**
+ * Rebuild an annulus, sector or arc from its construction parameters
+ */
+function readArc(
+  name: string,
+  id: string,
+  group: string | undefined,
+  style: KMLStyle,
+  data: Map<string, string>
+): ArcElement | null {
+  const shape = data.get('shape');
+  const centerLat = numberData(data, 'centerLat');
+  const centerLon = numberData(data, 'centerLon');
+  const radius = numberData(data, 'radiusKm');
+  if (!isArcShape(shape) || centerLat === undefined || centerLon === undefined || !radius) {
+    return null;
+  }
+  return {
+    id,
+    name,
+    shape,
+    center: { lat: centerLat, lon: centerLon },
+    radius,
+    innerRadius: numberData(data, 'innerRadiusKm'),
+    startAzimuth: numberData(data, 'startAzimuth'),
+    endAzimuth: numberData(data, 'endAzimuth'),
+    color: style.line || DEFAULT_COLOR,
+    group,
+  };
+}
+
+/**
+ * Rebuild an ellipse, hyperbola or Apollonius circle from its foci and constant
+ */
+function readLocus(
+  name: string,
+  id: string,
+  group: string | undefined,
+  style: KMLStyle,
+  data: Map<string, string>
+): LocusElement | null {
+  const kind = data.get('locusKind');
+  const firstLat = numberData(data, 'firstFocusLat');
+  const firstLon = numberData(data, 'firstFocusLon');
+  const secondLat = numberData(data, 'secondFocusLat');
+  const secondLon = numberData(data, 'secondFocusLon');
+  const constant = numberData(data, 'constant');
+  if (
+    !isLocusKind(kind) ||
+    firstLat === undefined ||
+    firstLon === undefined ||
+    secondLat === undefined ||
+    secondLon === undefined ||
+    constant === undefined
+  ) {
+    return null;
+  }
+  return {
+    id,
+    name,
+    kind,
+    firstFocus: { lat: firstLat, lon: firstLon },
+    secondFocus: { lat: secondLat, lon: secondLon },
+    constant,
+    color: style.line || DEFAULT_COLOR,
+    group,
+  };
+}
+
+/**
+ * Rebuild a zone from its operation and sources
+ */
+function readZone(
+  name: string,
+  group: string | undefined,
+  style: KMLStyle,
+  data: Map<string, string>
+): ZoneElement | null {
+  const operation = data.get('operation');
+  const sources = parseZoneSources(data.get('zoneSources'));
+  if (!isZoneOperation(operation) || sources.length === 0) {
+    return null;
+  }
+  return {
+    id: data.get('geochaseId') || uuidv4(),
+    name,
+    operation,
+    sources,
+    color: style.line || DEFAULT_COLOR,
+    group,
+  };
+}
+
+function readLineString(
+  points: LatLon[],
+  name: string,
+  id: string,
+  group: string | undefined,
+  style: KMLStyle,
+  data: Map<string, string>,
+  result: LayerImportResult
+): { type: KMLElementKind; id: string } | null {
+  const first = points[0];
+  const last = points.at(-1);
+  const color = style.line || DEFAULT_COLOR;
+
+  if (!first || !last || points.length < 2) {
+    result.warnings.push(`"${name}" has fewer than 2 points and was skipped`);
+    return null;
+  }
+
+  // Lines exported by this tool keep their construction parameters
+  const mode = data.get('mode') as LineSegmentElement['mode'] | undefined;
+  if (data.get('geochaseKind') === 'lineSegment' && mode) {
+    const latitude = numberData(data, 'latitude');
+    const intersectionLat = numberData(data, 'intersectionLat');
+    const intersectionLon = numberData(data, 'intersectionLon');
+    const pathType = data.get('pathType');
+    const segment: LineSegmentElement = {
+      id,
+      name,
+      center: mode === 'parallel' ? { lat: latitude ?? first.lat, lon: 0 } : first,
+      endpoint: mode === 'parallel' ? undefined : last,
+      mode,
+      distance: numberData(data, 'distanceKm'),
+      azimuth: numberData(data, 'azimuth'),
+      intersectionPoint:
+        intersectionLat !== undefined && intersectionLon !== undefined
+          ? { lat: intersectionLat, lon: intersectionLon }
+          : undefined,
+      intersectionDistance: numberData(data, 'intersectionDistanceKm'),
+      longitude: mode === 'parallel' ? (latitude ?? first.lat) : undefined,
+      pathType: isLinePathType(pathType) ? pathType : undefined,
+      color,
+      group,
+    };
+    result.lineSegments.push(segment);
+    return { type: 'lineSegment', id };
+  }
+
+  if (points.length === 2) {
+    result.lineSegments.push({
+      id,
+      name,
+      center: first,
+      endpoint: last,
+      mode: 'coordinate',
+      color,
+      group,
+    });
+    return { type: 'lineSegment', id };
+  }
+
+  if (isClosedRing(points)) {
+    result.polygons.push({ id, name, points: points.slice(0, -1), color, group });
+    return { type: 'polygon', id };
+  }
+
+  // Open polyline: one segment per leg, the first keeps the placemark id
+  for (let i = 0; i < points.length - 1; i++) {
+    result.lineSegments.push({
+      id: i === 0 ? id : uuidv4(),
+      name: `${name} (${i + 1}/${points.length - 1})`,
+      center: points[i]!,
+      endpoint: points[i + 1]!,
+      mode: 'coordinate',
+      color,
+      group,
+    });
+  }
+  result.warnings.push(`"${name}" was split into ${points.length - 1} line segments`);
+  return { type: 'lineSegment', id };
+}
+
+/**
+ * Parse KML content into layer elements
+ * Folders become groups (nested folders joined with " / ")
+ * @throws Error when the content is not a valid KML document
+ */
+export function parseKML(content: string): LayerImportResult {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  const root = doc.documentElement;
+
+  if (doc.querySelector('parsererror') || root?.localName !== 'kml') {
+    throw new Error('Invalid KML file');
+  }
+
+  const result: LayerImportResult = {
+    circles: [],
+    lineSegments: [],
+    points: [],
+    polygons: [],
+    arcs: [],
+    loci: [],
+    zones: [],
+    notes: [],
+    warnings: [],
+  };
+  const styles = readStyles(doc);
+
+  const walk = (container: Element, path: string[]) => {
+    for (const child of container.children) {
+      switch (child.localName) {
+        case 'Document': {
+          walk(child, path);
+          break;
+        }
+        case 'Folder': {
+          walk(child, [...path, childText(child, 'name') || 'Folder']);
+          break;
+        }
+        case 'Placemark': {
+          const group = path.length > 0 ? path.join(GROUP_SEPARATOR) : undefined;
+          readPlacemark(child, group, styles, result);
+          break;
+        }
+        // No default
+      }
+    }
+  };
+  walk(root, []);
+
+  return result;
+}
+
+/**
+ * Parse a KMZ archive (zipped KML, doc.kml preferred)
+ * @throws Error when the archive contains no KML document
+ */
+export function parseKMZ(data: ArrayBuffer | Uint8Array): LayerImportResult {
+  const files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const name = 'doc.kml' in files ? 'doc.kml' : Object.keys(files).find((f) => f.endsWith('.kml'));
+  const file = name ? files[name] : undefined;
+
+  if (!file) {
+    throw new Error('No KML document found in KMZ archive');
+  }
+  return parseKML(strFromU8(file));
+}
@@ -0,0 +1,536 @@
+/**
+ * Project schema service - Versioned project format, migrations and salvaging validation
+ */
+
+import type {
+  ArcElement,
+  CircleElement,
+  LineSegmentElement,
+  LocusElement,
+  NoteElement,
+  PointElement,
+  PolygonElement,
+  ProjectData,
+  ProjectLayerData,
+  SavedCoordinate,
+  ZoneElement,
+} from './storage';
+import { isArcShape } from './arcShapes';
+import { isLinePathType, isLocusKind } from './geometry';
+import { isZoneOperation, isZoneSourceType, ZONE_SOURCE_MODES } from './zones';
+
+/**
+ * Version written by exports and stamped on stored projects
+ * 1.0: ProjectData with optional polygons/notes/savedCoordinates arrays
+ * 2.0: every layer array is present and saved coordinates live in data.savedCoordinates
+ * 2.1: adds the arcs array (annuli, sectors and arcs)
+ * 2.2: adds the loci array (ellipses, hyperbolas and Apollonius circles)
+ * 2.3: adds the zones array (boolean combinations of other elements)
+ */
+export const CURRENT_PROJECT_VERSION = '2.3';
+
+// Files exported by the sidebar before projects were versioned (flat layers, no name)
+const LEGACY_VERSION = '0';
+
+export interface ProjectValidationIssue {
+  path: string; // e.g. "data.circles[3]"
+  message: string;
+}
+
+export interface ProjectParseResult {
+  project: ProjectData;
+  issues: ProjectValidationIssue[]; // Elements that were dropped or repaired
+  migratedFrom?: string; // Set when the input was older than CURRENT_PROJECT_VERSION
+}
+
+type RawObject = Record<string, any>;
+
+interface ProjectMigration {
+  from: string;
+  to: string;
+  migrate: (project: RawObject) => RawObject;
+}
+
+const LAYER_KEYS = ['circles', 'lineSegments', 'points', 'polygons', 'savedCoordinates', 'notes'];
+const LINE_MODES = new Set(['coordinate', 'azimuth', 'intersection', 'parallel']);
+const NOTE_LINK_TYPES = new Set([
+  'circle',
+  'lineSegment',
+  'point',
+  'polygon',
+  'arc',
+  'locus',
+  'zone',
+]);
+
+/**
+ * Ordered migration chain; each step upgrades a project from one version to the next
+ */
+const MIGRATIONS: ProjectMigration[] = [
+  {
+    from: LEGACY_VERSION,
+    to: '1.0',
+    migrate: (project) => ({
+      name: typeof project.name === 'string' ? project.name : 'Imported project',
+      data: {
+        circles: project.circles,
+        lineSegments: project.lineSegments,
+        points: project.points,
+        polygons: project.polygons,
+        notes: project.notes,
+        savedCoordinates: project.savedCoordinates ?? project.coordinates,
+      },
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+      version: '1.0',
+    }),
+  },
+  {
+    from: '1.0',
+    to: '2.0',
+    migrate: (project) => {
+      const data: RawObject = isObject(project.data) ? { ...project.data } : {};
+      // Some early exports named saved coordinates "coordinates"
+      data.savedCoordinates ??= data.coordinates;
+      delete data.coordinates;
+
+      for (const key of LAYER_KEYS) {
+        data[key] = Array.isArray(data[key]) ? data[key] : [];
+      }
+      return { ...project, data, version: '2.0' };
+    },
+  },
+  {
+    from: '2.0',
+    to: '2.1',
+    migrate: (project) => {
+      const data: RawObject = isObject(project.data) ? { ...project.data } : {};
+      data.arcs = Array.isArray(data.arcs) ? data.arcs : [];
+      return { ...project, data, version: '2.1' };
+    },
+  },
+  {
+    from: '2.1',
+    to: '2.2',
+    migrate: (project) => {
+      const data: RawObject = isObject(project.data) ? { ...project.data } : {};
+      data.loci = Array.isArray(data.loci) ? data.loci : [];
+      return { ...project, data, version: '2.2' };
+    },
+  },
+  {
+    from: '2.2',
+    to: '2.3',
+    migrate: (project) => {
+      const data: RawObject = isObject(project.data) ? { ...project.data } : {};
+      data.zones = Array.isArray(data.zones) ? data.zones : [];
+      return { ...project, data, version: '2.3' };
+    },
+  },
+];
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function toleranceError(value: unknown, field: string): string | null {
+  return value === undefined || (isFiniteNumber(value) && value >= 0)
+    ? null
+    : `${field} must be a non-negative number`;
+}
+
+function latLonError(value: unknown, field: string): string | null {
+  if (!isObject(value) || !isFiniteNumber(value.lat) || !isFiniteNumber(value.lon)) {
+    return `${field} must have numeric lat and lon`;
+  }
+  if (Math.abs(value.lat) > 90 || Math.abs(value.lon) > 180) {
+    return `${field} is out of range`;
+  }
+  return null;
+}
+
+function baseError(element: unknown): string | null {
+  if (!isObject(element)) {
+    return 'not an object';
+  }
+  if (typeof element.id !== 'string' || !element.id) {
+    return 'missing id';
+  }
+  if (typeof element.name !== 'string') {
+    return 'missing name';
+  }
+  return null;
+}
+
+/**
+ * Describe why a circle is malformed, or null when it is valid
+ */
+export function getCircleError(circle: unknown): string | null {
+  const error = baseError(circle);
+  if (error) {
+    return error;
+  }
+  const { center, radius, radiusTolerance } = circle as RawObject;
+  if (!isFiniteNumber(radius) || radius <= 0) {
+    return 'radius must be a positive number';
+  }
+  const toleranceIssue = toleranceError(radiusTolerance, 'radius tolerance');
+  if (toleranceIssue) {
+    return toleranceIssue;
+  }
+  return latLonError(center, 'center');
+}
+
+/**
+ * Describe why a line segment is malformed, or null when it is valid
+ */
+export function getLineSegmentError(segment: unknown): string | null {
+  const error = baseError(segment);
+  if (error) {
+    return error;
+  }
+  const { center, endpoint, mode, longitude, pathType, azimuthTolerance, distanceTolerance } =
+    segment as RawObject;
+  if (!LINE_MODES.has(mode)) {
+    return `unknown mode "${mode}"`;
+  }
+  if (pathType !== undefined && !isLinePathType(pathType)) {
+    return `unknown path type "${pathType}"`;
+  }
+  const toleranceIssue =
+    toleranceError(azimuthTolerance, 'azimuth tolerance') ??
+    toleranceError(distanceTolerance, 'distance tolerance');
+  if (toleranceIssue) {
+    return toleranceIssue;
+  }
+  const centerError = latLonError(center, 'center');
+  if (centerError) {
+    return centerError;
+  }
+  // Parallels only need their latitude (stored in longitude)
+  if (mode === 'parallel') {
+    return isFiniteNumber(longitude) ? null : 'parallel latitude must be a number';
+  }
+  return latLonError(endpoint, 'endpoint');
+}
+
+/**
+ * Describe why a point is malformed, or null when it is valid
+ */
+export function getPointError(point: unknown): string | null {
+  const error = baseError(point);
+  if (error) {
+    return error;
+  }
+  const { coordinates, elevation } = point as RawObject;
+  if (elevation !== undefined && elevation !== null && !isFiniteNumber(elevation)) {
+    return 'elevation must be a number';
+  }
+  return latLonError(coordinates, 'coordinates');
+}
+
+/**
+ * Describe why a polygon is malformed, or null when it is valid
+ */
+export function getPolygonError(polygon: unknown): string | null {
+  const error = baseError(polygon);
+  if (error) {
+    return error;
+  }
+  const { points } = polygon as RawObject;
+  if (!Array.isArray(points) || points.length < 3) {
+    return 'needs at least 3 vertices';
+  }
+  for (const [index, vertex] of points.entries()) {
+    const vertexError = latLonError(vertex, `vertex ${index}`);
+    if (vertexError) {
+      return vertexError;
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe why an annulus, sector or arc is malformed, or null when it is valid
+ */
+export function getArcError(arc: unknown): string | null {
+  const error = baseError(arc);
+  if (error) {
+    return error;
+  }
+  const { shape, center, radius, innerRadius, startAzimuth, endAzimuth } = arc as RawObject;
+  if (!isArcShape(shape)) {
+    return `unknown shape "${shape}"`;
+  }
+  if (!isFiniteNumber(radius) || radius <= 0) {
+    return 'radius must be a positive number';
+  }
+  if (shape === 'annulus') {
+    if (!isFiniteNumber(innerRadius) || innerRadius < 0 || innerRadius >= radius) {
+      return 'inner radius must be a non-negative number below the radius';
+    }
+  } else if (!isFiniteNumber(startAzimuth) || !isFiniteNumber(endAzimuth)) {
+    return 'start and end azimuths must be numbers';
+  }
+  return latLonError(center, 'center');
+}
+
+/**
+ * Describe why an ellipse, hyperbola or Apollonius circle is malformed, or null when it is valid
+ */
+export function getLocusError(locus: unknown): string | null {
+  const error = baseError(locus);
+  if (error) {
+    return error;
+  }
+  const { kind, firstFocus, secondFocus, constant } = locus as RawObject;
+  if (!isLocusKind(kind)) {
+    return `unknown kind "${kind}"`;
+  }
+  if (!isFiniteNumber(constant) || (kind === 'apollonius' && constant <= 0)) {
+    return kind === 'apollonius' ? 'ratio must be a positive number' : 'constant must be a number';
+  }
+  return latLonError(firstFocus, 'first focus') ?? latLonError(secondFocus, 'second focus');
+}
+
+/**
+ * Describe why a zone source is malformed, or null when it is valid
+ */
+function zoneSourceError(source: unknown, index: number): string | null {
+  if (!isObject(source)) {
+    return `source ${index} is not an object`;
+  }
+  const { type, id, mode, bufferKm } = source;
+  if (!isZoneSourceType(type)) {
+    return `source ${index} has unknown type "${type}"`;
+  }
+  if (typeof id !== 'string' || !id) {
+    return `source ${index} has no element id`;
+  }
+  if (!(ZONE_SOURCE_MODES[type] as unknown[]).includes(mode)) {
+    return `source ${index} has unsupported mode "${mode}"`;
+  }
+  if (mode === 'buffer' && !(isFiniteNumber(bufferKm) && bufferKm > 0)) {
+    return `source ${index} buffer must be a positive number`;
+  }
+  return null;
+}
+
+/**
+ * Describe why a zone is malformed, or null when it is valid
+ * Sources may point at deleted elements: the zone leaves them out when it is computed
+ */
+export function getZoneError(zone: unknown): string | null {
+  const error = baseError(zone);
+  if (error) {
+    return error;
+  }
+  const { operation, sources } = zone as RawObject;
+  if (!isZoneOperation(operation)) {
+    return `unknown operation "${operation}"`;
+  }
+  if (!Array.isArray(sources) || sources.length === 0) {
+    return 'sources must be a non-empty array';
+  }
+  for (const [index, source] of sources.entries()) {
+    const sourceError = zoneSourceError(source, index);
+    if (sourceError) {
+      return sourceError;
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe why a note is malformed, or null when it is valid
+ */
+export function getNoteError(note: unknown): string | null {
+  if (!isObject(note)) {
+    return 'not an object';
+  }
+  if (typeof note.id !== 'string' || !note.id) {
+    return 'missing id';
+  }
+  if (typeof note.title !== 'string' || typeof note.content !== 'string') {
+    return 'title and content must be text';
+  }
+  if (note.linkedElementType !== undefined && !NOTE_LINK_TYPES.has(note.linkedElementType)) {
+    return `unknown linked element type "${note.linkedElementType}"`;
+  }
+  return null;
+}
+
+function getSavedCoordinateError(coordinate: unknown): string | null {
+  const error = baseError(coordinate);
+  if (error) {
+    return error;
+  }
+  return latLonError(coordinate, 'coordinate');
+}
+
+/**
+ * Detect the version of a raw project; unversioned files are either stored projects (1.0)
+ * or flat legacy exports
+ */
+function detectVersion(project: RawObject): string {
+  if (typeof project.version === 'string') {
+    return project.version;
+  }
+  return isObject(project.data) ? '1.0' : LEGACY_VERSION;
+}
+
+/**
+ * Run the migration chain until the project reaches CURRENT_PROJECT_VERSION
+ * @throws Error when the input is not a project or comes from a newer app version
+ */
+export function migrateProject(raw: unknown): { project: RawObject; fromVersion: string } {
+  if (!isObject(raw)) {
+    throw new Error('Project file must contain a JSON object');
+  }
+
+  const fromVersion = detectVersion(raw);
+  if (fromVersion === LEGACY_VERSION && ![...LAYER_KEYS, 'coordinates'].some((key) => key in raw)) {
+    throw new Error('File does not contain a GeoChase project');
+  }
+
+  let project = raw;
+  let version = fromVersion;
+
+  while (version !== CURRENT_PROJECT_VERSION) {
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`Unsupported project version "${version}"`);
+    }
+    project = migration.migrate(project);
+    version = migration.to;
+  }
+
+  return { project, fromVersion };
+}
+
+/**
+ * Keep the valid elements of a migrated project and report every malformed one
+ */
+export function validateProject(project: RawObject): {
+  project: ProjectData;
+  issues: ProjectValidationIssue[];
+} {
+  const issues: ProjectValidationIssue[] = [];
+  const data: RawObject = isObject(project.data) ? project.data : {};
+
+  function salvage<T>(key: string, getError: (element: unknown) => string | null): T[] {
+    const elements: unknown[] = Array.isArray(data[key]) ? data[key] : [];
+    const seenIds = new Set<string>();
+    return elements.filter((element, index): element is T => {
+      const error =
+        getError(element) ?? (seenIds.has((element as RawObject).id) ? 'duplicate id' : null);
+      if (error) {
+        issues.push({ path: `data.${key}[${index}]`, message: error });
+        return false;
+      }
+      seenIds.add((element as RawObject).id);
+      return true;
+    });
+  }
+
+  const layers: ProjectLayerData = {
+    circles: salvage<CircleElement>('circles', getCircleError),
+    lineSegments: salvage<LineSegmentElement>('lineSegments', getLineSegmentError),
+    points: salvage<PointElement>('points', getPointError),
+    polygons: salvage<PolygonElement>('polygons', getPolygonError),
+    arcs: salvage<ArcElement>('arcs', getArcError),
+    loci: salvage<LocusElement>('loci', getLocusError),
+    zones: salvage<ZoneElement>('zones', getZoneError),
+    savedCoordinates: salvage<SavedCoordinate>('savedCoordinates', getSavedCoordinateError),
+    notes: salvage<NoteElement>('notes', getNoteError),
+  };
+
+  repairNoteLinks(layers, issues);
+
+  let name = typeof project.name === 'string' ? project.name.trim() : '';
+  if (!name) {
+    issues.push({ path: 'name', message: 'missing project name' });
+    name = 'Imported project';
+  }
+
+  return {
+    project: {
+      id: typeof project.id === 'string' ? project.id : undefined,
+      name,
+      data: layers,
+      settings: isObject(project.settings) ? project.settings : undefined,
+      createdAt: isFiniteNumber(project.createdAt) ? project.createdAt : undefined,
+      updatedAt: isFiniteNumber(project.updatedAt) ? project.updatedAt : undefined,
+      version: CURRENT_PROJECT_VERSION,
+    },
+    issues,
+  };
+}
+
+/**
+ * Drop note links that point to elements or notes that were not kept
+ */
+function repairNoteLinks(layers: ProjectLayerData, issues: ProjectValidationIssue[]): void {
+  const elementKeys = {
+    circle: 'circles',
+    lineSegment: 'lineSegments',
+    point: 'points',
+    polygon: 'polygons',
+    arc: 'arcs',
+    locus: 'loci',
+    zone: 'zones',
+  } as const;
+  const noteIds = new Set(layers.notes.map((note) => note.id));
+
+  for (const [type, key] of Object.entries(elementKeys)) {
+    for (const [index, element] of layers[key].entries()) {
+      if (element.noteId && !noteIds.has(element.noteId)) {
+        issues.push({ path: `data.${key}[${index}].noteId`, message: 'linked note not found' });
+        element.noteId = undefined;
+      }
+    }
+
+    const elementIds = new Set(layers[key].map((element) => element.id));
+    for (const [index, note] of layers.notes.entries()) {
+      if (
+        note.linkedElementType === type &&
+        note.linkedElementId &&
+        !elementIds.has(note.linkedElementId)
+      ) {
+        issues.push({ path: `data.notes[${index}]`, message: 'linked element not found' });
+        note.linkedElementType = undefined;
+        note.linkedElementId = undefined;
+      }
+    }
+  }
+}
+
+/**
+ * Migrate and validate any supported project payload (stored project or exported file)
+ * @throws Error when nothing can be salvaged
+ */
+export function parseProject(raw: unknown): ProjectParseResult {
+  const { project, fromVersion } = migrateProject(raw);
+  const { project: validated, issues } = validateProject(project);
+  return {
+    project: validated,
+    issues,
+    migratedFrom: fromVersion === CURRENT_PROJECT_VERSION ? undefined : fromVersion,
+  };
+}
+
+/**
+ * One-line human summary of validation issues for toasts
+ */
+export function summarizeIssues(issues: ProjectValidationIssue[]): string {
+  const [first] = issues;
+  if (!first) {
+    return '';
+  }
+  const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+  return `${first.path}: ${first.message}${more}`;
+}
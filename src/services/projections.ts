@@ -0,0 +1,490 @@
+/**
+ * Projections - Conversions between latitude/longitude and projected metres
+ *
+ * UTM uses Krüger's series on the WGS84 ellipsoid (sub-millimetre within a zone); MGRS is read
+ * and written through UTM. Lambert 93 is the French conformal conic projection on GRS80, whose
+ * RGF93 datum matches WGS84 to a few centimetres. Lambert zones I to IV and II étendu are on the
+ * older NTF datum, with the Paris meridian as origin.
+ *
+ * NTF is reached from WGS84 with a Helmert transformation using the IGN parameters, good to a few
+ * metres over France; IGN's gr3df97a grid, which refines this to a few centimetres, is not bundled.
+ */
+
+import type { LatLon } from './geometry';
+
+export type UTMHemisphere = 'north' | 'south';
+
+export interface UTMCoordinate {
+  zone: number; // 1-60
+  hemisphere: UTMHemisphere;
+  easting: number; // m
+  northing: number; // m
+}
+
+export type LambertProjectionId = 'lambert93' | 'lambert1' | 'lambert2e' | 'lambert3' | 'lambert4';
+
+export type GeodeticDatum = 'wgs84' | 'ntf';
+
+export interface MGRSCoordinate {
+  zone: number;
+  band: string; // Latitude band letter
+  square: string; // 100 km square letters, column then row
+  easting: number; // m within the square
+  northing: number; // m within the square
+}
+
+interface Ellipsoid {
+  a: number; // Semi-major axis, m
+  f: number; // Flattening
+}
+
+/**
+ * Seven-parameter Helmert transformation, position vector convention
+ */
+interface Helmert {
+  translation: [number, number, number]; // m
+  rotation: [number, number, number]; // Arc seconds
+  scale: number; // Parts per million
+}
+
+interface LambertParameters {
+  label: string;
+  ellipsoid: Ellipsoid;
+  longitude0: number; // Central meridian, degrees
+  latitude0: number; // Latitude of origin, degrees
+  parallel1: number; // Standard parallels, degrees
+  parallel2: number;
+  x0: number; // False easting, m
+  y0: number; // False northing, m
+  toWGS84?: Helmert; // From the projection's datum, when it is not WGS84
+}
+
+const WGS84: Ellipsoid = { a: 6_378_137, f: 1 / 298.257_223_563 };
+const GRS80: Ellipsoid = { a: 6_378_137, f: 1 / 298.257_222_101 };
+const CLARKE_1880_IGN: Ellipsoid = { a: 6_378_249.2, f: 1 / 293.466_021_3 };
+
+export const PARIS_MERIDIAN = 2 + 20 / 60 + 14.025 / 3600; // Degrees east of Greenwich
+export const DEGREES_PER_GRAD = 0.9;
+
+// IGN parameters from NTF to WGS84: a translation only
+const NTF_TO_WGS84: Helmert = { translation: [-168, -60, 320], rotation: [0, 0, 0], scale: 0 };
+
+export const GEODETIC_DATUMS: Record<
+  GeodeticDatum,
+  { label: string; ellipsoid: Ellipsoid; toWGS84?: Helmert }
+> = {
+  wgs84: { label: 'WGS84', ellipsoid: WGS84 },
+  ntf: { label: 'NTF', ellipsoid: CLARKE_1880_IGN, toWGS84: NTF_TO_WGS84 },
+};
+
+/**
+ * Longitude from Greenwich of one counted from the Paris meridian
+ */
+export function fromParisMeridian(longitude: number): number {
+  const value = longitude + PARIS_MERIDIAN;
+  return value > 180 ? value - 360 : value;
+}
+
+/**
+ * Longitude counted from the Paris meridian of one from Greenwich
+ */
+export function toParisMeridian(longitude: number): number {
+  const value = longitude - PARIS_MERIDIAN;
+  return value < -180 ? value + 360 : value;
+}
+
+function grads(value: number): number {
+  return value * DEGREES_PER_GRAD;
+}
+
+function dms(degrees: number, minutes: number, seconds: number): number {
+  return degrees + minutes / 60 + seconds / 3600;
+}
+
+export const LAMBERT_PROJECTIONS: Record<LambertProjectionId, LambertParameters> = {
+  lambert93: {
+    label: 'Lambert 93',
+    ellipsoid: GRS80,
+    longitude0: 3,
+    latitude0: 46.5,
+    parallel1: 44,
+    parallel2: 49,
+    x0: 700_000,
+    y0: 6_600_000,
+  },
+  // NTF zones, with the false northings of their "carto" form that start with the zone number
+  lambert1: {
+    label: 'Lambert I',
+    ellipsoid: CLARKE_1880_IGN,
+    longitude0: PARIS_MERIDIAN,
+    latitude0: grads(55),
+    parallel1: dms(48, 35, 54.682),
+    parallel2: dms(50, 23, 45.282),
+    x0: 600_000,
+    y0: 1_200_000,
+    toWGS84: NTF_TO_WGS84,
+  },
+  // Zone II extended to the whole of France
+  lambert2e: {
+    label: 'Lambert II étendu',
+    ellipsoid: CLARKE_1880_IGN,
+    longitude0: PARIS_MERIDIAN,
+    latitude0: grads(52),
+    parallel1: dms(45, 53, 56.108),
+    parallel2: dms(47, 41, 45.652),
+    x0: 600_000,
+    y0: 2_200_000,
+    toWGS84: NTF_TO_WGS84,
+  },
+  lambert3: {
+    label: 'Lambert III',
+    ellipsoid: CLARKE_1880_IGN,
+    longitude0: PARIS_MERIDIAN,
+    latitude0: grads(49),
+    parallel1: dms(43, 11, 57.449),
+    parallel2: dms(44, 59, 45.938),
+    x0: 600_000,
+    y0: 3_200_000,
+    toWGS84: NTF_TO_WGS84,
+  },
+  // Corsica
+  lambert4: {
+    label: 'Lambert IV',
+    ellipsoid: CLARKE_1880_IGN,
+    longitude0: PARIS_MERIDIAN,
+    latitude0: grads(46.85),
+    parallel1: dms(41, 33, 37.396),
+    parallel2: dms(42, 46, 3.588),
+    x0: 234.358,
+    y0: 4_185_861.369,
+    toWGS84: NTF_TO_WGS84,
+  },
+};
+
+const UTM_SCALE = 0.9996;
+const UTM_FALSE_EASTING = 500_000;
+const UTM_FALSE_NORTHING_SOUTH = 10_000_000;
+const MGRS_BANDS = 'CDEFGHJKLMNPQRSTUVWX'; // 8° latitude bands from 80°S, X spanning 12°
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROWS = 'ABCDEFGHJKLMNPQRSTUV';
+const MGRS_NORTHING_CYCLE = 2_000_000; // Row letters repeat every 2000 km
+const MGRS_BAND_MARGIN = 100_000; // Northings of a band reach below its edge away from the meridian
+const LAMBERT_ITERATIONS = 20;
+const GEOCENTRIC_ITERATIONS = 10;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * Coefficients of Krüger's series to the third order of the third flattening
+ */
+function krugerSeries({ a, f }: Ellipsoid) {
+  const n = f / (2 - f);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  return {
+    n,
+    radius: (a / (1 + n)) * (1 + n2 / 4 + (n2 * n2) / 64), // Rectifying radius
+    alpha: [n / 2 - (2 * n2) / 3 + (5 * n3) / 16, (13 * n2) / 48 - (3 * n3) / 5, (61 * n3) / 240],
+    beta: [n / 2 - (2 * n2) / 3 + (37 * n3) / 96, n2 / 48 + n3 / 15, (17 * n3) / 480],
+    delta: [2 * n - (2 * n2) / 3 - 2 * n3, (7 * n2) / 3 - (8 * n3) / 5, (56 * n3) / 15],
+  };
+}
+
+const UTM_SERIES = krugerSeries(WGS84);
+
+export function utmCentralMeridian(zone: number): number {
+  return zone * 6 - 183;
+}
+
+/**
+ * UTM zone of a position, with the Norway and Svalbard exceptions
+ */
+export function utmZone(lat: number, lon: number): number {
+  const normalized = ((((lon + 180) % 360) + 360) % 360) - 180;
+  let zone = Math.min(60, Math.floor((normalized + 180) / 6) + 1);
+  if (lat >= 56 && lat < 64 && normalized >= 3 && normalized < 12) {
+    zone = 32;
+  } else if (lat >= 72 && lat < 84 && normalized >= 0 && normalized < 42) {
+    zone = normalized < 9 ? 31 : normalized < 21 ? 33 : normalized < 33 ? 35 : 37;
+  }
+  return zone;
+}
+
+/**
+ * Project a position in a UTM zone, by default the zone it lies in
+ */
+export function latLonToUTM(lat: number, lon: number, zone = utmZone(lat, lon)): UTMCoordinate {
+  const { n, radius, alpha } = UTM_SERIES;
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon - utmCentralMeridian(zone));
+  const c = (2 * Math.sqrt(n)) / (1 + n);
+  const t = Math.sinh(Math.atanh(Math.sin(phi)) - c * Math.atanh(c * Math.sin(phi)));
+  const xi = Math.atan2(t, Math.cos(lambda));
+  const eta = Math.atanh(Math.sin(lambda) / Math.sqrt(1 + t * t));
+
+  let easting = eta;
+  let northing = xi;
+  for (const [index, coefficient] of alpha.entries()) {
+    const j = 2 * (index + 1);
+    easting += coefficient * Math.cos(j * xi) * Math.sinh(j * eta);
+    northing += coefficient * Math.sin(j * xi) * Math.cosh(j * eta);
+  }
+
+  const hemisphere: UTMHemisphere = lat < 0 ? 'south' : 'north';
+  return {
+    zone,
+    hemisphere,
+    easting: UTM_FALSE_EASTING + UTM_SCALE * radius * easting,
+    northing:
+      (hemisphere === 'south' ? UTM_FALSE_NORTHING_SOUTH : 0) + UTM_SCALE * radius * northing,
+  };
+}
+
+export function utmToLatLon({ zone, hemisphere, easting, northing }: UTMCoordinate): LatLon {
+  const { radius, beta, delta } = UTM_SERIES;
+  const xi =
+    (northing - (hemisphere === 'south' ? UTM_FALSE_NORTHING_SOUTH : 0)) / (UTM_SCALE * radius);
+  const eta = (easting - UTM_FALSE_EASTING) / (UTM_SCALE * radius);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  for (const [index, coefficient] of beta.entries()) {
+    const j = 2 * (index + 1);
+    xiPrime -= coefficient * Math.sin(j * xi) * Math.cosh(j * eta);
+    etaPrime -= coefficient * Math.cos(j * xi) * Math.sinh(j * eta);
+  }
+
+  const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+  let phi = chi;
+  for (const [index, coefficient] of delta.entries()) {
+    phi += coefficient * Math.sin(2 * (index + 1) * chi);
+  }
+
+  return {
+    lat: toDegrees(phi),
+    lon: utmCentralMeridian(zone) + toDegrees(Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime))),
+  };
+}
+
+export function isMGRSBand(letter: string): boolean {
+  return letter.length === 1 && MGRS_BANDS.includes(letter);
+}
+
+/**
+ * Hemisphere of an MGRS latitude band letter
+ */
+export function mgrsBandHemisphere(band: string): UTMHemisphere {
+  return band >= 'N' ? 'north' : 'south';
+}
+
+/**
+ * Southern edge of an MGRS latitude band, in degrees
+ */
+export function mgrsBandLatitude(band: string): number {
+  return -80 + MGRS_BANDS.indexOf(band) * 8;
+}
+
+/**
+ * MGRS latitude band of a position, from C at 80°S to X up to 84°N
+ */
+export function mgrsBand(lat: number): string {
+  const index = Math.floor((Math.min(Math.max(lat, -80), 84) + 80) / 8);
+  return MGRS_BANDS[Math.min(index, MGRS_BANDS.length - 1)]!;
+}
+
+/**
+ * MGRS reference of a position, in the UTM zone it lies in
+ */
+export function latLonToMGRS(lat: number, lon: number): MGRSCoordinate {
+  const { zone, easting, northing } = latLonToUTM(lat, lon);
+  const column = Math.floor(easting / 100_000) - 1;
+  const row = Math.floor(northing / 100_000) + (zone % 2 === 0 ? 5 : 0);
+  return {
+    zone,
+    band: mgrsBand(lat),
+    square: `${MGRS_COLUMN_SETS[(zone - 1) % 3]![column] ?? '?'}${MGRS_ROWS[row % MGRS_ROWS.length]}`,
+    easting: easting % 100_000,
+    northing: northing % 100_000,
+  };
+}
+
+/**
+ * Read an MGRS reference given as its parts, e.g. (31, 'T', 'GJ', '52000', '85000')
+ * The square letters only give the northing modulo 2000 km; the band picks the right cycle.
+ * Returns null when the letters do not exist in that zone
+ */
+export function mgrsToUTM(
+  zone: number,
+  band: string,
+  square: string,
+  easting: string,
+  northing: string
+): UTMCoordinate | null {
+  const column = MGRS_COLUMN_SETS[(zone - 1) % 3]!.indexOf(square[0] ?? '');
+  const rowLetter = MGRS_ROWS.indexOf(square[1] ?? '');
+  if (
+    !isMGRSBand(band) ||
+    column === -1 ||
+    rowLetter === -1 ||
+    easting.length !== northing.length
+  ) {
+    return null;
+  }
+  // Even zones start their rows five letters further
+  const row = (rowLetter - (zone % 2 === 0 ? 5 : 0) + MGRS_ROWS.length) % MGRS_ROWS.length;
+
+  const scale = 10 ** (5 - easting.length);
+  const x = (column + 1) * 100_000 + Number(easting || 0) * scale;
+  const y = row * 100_000 + Number(northing || 0) * scale;
+
+  const bandEdge = latLonToUTM(mgrsBandLatitude(band), utmCentralMeridian(zone), zone);
+  const lowest = bandEdge.northing - MGRS_BAND_MARGIN;
+  const cycles = Math.max(0, Math.ceil((lowest - y) / MGRS_NORTHING_CYCLE));
+  return {
+    zone,
+    hemisphere: mgrsBandHemisphere(band),
+    easting: x,
+    northing: y + cycles * MGRS_NORTHING_CYCLE,
+  };
+}
+
+function toGeocentric(lat: number, lon: number, { a, f }: Ellipsoid): [number, number, number] {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon);
+  const e2 = f * (2 - f);
+  const nu = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  return [
+    nu * Math.cos(phi) * Math.cos(lambda),
+    nu * Math.cos(phi) * Math.sin(lambda),
+    nu * (1 - e2) * Math.sin(phi),
+  ];
+}
+
+function fromGeocentric([x, y, z]: [number, number, number], { a, f }: Ellipsoid): LatLon {
+  const e2 = f * (2 - f);
+  const p = Math.hypot(x, y);
+  let phi = Math.atan2(z, p * (1 - e2));
+  for (let i = 0; i < GEOCENTRIC_ITERATIONS; i++) {
+    const nu = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    phi = Math.atan2(z + e2 * nu * Math.sin(phi), p);
+  }
+  return { lat: toDegrees(phi), lon: toDegrees(Math.atan2(y, x)) };
+}
+
+/**
+ * Move a position between datums, heights taken as zero
+ * The inverse transformation negates every parameter, exact for a translation
+ */
+function shiftDatum(
+  position: LatLon,
+  from: Ellipsoid,
+  to: Ellipsoid,
+  { translation, rotation, scale }: Helmert,
+  inverse = false
+): LatLon {
+  const sign = inverse ? -1 : 1;
+  const [tx, ty, tz] = translation.map((t) => sign * t) as [number, number, number];
+  const [rx, ry, rz] = rotation.map((r) => (sign * toRadians(r)) / 3600) as [
+    number,
+    number,
+    number,
+  ];
+  const m = 1 + (sign * scale) / 1e6;
+  const [x, y, z] = toGeocentric(position.lat, position.lon, from);
+  return fromGeocentric(
+    [
+      tx + m * (x - rz * y + ry * z),
+      ty + m * (rz * x + y - rx * z),
+      tz + m * (-ry * x + rx * y + z),
+    ],
+    to
+  );
+}
+
+/**
+ * Position on a datum, from WGS84
+ */
+export function fromWGS84(position: LatLon, datum: GeodeticDatum): LatLon {
+  const { ellipsoid, toWGS84 } = GEODETIC_DATUMS[datum];
+  return toWGS84 ? shiftDatum(position, WGS84, ellipsoid, toWGS84, true) : position;
+}
+
+/**
+ * Position on WGS84, from a datum
+ */
+export function toWGS84(position: LatLon, datum: GeodeticDatum): LatLon {
+  const { ellipsoid, toWGS84: helmert } = GEODETIC_DATUMS[datum];
+  return helmert ? shiftDatum(position, ellipsoid, WGS84, helmert) : position;
+}
+
+/**
+ * Isometric latitude terms of the Lambert projection
+ */
+function lambertT(phi: number, e: number): number {
+  const sin = e * Math.sin(phi);
+  return Math.tan(Math.PI / 4 - phi / 2) / ((1 - sin) / (1 + sin)) ** (e / 2);
+}
+
+function lambertConstants(projection: LambertParameters) {
+  const { a, f } = projection.ellipsoid;
+  const e = Math.sqrt(f * (2 - f));
+  const m = (phi: number) => Math.cos(phi) / Math.sqrt(1 - (e * Math.sin(phi)) ** 2);
+  const phi1 = toRadians(projection.parallel1);
+  const phi2 = toRadians(projection.parallel2);
+  const n =
+    (Math.log(m(phi1)) - Math.log(m(phi2))) /
+    (Math.log(lambertT(phi1, e)) - Math.log(lambertT(phi2, e)));
+  const scale = (a * m(phi1)) / (n * lambertT(phi1, e) ** n);
+  const rho0 = scale * lambertT(toRadians(projection.latitude0), e) ** n;
+  return { e, n, scale, rho0 };
+}
+
+export function latLonToLambert(
+  lat: number,
+  lon: number,
+  id: LambertProjectionId
+): { x: number; y: number } {
+  const projection = LAMBERT_PROJECTIONS[id];
+  const { e, n, scale, rho0 } = lambertConstants(projection);
+  const local = projection.toWGS84
+    ? shiftDatum({ lat, lon }, WGS84, projection.ellipsoid, projection.toWGS84, true)
+    : { lat, lon };
+  const rho = scale * lambertT(toRadians(local.lat), e) ** n;
+  const theta = n * toRadians(local.lon - projection.longitude0);
+  return {
+    x: projection.x0 + rho * Math.sin(theta),
+    y: projection.y0 + rho0 - rho * Math.cos(theta),
+  };
+}
+
+export function lambertToLatLon(x: number, y: number, id: LambertProjectionId): LatLon {
+  const projection = LAMBERT_PROJECTIONS[id];
+  const { e, n, scale, rho0 } = lambertConstants(projection);
+  const dx = x - projection.x0;
+  const dy = rho0 - (y - projection.y0);
+  const rho = Math.sign(n) * Math.hypot(dx, dy);
+  const theta = Math.atan2(Math.sign(n) * dx, Math.sign(n) * dy);
+  const t = (rho / scale) ** (1 / n);
+
+  let phi = Math.PI / 2 - 2 * Math.atan(t);
+  for (let i = 0; i < LAMBERT_ITERATIONS; i++) {
+    const sin = e * Math.sin(phi);
+    const next = Math.PI / 2 - 2 * Math.atan(t * ((1 - sin) / (1 + sin)) ** (e / 2));
+    if (Math.abs(next - phi) < 1e-12) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+
+  const local = { lat: toDegrees(phi), lon: projection.longitude0 + toDegrees(theta / n) };
+  return projection.toWGS84
+    ? shiftDatum(local, projection.ellipsoid, WGS84, projection.toWGS84)
+    : local;
+}
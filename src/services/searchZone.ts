@@ -3,6 +3,7 @@
  * Creates and displays a buffer zone around a path on the map
  */
 
+import type { MultiPolygon, Polygon } from 'geojson';
 import type L from 'leaflet';
 import * as turf from '@turf/turf';
 
@@ -11,12 +12,14 @@ import * as turf from '@turf/turf';
  * @param mapContainer Map container with Leaflet map instance
  * @param pathPoints Array of lat/lon points defining the path
  * @param bufferDistanceKm Buffer distance in kilometers
+ * @param zone Optional tolerance zone or zone element area, buffered and outlined instead of the path
  * @returns Leaflet FeatureGroup containing the search zone visualization
  */
 export function createSearchZoneLayer(
   mapContainer: any,
   pathPoints: Array<{ lat: number; lon: number }>,
-  bufferDistanceKm: number
+  bufferDistanceKm: number,
+  zone?: Polygon | MultiPolygon
 ): L.FeatureGroup {
   // Get the actual map instance (handle both ref and direct access)
   const mapInstance = mapContainer.map?.value || mapContainer.map;
@@ -44,7 +47,11 @@ export function createSearchZoneLayer(
     let geometry;
     let pathGeometry;
 
-    if (pathPoints.length === 1) {
+    if (zone) {
+      // Tolerance zones and zone elements are searched as a whole, so buffer the area itself
+      geometry = turf.feature(zone);
+      pathGeometry = turf.feature(zone);
+    } else if (pathPoints.length === 1) {
       // For single point, use Point geometry
       geometry = turf.point(coordinates[0]!);
       pathGeometry = turf.point(coordinates[0]!);
@@ -92,6 +99,7 @@ export function createSearchZoneLayer(
         weight: 3,
         opacity: 0.8,
         dashArray: '0',
+        fill: false,
       },
     });
 
@@ -0,0 +1,134 @@
+/**
+ * Snapshots service - Point-in-time copies of a project's layers and the diff between two copies
+ */
+
+import type { ProjectLayerData } from './storage';
+import { v4 as uuidv4 } from 'uuid';
+import { CURRENT_PROJECT_VERSION } from './projectSchema';
+import { toRawDeep } from './storageBackends';
+
+export interface ProjectSnapshot {
+  id: string;
+  projectId: string;
+  name: string;
+  kind: 'manual' | 'auto'; // Auto snapshots are taken while saving and pruned over time
+  createdAt: number;
+  data: ProjectLayerData;
+  version: string; // Project schema version of data
+}
+
+export type SnapshotLayerKey = keyof ProjectLayerData;
+
+export interface SnapshotDiffEntry {
+  layer: SnapshotLayerKey;
+  id: string;
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  fields: string[]; // Changed properties, only for "changed"
+}
+
+export const SNAPSHOT_LAYER_LABELS: Record<SnapshotLayerKey, string> = {
+  circles: 'Circle',
+  lineSegments: 'Line',
+  points: 'Point',
+  polygons: 'Polygon',
+  arcs: 'Arc shape',
+  loci: 'Locus',
+  zones: 'Zone',
+  notes: 'Note',
+  savedCoordinates: 'Saved coordinate',
+};
+
+// Runtime bookkeeping that changes without the user editing anything
+const IGNORED_FIELDS = new Set(['leafletId', 'updatedAt', 'timestamp']);
+
+/**
+ * Create a snapshot of a project's layers
+ */
+export function createSnapshot(
+  projectId: string,
+  data: ProjectLayerData,
+  name: string,
+  kind: ProjectSnapshot['kind']
+): ProjectSnapshot {
+  return {
+    id: uuidv4(),
+    projectId,
+    name,
+    kind,
+    createdAt: Date.now(),
+    data: structuredClone(toRawDeep(data)), // Layers may still be the stores' reactive arrays
+    version: CURRENT_PROJECT_VERSION,
+  };
+}
+
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(
+    (key) => !IGNORED_FIELDS.has(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+}
+
+/**
+ * Elements added, removed or changed between two versions of a project, matched by id
+ */
+export function diffLayerData(from: ProjectLayerData, to: ProjectLayerData): SnapshotDiffEntry[] {
+  const entries: SnapshotDiffEntry[] = [];
+
+  for (const layer of Object.keys(SNAPSHOT_LAYER_LABELS) as SnapshotLayerKey[]) {
+    const before = new Map<string, Record<string, any>>(
+      (from[layer] ?? []).map((element) => [element.id, element])
+    );
+    const after = new Map<string, Record<string, any>>(
+      (to[layer] ?? []).map((element) => [element.id, element])
+    );
+    const label = (element: Record<string, any>) => element.name ?? element.title ?? element.id;
+
+    for (const [id, element] of after) {
+      const previous = before.get(id);
+      if (!previous) {
+        entries.push({ layer, id, name: label(element), change: 'added', fields: [] });
+        continue;
+      }
+      const fields = changedFields(previous, element);
+      if (fields.length > 0) {
+        entries.push({ layer, id, name: label(element), change: 'changed', fields });
+      }
+    }
+
+    for (const [id, element] of before) {
+      if (!after.has(id)) {
+        entries.push({ layer, id, name: label(element), change: 'removed', fields: [] });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Whether two versions hold the same elements (ignoring runtime bookkeeping)
+ */
+export function isSameLayerData(a: ProjectLayerData, b: ProjectLayerData): boolean {
+  return diffLayerData(a, b).length === 0;
+}
+
+/**
+ * Short element count summary, e.g. "3 circles, 2 lines, 5 points"
+ */
+export function describeLayerData(data: ProjectLayerData): string {
+  const counts = [
+    [data.circles?.length ?? 0, 'circle'],
+    [data.lineSegments?.length ?? 0, 'line'],
+    [data.points?.length ?? 0, 'point'],
+    [data.polygons?.length ?? 0, 'polygon'],
+    [data.arcs?.length ?? 0, 'arc shape'],
+    [data.loci?.length ?? 0, 'locus curve'],
+    [data.zones?.length ?? 0, 'zone'],
+    [data.notes?.length ?? 0, 'note'],
+  ] as const;
+  const parts = counts
+    .filter(([count]) => count > 0)
+    .map(([count, noun]) => `${count} ${noun}${count === 1 ? '' : 's'}`);
+  return parts.length > 0 ? parts.join(', ') : 'empty';
+}
@@ -1,8 +1,24 @@
 /**
- * Storage service - localStorage management for projects and coordinates
+ * Storage service - Project persistence (IndexedDB with a localStorage fallback)
  */
 
+import type { ArcShape } from './arcShapes';
+import type { Constraint } from './constraints';
+import type { EarthModel } from './geodesy';
+import type { LinePathType, LocusKind } from './geometry';
+import type { GPXExportOptions } from './gpx';
+import type { ProjectParseResult } from './projectSchema';
+import type { ProjectSnapshot } from './snapshots';
+import type { ProjectStorageBackend } from './storageBackends';
+import type { ZoneOperation, ZoneSource } from './zones';
 import { v4 as uuidv4 } from 'uuid';
+import { CURRENT_PROJECT_VERSION, parseProject, summarizeIssues } from './projectSchema';
+import { createSnapshot } from './snapshots';
+import {
+  createIndexedDBBackend,
+  createLocalStorageBackend,
+  LEGACY_PROJECTS_STORAGE_KEY,
+} from './storageBackends';
 
 export interface SavedCoordinate {
   id: string;
@@ -16,8 +32,16 @@ export interface ProjectData {
   id?: string;
   name: string;
   data: ProjectLayerData;
+  settings?: ProjectSettings;
   createdAt?: number;
   updatedAt?: number;
+  version?: string; // Schema version, see CURRENT_PROJECT_VERSION
+}
+
+export interface ProjectSettings {
+  gpxExport?: Partial<GPXExportOptions>; // Last-used GPX export options
+  earthModel?: EarthModel; // Geodesic model for all calculations, WGS84 when unset
+  constraints?: Constraint[]; // Clues of the constraints panel
 }
 
 export interface ProjectLayerData {
@@ -25,6 +49,9 @@ export interface ProjectLayerData {
   lineSegments: LineSegmentElement[];
   points: PointElement[];
   polygons: PolygonElement[];
+  arcs: ArcElement[];
+  loci: LocusElement[];
+  zones: ZoneElement[];
   savedCoordinates: SavedCoordinate[];
   notes: NoteElement[];
 }
@@ -34,8 +61,10 @@ export interface CircleElement {
   name: string;
   center: { lat: number; lon: number };
   radius: number;
+  radiusTolerance?: number; // ± km, drawn as an annulus around the circle
   color?: string;
   leafletId?: number;
+  group?: string; // Folder the element belongs to (e.g. imported KML folder)
   noteId?: string; // ID of the linked note (one-to-one)
   createdAt?: number;
 }
@@ -51,8 +80,12 @@ export interface LineSegmentElement {
   intersectionPoint?: { lat: number; lon: number };
   intersectionDistance?: number;
   longitude?: number;
+  pathType?: LinePathType; // Unset on older lines, see getLinePathType
+  azimuthTolerance?: number; // ± degrees, azimuth lines only
+  distanceTolerance?: number; // ± km, azimuth lines only
   color?: string;
   leafletId?: number;
+  group?: string; // Folder the element belongs to (e.g. imported KML folder)
   noteId?: string; // ID of the linked note (one-to-one)
   createdAt?: number;
 }
@@ -64,6 +97,7 @@ export interface PointElement {
   elevation?: number;
   color?: string;
   leafletId?: number;
+  group?: string; // Folder the element belongs to (e.g. imported KML folder)
   noteId?: string; // ID of the linked note (one-to-one)
   createdAt?: number;
 }
@@ -74,52 +108,207 @@ export interface PolygonElement {
   points: { lat: number; lon: number }[]; // Array of at least 3 points
   color?: string;
   leafletId?: number;
+  group?: string; // Folder the element belongs to (e.g. imported KML folder)
+  noteId?: string; // ID of the linked note (one-to-one)
+  createdAt?: number;
+}
+
+export interface ArcElement {
+  id: string;
+  name: string;
+  shape: ArcShape;
+  center: { lat: number; lon: number };
+  radius: number; // km, the outer radius of an annulus
+  innerRadius?: number; // km, annuli only
+  startAzimuth?: number; // Degrees, sectors and arcs only; they run clockwise from start to end
+  endAzimuth?: number;
+  color?: string;
+  leafletId?: number;
+  group?: string; // Folder the element belongs to (e.g. imported KML folder)
+  noteId?: string; // ID of the linked note (one-to-one)
+  createdAt?: number;
+}
+
+export interface LocusElement {
+  id: string;
+  name: string;
+  kind: LocusKind;
+  firstFocus: { lat: number; lon: number };
+  secondFocus: { lat: number; lon: number };
+  constant: number; // km sum (ellipse), km difference (hyperbola) or distance ratio (apollonius)
+  color?: string;
+  leafletId?: number;
+  group?: string; // Folder the element belongs to (e.g. imported KML folder)
   noteId?: string; // ID of the linked note (one-to-one)
   createdAt?: number;
 }
 
+export interface ZoneElement {
+  id: string;
+  name: string;
+  operation: ZoneOperation;
+  sources: ZoneSource[]; // Combined in order; a difference removes the others from the first
+  color?: string;
+  leafletId?: number;
+  group?: string; // Folder the element belongs to (e.g. imported KML folder)
+  noteId?: string; // ID of the linked note (one-to-one)
+  createdAt?: number;
+}
+
+// Kinds of map element, e.g. for a note's link or a visibility toggle
+export type ElementType = 'circle' | 'lineSegment' | 'point' | 'polygon' | 'arc' | 'locus' | 'zone';
+
 export interface NoteElement {
   id: string;
   title: string;
   content: string;
-  linkedElementType?: 'circle' | 'lineSegment' | 'point' | 'polygon';
+  linkedElementType?: ElementType;
   linkedElementId?: string;
   createdAt?: number;
   updatedAt?: number;
 }
 
-const PROJECTS_STORAGE_KEY = 'geochase_projects';
+/**
+ * Elements read from an imported file, ready to be merged into the layers store
+ */
+export interface LayerImportResult {
+  circles: CircleElement[];
+  lineSegments: LineSegmentElement[];
+  points: PointElement[];
+  polygons: PolygonElement[];
+  arcs: ArcElement[];
+  loci: LocusElement[];
+  zones: ZoneElement[];
+  notes: NoteElement[];
+  warnings: string[];
+}
+
+// Database events the user has to act on, e.g. by closing an outdated tab
+export type StorageNotice = 'blocked' | 'versionChange';
+
+let backendPromise: Promise<ProjectStorageBackend> | null = null;
+let noticeListener: (notice: StorageNotice) => void = () => {};
 
 /**
- * Get all projects from localStorage
+ * Listen to database events the user has to act on
  */
-export function getAllProjects(): ProjectData[] {
-  try {
-    const projects = localStorage.getItem(PROJECTS_STORAGE_KEY);
-    return projects ? JSON.parse(projects) : [];
-  } catch (error) {
-    console.error('Error loading projects from storage:', error);
-    return [];
-  }
+export function onStorageNotice(listener: (notice: StorageNotice) => void): void {
+  noticeListener = listener;
 }
 
 /**
- * Save projects to localStorage
+ * Open IndexedDB (falling back to localStorage) and move legacy localStorage projects into it
  */
-export function saveProjectsToStorage(projects: ProjectData[]): void {
-  try {
-    localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projects));
-  } catch (error) {
-    console.error('Error saving projects to storage:', error);
+function getBackend(): Promise<ProjectStorageBackend> {
+  backendPromise ??= (async () => {
+    let backend: ProjectStorageBackend;
+    try {
+      backend = await createIndexedDBBackend({
+        onBlocked: () => noticeListener('blocked'),
+        onVersionChange: () => noticeListener('versionChange'),
+      });
+    } catch (error) {
+      console.error('IndexedDB unavailable, falling back to localStorage:', error);
+      return createLocalStorageBackend();
+    }
+
+    try {
+      await migrateLegacyProjects(backend);
+    } catch (error) {
+      // Keep working from localStorage so no project is lost
+      console.error('Could not move projects to IndexedDB:', error);
+      return createLocalStorageBackend();
+    }
+    return backend;
+  })();
+  return backendPromise;
+}
+
+/**
+ * Copy projects from the old single localStorage key, then free that key
+ */
+async function migrateLegacyProjects(backend: ProjectStorageBackend): Promise<void> {
+  const legacy = localStorage.getItem(LEGACY_PROJECTS_STORAGE_KEY);
+  if (!legacy) {
+    return;
   }
+
+  const rawProjects: unknown = JSON.parse(legacy);
+  const projects = (Array.isArray(rawProjects) ? rawProjects : []).map((raw) => ({
+    ...raw,
+    id: raw?.id || uuidv4(),
+  }));
+  await backend.putAll(projects);
+  localStorage.removeItem(LEGACY_PROJECTS_STORAGE_KEY);
 }
 
 /**
- * Get specific project by index
+ * Name of the active storage backend
  */
-export function getProject(index: number): ProjectData | null {
-  const projects = getAllProjects();
-  return projects[index] || null;
+export async function getStorageKind(): Promise<ProjectStorageBackend['kind']> {
+  return (await getBackend()).kind;
+}
+
+export interface StoredProjects {
+  projects: ProjectData[];
+  problems: string[]; // Repaired or unreadable records, to tell the user about
+}
+
+/**
+ * Get all projects, migrated and validated, oldest first
+ * Projects migrated to a newer schema version are written back. Before a project that lost
+ * invalid elements is written back, its original data is kept as a snapshot.
+ */
+export async function getAllProjects(): Promise<StoredProjects> {
+  const backend = await getBackend();
+  const projects: ProjectData[] = [];
+  const rewritten: ProjectData[] = [];
+  const originals: ProjectSnapshot[] = [];
+  const problems: string[] = [];
+
+  for (const raw of await backend.getAll()) {
+    try {
+      const { project, issues, migratedFrom } = parseProject(raw);
+      project.id ??= (raw as ProjectData).id;
+      if (issues.length > 0 && project.id) {
+        console.warn(`Project "${project.name}" has invalid data that was skipped:`, issues);
+        originals.push({
+          ...createSnapshot(
+            project.id,
+            (raw as ProjectData).data,
+            'Original data before repair',
+            'manual'
+          ),
+          version: migratedFrom ?? CURRENT_PROJECT_VERSION,
+        });
+        problems.push(
+          `"${project.name}" had ${issues.length} invalid elements, dropped or repaired: ${summarizeIssues(issues)}. Its original data is kept in its snapshots.`
+        );
+      }
+      if (migratedFrom !== undefined || issues.length > 0) {
+        rewritten.push(project);
+      }
+      projects.push(project);
+    } catch (error) {
+      console.error('Stored project could not be read and was skipped:', error, raw);
+      const name = (raw as Partial<ProjectData> | null)?.name;
+      problems.push(
+        `${name ? `"${name}"` : 'A stored project'} could not be read and is not listed.`
+      );
+    }
+  }
+
+  // A failure here fails the load, so no repaired project replaces an original that was not kept
+  for (const original of originals) {
+    await backend.snapshots.put(original);
+  }
+  if (rewritten.length > 0) {
+    await backend.putAll(rewritten);
+  }
+  return {
+    projects: projects.toSorted((a, b) => (a.createdAt || 0) - (b.createdAt || 0)),
+    problems,
+  };
 }
 
 /**
@@ -132,51 +321,104 @@ export function createProject(name: string, data: ProjectLayerData): ProjectData
     data,
     createdAt: Date.now(),
     updatedAt: Date.now(),
+    version: CURRENT_PROJECT_VERSION,
   };
 }
 
 /**
  * Save a new project and return the created project
  */
-export function saveProject(projectName: string, data: ProjectLayerData): ProjectData {
-  const projects = getAllProjects();
+export async function saveProject(
+  projectName: string,
+  data: ProjectLayerData
+): Promise<ProjectData> {
   const newProject = createProject(projectName, data);
-  projects.push(newProject);
-  saveProjectsToStorage(projects);
+  await (await getBackend()).put(newProject);
   return newProject;
 }
 
 /**
- * Update an existing project
+ * Update an existing project and return the stored record
  */
-export function updateProject(index: number, name: string, data: ProjectLayerData): void {
-  const projects = getAllProjects();
-  if (projects[index]) {
-    projects[index] = {
-      id: projects[index].id,
-      name,
-      data,
-      createdAt: projects[index].createdAt,
-      updatedAt: Date.now(),
-    };
-    saveProjectsToStorage(projects);
-  }
+export async function updateProject(
+  project: ProjectData,
+  name: string,
+  data: ProjectLayerData
+): Promise<ProjectData> {
+  const updated: ProjectData = {
+    id: project.id,
+    name,
+    data,
+    settings: project.settings,
+    createdAt: project.createdAt,
+    updatedAt: Date.now(),
+    version: CURRENT_PROJECT_VERSION,
+  };
+  await (await getBackend()).put(updated);
+  return updated;
+}
+
+/**
+ * Merge settings into a project and return the stored record
+ */
+export async function updateProjectSettings(
+  project: ProjectData,
+  settings: ProjectSettings
+): Promise<ProjectData> {
+  const updated = { ...project, settings: { ...project.settings, ...settings } };
+  await (await getBackend()).put(updated);
+  return updated;
 }
 
 /**
- * Delete a project by index
+ * Delete a project by id
  */
-export function deleteProject(index: number): void {
-  const projects = getAllProjects();
-  projects.splice(index, 1);
-  saveProjectsToStorage(projects);
+export async function deleteProject(id: string): Promise<void> {
+  const backend = await getBackend();
+  await backend.remove(id);
+  await backend.snapshots.removeByProject(id);
 }
 
 /**
  * Clear all projects
  */
-export function clearAllProjects(): void {
-  saveProjectsToStorage([]);
+export async function clearAllProjects(): Promise<void> {
+  const backend = await getBackend();
+  await backend.clear();
+  await backend.snapshots.clear();
+}
+
+/**
+ * Get a project's snapshots, newest first
+ */
+export async function getProjectSnapshots(projectId: string): Promise<ProjectSnapshot[]> {
+  const snapshots = await (await getBackend()).snapshots.getByProject(projectId);
+  return snapshots.toSorted((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Store a snapshot
+ */
+export async function saveSnapshot(snapshot: ProjectSnapshot): Promise<void> {
+  await (await getBackend()).snapshots.put(snapshot);
+}
+
+/**
+ * Delete snapshots by id
+ */
+export async function deleteSnapshots(ids: string[]): Promise<void> {
+  await (await getBackend()).snapshots.remove(ids);
+}
+
+/**
+ * Current storage usage as reported by the browser, or null when unsupported
+ */
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage === undefined || !quota ? null : { usage, quota };
 }
 
 /**
@@ -185,9 +427,9 @@ export function clearAllProjects(): void {
 export function exportProjectAsJSON(project: ProjectData): string {
   return JSON.stringify(
     {
-      version: '1.0',
       timestamp: new Date().toISOString(),
       ...project,
+      version: CURRENT_PROJECT_VERSION,
     },
     null,
     2
@@ -195,19 +437,19 @@ export function exportProjectAsJSON(project: ProjectData): string {
 }
 
 /**
- * Import project data from JSON
+ * Import project data from JSON, migrating older versions
+ * Malformed elements are dropped and reported in issues; returns null when nothing can be salvaged
  */
-export function importProjectFromJSON(jsonString: string): ProjectData | null {
+export function importProjectFromJSON(jsonString: string): ProjectParseResult | null {
   try {
-    const data = JSON.parse(jsonString);
-    if (!data.name || !data.data) {
-      throw new Error('Invalid project format');
+    const result = parseProject(JSON.parse(jsonString));
+    if (result.issues.length > 0) {
+      console.warn(`Imported project has invalid data: ${summarizeIssues(result.issues)}`);
     }
     return {
-      name: data.name,
-      data: data.data,
-      createdAt: data.createdAt,
-      updatedAt: data.updatedAt,
+      ...result,
+      // The imported project gets a fresh identity when saved
+      project: { ...result.project, id: undefined },
     };
   } catch (error) {
     console.error('Error importing project:', error);
@@ -0,0 +1,256 @@
+/**
+ * Storage backends - IndexedDB (one record per project) with a localStorage fallback
+ */
+
+import type { ProjectSnapshot } from './snapshots';
+import type { ProjectData } from './storage';
+import { toRaw } from 'vue';
+
+export interface ProjectStorageBackend {
+  kind: 'indexedDB' | 'localStorage';
+  getAll: () => Promise<unknown[]>;
+  put: (project: ProjectData) => Promise<void>;
+  putAll: (projects: ProjectData[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+  snapshots: SnapshotStorageBackend;
+}
+
+export interface SnapshotStorageBackend {
+  getByProject: (projectId: string) => Promise<ProjectSnapshot[]>;
+  put: (snapshot: ProjectSnapshot) => Promise<void>;
+  remove: (ids: string[]) => Promise<void>;
+  removeByProject: (projectId: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const DB_NAME = 'geochase';
+// 2: snapshots store
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const SNAPSHOTS_STORE = 'snapshots';
+
+export const LEGACY_PROJECTS_STORAGE_KEY = 'geochase_projects';
+const SNAPSHOTS_STORAGE_KEY = 'geochase_snapshots';
+
+/**
+ * Unwrap reactive proxies at any depth, as records mix store state into plain objects
+ */
+export function toRawDeep<T>(value: T): T {
+  const raw = toRaw(value);
+  if (Array.isArray(raw)) {
+    return raw.map((item) => toRawDeep(item)) as T;
+  }
+  if (raw !== null && typeof raw === 'object') {
+    return Object.fromEntries(
+      Object.entries(raw).map(([key, item]) => [key, toRawDeep(item)])
+    ) as T;
+  }
+  return raw;
+}
+
+/**
+ * Reactive proxies cannot be structured-cloned, so records are unwrapped before copying
+ */
+function toPlainRecord<T>(record: T): T {
+  return structuredClone(toRawDeep(record));
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.addEventListener('success', () => resolve(request.result));
+    request.addEventListener('error', () => reject(request.error));
+  });
+}
+
+export interface DatabaseEvents {
+  onBlocked: () => void; // A tab with an older version is open, and opening waits for it to close
+  onVersionChange: () => void; // A newer version in another tab took over the database
+}
+
+function openDatabase(events: DatabaseEvents): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.addEventListener('upgradeneeded', () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        snapshots.createIndex('projectId', 'projectId');
+      }
+    });
+    request.addEventListener('success', () => {
+      const db = request.result;
+      // Step aside so a newer version in another tab can upgrade the database
+      db.addEventListener('versionchange', () => {
+        db.close();
+        events.onVersionChange();
+      });
+      resolve(db);
+    });
+    request.addEventListener('error', () => reject(request.error));
+    // Not an error: the open goes through once the other tabs close their connection
+    request.addEventListener('blocked', () => events.onBlocked());
+  });
+}
+
+/**
+ * Run writes in one transaction; resolves when committed so quota errors are not lost
+ */
+function write(
+  db: IDBDatabase,
+  operation: (store: IDBObjectStore) => void,
+  storeName = PROJECTS_STORE
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.addEventListener('complete', () => resolve());
+    transaction.addEventListener('error', () => reject(transaction.error));
+    transaction.addEventListener('abort', () =>
+      reject(transaction.error ?? new Error('Storage transaction aborted'))
+    );
+    operation(transaction.objectStore(storeName));
+  });
+}
+
+export async function createIndexedDBBackend(
+  events: DatabaseEvents
+): Promise<ProjectStorageBackend> {
+  const db = await openDatabase(events);
+
+  return {
+    kind: 'indexedDB',
+    getAll: () =>
+      requestToPromise(
+        db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).getAll()
+      ),
+    put: (project) => write(db, (store) => store.put(toPlainRecord(project))),
+    putAll: (projects) =>
+      write(db, (store) => {
+        for (const project of projects) {
+          store.put(toPlainRecord(project));
+        }
+      }),
+    remove: (id) => write(db, (store) => store.delete(id)),
+    clear: () => write(db, (store) => store.clear()),
+    snapshots: createIndexedDBSnapshotBackend(db),
+  };
+}
+
+function createIndexedDBSnapshotBackend(db: IDBDatabase): SnapshotStorageBackend {
+  const getByProject = (projectId: string) =>
+    requestToPromise<ProjectSnapshot[]>(
+      db
+        .transaction(SNAPSHOTS_STORE, 'readonly')
+        .objectStore(SNAPSHOTS_STORE)
+        .index('projectId')
+        .getAll(projectId)
+    );
+  const remove = (ids: string[]) =>
+    write(
+      db,
+      (store) => {
+        for (const id of ids) {
+          store.delete(id);
+        }
+      },
+      SNAPSHOTS_STORE
+    );
+
+  return {
+    getByProject,
+    put: (snapshot) => write(db, (store) => store.put(toPlainRecord(snapshot)), SNAPSHOTS_STORE),
+    remove,
+    removeByProject: async (projectId) =>
+      remove((await getByProject(projectId)).map((snapshot) => snapshot.id)),
+    clear: () => write(db, (store) => store.clear(), SNAPSHOTS_STORE),
+  };
+}
+
+/**
+ * Single-key backend used when IndexedDB is unavailable (e.g. some private browsing modes)
+ */
+export function createLocalStorageBackend(): ProjectStorageBackend {
+  function readAll(): ProjectData[] {
+    const stored = localStorage.getItem(LEGACY_PROJECTS_STORAGE_KEY);
+    const projects = stored ? JSON.parse(stored) : [];
+    return Array.isArray(projects) ? projects : [];
+  }
+
+  function writeAll(projects: ProjectData[]): void {
+    localStorage.setItem(LEGACY_PROJECTS_STORAGE_KEY, JSON.stringify(projects));
+  }
+
+  function upsert(projects: ProjectData[], project: ProjectData): void {
+    const index = projects.findIndex((p) => p.id === project.id);
+    if (index === -1) {
+      projects.push(project);
+    } else {
+      projects[index] = project;
+    }
+  }
+
+  return {
+    kind: 'localStorage',
+    getAll: async () => readAll(),
+    put: async (project) => {
+      const projects = readAll();
+      upsert(projects, project);
+      writeAll(projects);
+    },
+    putAll: async (incoming) => {
+      const projects = readAll();
+      for (const project of incoming) {
+        upsert(projects, project);
+      }
+      writeAll(projects);
+    },
+    remove: async (id) => {
+      writeAll(readAll().filter((p) => p.id !== id));
+    },
+    clear: async () => {
+      writeAll([]);
+    },
+    snapshots: createLocalStorageSnapshotBackend(),
+  };
+}
+
+function createLocalStorageSnapshotBackend(): SnapshotStorageBackend {
+  function readAll(): ProjectSnapshot[] {
+    const stored = localStorage.getItem(SNAPSHOTS_STORAGE_KEY);
+    const snapshots = stored ? JSON.parse(stored) : [];
+    return Array.isArray(snapshots) ? snapshots : [];
+  }
+
+  function writeAll(snapshots: ProjectSnapshot[]): void {
+    localStorage.setItem(SNAPSHOTS_STORAGE_KEY, JSON.stringify(snapshots));
+  }
+
+  return {
+    getByProject: async (projectId) => readAll().filter((s) => s.projectId === projectId),
+    put: async (snapshot) => {
+      writeAll([...readAll().filter((s) => s.id !== snapshot.id), toPlainRecord(snapshot)]);
+    },
+    remove: async (ids) => {
+      writeAll(readAll().filter((s) => !ids.includes(s.id)));
+    },
+    removeByProject: async (projectId) => {
+      writeAll(readAll().filter((s) => s.projectId !== projectId));
+    },
+    clear: async () => {
+      writeAll([]);
+    },
+  };
+}
+
+/**
+ * Browsers report a full store with different error names
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Tolerance zones - Areas covered by imprecise circles and azimuth lines
+ *
+ * A circle with a radius tolerance covers an annulus. An azimuth line with an azimuth tolerance
+ * covers a wedge from its start, narrowed to an annular sector when its distance also has a
+ * tolerance. Zones are lists of rings, outer ring first and holes after, each ring open (its first
+ * point is not repeated).
+ */
+
+import type { Polygon } from 'geojson';
+import type { LatLon } from './geometry';
+import type { CircleElement, LineSegmentElement } from './storage';
+import * as turf from '@turf/turf';
+import { geodesicDirect } from './geodesy';
+import { getLinePathType, pathDestination, pathLength } from './geometry';
+
+export type ToleranceZone = LatLon[][];
+
+const MAX_ARC_STEP_DEG = 1;
+const MAX_RAY_STEP_KM = 10;
+const MAX_RAY_SAMPLES = 128;
+
+/**
+ * Points on the arc of radius radiusKm around center, from one bearing to another clockwise
+ */
+function arc(center: LatLon, radiusKm: number, fromBearing: number, toBearing: number): LatLon[] {
+  const steps = Math.max(1, Math.ceil((toBearing - fromBearing) / MAX_ARC_STEP_DEG));
+  return Array.from({ length: steps + 1 }, (_, i) =>
+    geodesicDirect(center, radiusKm, fromBearing + ((toBearing - fromBearing) * i) / steps)
+  );
+}
+
+/**
+ * Full circle of radius radiusKm around center, as an open ring
+ */
+function ring(center: LatLon, radiusKm: number): LatLon[] {
+  return arc(center, radiusKm, 0, 360).slice(0, -1);
+}
+
+/**
+ * Annulus covered by a circle with a radius tolerance, or null without one
+ */
+export function circleToleranceZone(circle: CircleElement): ToleranceZone | null {
+  const tolerance = circle.radiusTolerance ?? 0;
+  if (!(tolerance > 0)) {
+    return null;
+  }
+  const inner = circle.radius - tolerance;
+  const outer = ring(circle.center, circle.radius + tolerance);
+  return inner > 0 ? [outer, ring(circle.center, inner).toReversed()] : [outer];
+}
+
+/**
+ * Wedge or annular sector covered by an azimuth line with an azimuth tolerance, or null without
+ * one. A distance tolerance on its own leaves a line, which has no area.
+ */
+export function lineToleranceZone(line: LineSegmentElement): ToleranceZone | null {
+  const azimuthTolerance = Math.min(line.azimuthTolerance ?? 0, 180);
+  if (line.mode !== 'azimuth' || line.azimuth === undefined || !(azimuthTolerance > 0)) {
+    return null;
+  }
+  const pathType = getLinePathType(line);
+  const length =
+    line.distance ?? (line.endpoint ? pathLength(line.center, line.endpoint, pathType) : 0);
+  const distanceTolerance = line.distanceTolerance ?? 0;
+  const outerKm = length + distanceTolerance;
+  const innerKm = distanceTolerance > 0 ? Math.max(length - distanceTolerance, 0) : 0;
+  if (!(outerKm > 0)) {
+    return null;
+  }
+
+  // Past ±180° the wedge closes into a disk or annulus
+  if (azimuthTolerance >= 180) {
+    const outer = ring(line.center, outerKm);
+    return innerKm > 0 ? [outer, ring(line.center, innerKm).toReversed()] : [outer];
+  }
+
+  const from = line.azimuth - azimuthTolerance;
+  const to = line.azimuth + azimuthTolerance;
+  const steps = Math.min(
+    MAX_RAY_SAMPLES,
+    Math.max(1, Math.ceil((outerKm - innerKm) / MAX_RAY_STEP_KM))
+  );
+  // Edges follow the line's own path, leaving the start on the edge bearings
+  const ray = (bearing: number) =>
+    Array.from({ length: steps + 1 }, (_, i) =>
+      pathDestination(line.center, innerKm + ((outerKm - innerKm) * i) / steps, bearing, pathType)
+    );
+
+  const outerArc = arc(line.center, outerKm, from, to);
+  if (innerKm > 0) {
+    const innerArc = arc(line.center, innerKm, from, to).toReversed().slice(0, -1);
+    return [
+      [...ray(from).slice(0, -1), ...outerArc, ...ray(to).toReversed().slice(1, -1), ...innerArc],
+    ];
+  }
+  return [
+    [
+      { ...line.center },
+      ...ray(from).slice(1, -1),
+      ...outerArc,
+      ...ray(to).toReversed().slice(1, -1),
+    ],
+  ];
+}
+
+/**
+ * Tolerance zone of an element, or null when it has none
+ */
+export function getToleranceZone(
+  type: 'circle' | 'lineSegment',
+  element: CircleElement | LineSegmentElement
+): ToleranceZone | null {
+  return type === 'circle'
+    ? circleToleranceZone(element as CircleElement)
+    : lineToleranceZone(element as LineSegmentElement);
+}
+
+/**
+ * GeoJSON polygon of a zone, with closed rings in [lon, lat] order
+ */
+export function toleranceZoneToPolygon(zone: ToleranceZone): Polygon {
+  return turf.polygon(zone.map((r) => [...r, r[0]!].map((p) => [p.lon, p.lat]))).geometry;
+}
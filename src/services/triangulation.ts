@@ -0,0 +1,243 @@
+/**
+ * Triangulation service - Best-fit location from bearings taken at or towards known places
+ *
+ * A forward bearing is measured at the known place towards the target; a back bearing is measured
+ * at the target towards the known place. Each bearing misses the target by a cross-track distance,
+ * and Gauss-Newton minimizes the sum of their squares. The uncertainty polygon is the hull of the
+ * pairwise intersections, with each bearing also turned by ± its precision.
+ */
+
+import type { LatLon } from './geometry';
+import * as turf from '@turf/turf';
+import { geodesicDirect, geodesicInverse } from './geodesy';
+import { toDegrees, toRadians } from './geometry';
+import { intersectElements } from './intersections';
+
+export type BearingKind = 'forward' | 'back';
+
+export interface BearingObservation {
+  name: string;
+  origin: LatLon; // The known place
+  bearing: number; // Degrees clockwise from north
+  kind: BearingKind;
+}
+
+export interface TriangulationResult {
+  point: LatLon;
+  residualsDeg: number[]; // Fitted bearing minus the observed one, per observation
+  residualsKm: number[]; // Cross-track distance between each bearing and the point
+  rmsKm: number;
+  uncertainty: LatLon[]; // Outline of the uncertainty area, empty when it collapses to a point
+  areaKm2: number;
+}
+
+export const MIN_TRIANGULATION_OBSERVATIONS = 2;
+
+const RAY_LENGTH_KM = 3000; // Bearings are intersected as geodesics this long to seed the fit
+const MAX_ITERATIONS = 50;
+const CONVERGED_KM = 1e-9;
+const JACOBIAN_STEP_KM = 1e-4;
+
+/**
+ * Bearing the observation would have if the target were at point, and the distance between them
+ */
+function fittedBearing(
+  observation: BearingObservation,
+  point: LatLon
+): { bearing: number; distanceKm: number } {
+  if (observation.kind === 'forward') {
+    const inverse = geodesicInverse(observation.origin, point);
+    return { bearing: inverse.initialBearing, distanceKm: inverse.distanceKm };
+  }
+  const inverse = geodesicInverse(point, observation.origin);
+  return { bearing: inverse.initialBearing, distanceKm: inverse.distanceKm };
+}
+
+/**
+ * Signed difference between two bearings, in -180..180
+ */
+function angleDifference(a: number, b: number): number {
+  return ((((a - b + 180) % 360) + 360) % 360) - 180;
+}
+
+function crossTrackResiduals(point: LatLon, observations: BearingObservation[]): number[] {
+  return observations.map((observation) => {
+    const fitted = fittedBearing(observation, point);
+    return (
+      fitted.distanceKm * Math.sin(toRadians(angleDifference(fitted.bearing, observation.bearing)))
+    );
+  });
+}
+
+function sumOfSquares(residuals: number[]): number {
+  return residuals.reduce((sum, r) => sum + r * r, 0);
+}
+
+function offset(point: LatLon, eastKm: number, northKm: number): LatLon {
+  const distanceKm = Math.hypot(eastKm, northKm);
+  return distanceKm === 0
+    ? point
+    : geodesicDirect(point, distanceKm, toDegrees(Math.atan2(eastKm, northKm)));
+}
+
+/**
+ * Gauss-Newton on the cross-track residuals, with a numeric Jacobian in the local plane
+ */
+function refine(start: LatLon, observations: BearingObservation[]): LatLon | null {
+  let point = start;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const residuals = crossTrackResiduals(point, observations);
+    const east = crossTrackResiduals(offset(point, JACOBIAN_STEP_KM, 0), observations);
+    const north = crossTrackResiduals(offset(point, 0, JACOBIAN_STEP_KM), observations);
+
+    let ee = 0;
+    let en = 0;
+    let nn = 0;
+    let ge = 0;
+    let gn = 0;
+    for (const [j, r] of residuals.entries()) {
+      const je = (east[j]! - r) / JACOBIAN_STEP_KM;
+      const jn = (north[j]! - r) / JACOBIAN_STEP_KM;
+      ee += je * je;
+      en += je * jn;
+      nn += jn * jn;
+      ge += je * r;
+      gn += jn * r;
+    }
+    const det = ee * nn - en * en;
+    // Parallel bearings have no crossing
+    if (!(det > 1e-12 * Math.max(ee * nn, 1e-12))) {
+      return null;
+    }
+    const stepEast = -(nn * ge - en * gn) / det;
+    const stepNorth = -(ee * gn - en * ge) / det;
+    point = offset(point, stepEast, stepNorth);
+    if (Math.hypot(stepEast, stepNorth) < CONVERGED_KM) {
+      break;
+    }
+  }
+  return point;
+}
+
+/**
+ * Whether the point lies ahead of every bearing rather than behind it
+ */
+function isAhead(point: LatLon, observations: BearingObservation[]): boolean {
+  return observations.every((observation) => {
+    const fitted = fittedBearing(observation, point);
+    return Math.abs(angleDifference(fitted.bearing, observation.bearing)) < 90;
+  });
+}
+
+/**
+ * Geodesic from the known place along an observation, close to the bearing's locus
+ * A back bearing seen from the target points the other way once at the known place
+ */
+function ray(observation: BearingObservation) {
+  const bearing = observation.kind === 'forward' ? observation.bearing : observation.bearing + 180;
+  return {
+    type: 'lineSegment' as const,
+    element: {
+      id: '',
+      name: observation.name,
+      center: observation.origin,
+      endpoint: geodesicDirect(observation.origin, RAY_LENGTH_KM, bearing),
+      mode: 'azimuth' as const,
+      pathType: 'geodesic' as const,
+    },
+  };
+}
+
+/**
+ * Exact crossing of two observations, seeded by intersecting their rays
+ */
+function crossing(first: BearingObservation, second: BearingObservation): LatLon | null {
+  const pair = [first, second];
+  for (const start of intersectElements(ray(first), ray(second)).points) {
+    const point = refine(start, pair);
+    if (point && isAhead(point, pair)) {
+      return point;
+    }
+  }
+  return null;
+}
+
+function uncertaintyOutline(observations: BearingObservation[], precisionDeg: number): LatLon[] {
+  const turns = precisionDeg > 0 ? [-precisionDeg, 0, precisionDeg] : [0];
+  const corners: LatLon[] = [];
+  for (const [i, first] of observations.entries()) {
+    for (const second of observations.slice(i + 1)) {
+      for (const turnA of turns) {
+        for (const turnB of turns) {
+          const point = crossing(
+            { ...first, bearing: first.bearing + turnA },
+            { ...second, bearing: second.bearing + turnB }
+          );
+          if (point) {
+            corners.push(point);
+          }
+        }
+      }
+    }
+  }
+  if (corners.length < 3) {
+    return [];
+  }
+  const hull = turf.convex(turf.featureCollection(corners.map((p) => turf.point([p.lon, p.lat]))));
+  // GeoJSON rings repeat their first position at the end
+  return (
+    hull?.geometry.coordinates[0]?.slice(0, -1).map(([lon, lat]) => ({ lat: lat!, lon: lon! })) ??
+    []
+  );
+}
+
+/**
+ * Least-squares location best matching the bearings
+ * Returns null with fewer than MIN_TRIANGULATION_OBSERVATIONS observations or when no crossing
+ * lies ahead of the bearings (e.g. parallel or diverging bearings)
+ */
+export function triangulate(
+  observations: BearingObservation[],
+  precisionDeg = 0
+): TriangulationResult | null {
+  if (observations.length < MIN_TRIANGULATION_OBSERVATIONS) {
+    return null;
+  }
+
+  let best: LatLon | null = null;
+  let bestCost = Infinity;
+  for (const [i, first] of observations.entries()) {
+    for (const second of observations.slice(i + 1)) {
+      const start = crossing(first, second);
+      const point = start && refine(start, observations);
+      if (!point || !isAhead(point, observations)) {
+        continue;
+      }
+      const cost = sumOfSquares(crossTrackResiduals(point, observations));
+      if (cost < bestCost) {
+        best = point;
+        bestCost = cost;
+      }
+    }
+  }
+  if (!best) {
+    return null;
+  }
+
+  const residualsKm = crossTrackResiduals(best, observations);
+  const uncertainty = uncertaintyOutline(observations, precisionDeg);
+  return {
+    point: best,
+    residualsDeg: observations.map((observation) =>
+      angleDifference(fittedBearing(observation, best).bearing, observation.bearing)
+    ),
+    residualsKm,
+    rmsKm: Math.sqrt(sumOfSquares(residualsKm) / observations.length),
+    uncertainty,
+    areaKm2:
+      uncertainty.length >= 3
+        ? turf.area(turf.polygon([[...uncertainty, uncertainty[0]!].map((p) => [p.lon, p.lat])])) /
+          1e6
+        : 0,
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Trilateration service - Best-fit location from distances to known places
+ *
+ * Least squares on geodesic distances with Gauss-Newton: moving the estimate changes its distance
+ * to a center by the move projected on the direction away from that center, so each iteration is
+ * a small linear fit in the local east/north plane. The covariance of the final fit gives the
+ * error ellipse.
+ */
+
+import type { LatLon } from './geometry';
+import { geodesicDirect, geodesicInverse } from './geodesy';
+import { toDegrees, toRadians } from './geometry';
+import { intersectElements } from './intersections';
+
+export interface DistanceConstraint {
+  name: string;
+  center: LatLon;
+  distanceKm: number;
+}
+
+export interface ErrorEllipse {
+  semiMajorKm: number;
+  semiMinorKm: number;
+  orientation: number; // Bearing of the major axis, 0-180 degrees
+}
+
+export interface TrilaterationResult {
+  point: LatLon;
+  residualsKm: number[]; // Fitted distance minus the given one, per constraint
+  rmsKm: number;
+  ellipse: ErrorEllipse | null; // Null when the constraints do not pin down a position
+}
+
+export const MIN_TRILATERATION_CONSTRAINTS = 3;
+
+// sqrt of the 95% quantile of the chi-squared distribution with 2 degrees of freedom
+const CONFIDENCE_95_SCALE = Math.sqrt(5.991);
+const MAX_ITERATIONS = 50;
+const CONVERGED_KM = 1e-9;
+
+interface Fit {
+  point: LatLon;
+  residualsKm: number[];
+  normal: [number, number, number]; // JᵀJ as [ee, en, nn]
+}
+
+/**
+ * Residuals and normal matrix at a point
+ */
+function evaluate(point: LatLon, constraints: DistanceConstraint[]): Fit & { gradient: number[] } {
+  const residualsKm: number[] = [];
+  const normal: [number, number, number] = [0, 0, 0];
+  const gradient = [0, 0];
+  for (const constraint of constraints) {
+    const inverse = geodesicInverse(constraint.center, point);
+    const residual = inverse.distanceKm - constraint.distanceKm;
+    // Moving away from the center along the arriving bearing increases the distance one for one
+    const bearing = toRadians(inverse.finalBearing);
+    const east = Math.sin(bearing);
+    const north = Math.cos(bearing);
+    residualsKm.push(residual);
+    normal[0] += east * east;
+    normal[1] += east * north;
+    normal[2] += north * north;
+    gradient[0]! += east * residual;
+    gradient[1]! += north * residual;
+  }
+  return { point, residualsKm, normal, gradient };
+}
+
+function sumOfSquares(residuals: number[]): number {
+  return residuals.reduce((sum, r) => sum + r * r, 0);
+}
+
+/**
+ * Gauss-Newton from one start point
+ */
+function refine(start: LatLon, constraints: DistanceConstraint[]): Fit | null {
+  let fit = evaluate(start, constraints);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const [ee, en, nn] = fit.normal;
+    const det = ee * nn - en * en;
+    if (!(det > 1e-12)) {
+      return null;
+    }
+    const [ge, gn] = fit.gradient as [number, number];
+    const stepEast = -(nn * ge - en * gn) / det;
+    const stepNorth = -(ee * gn - en * ge) / det;
+    const stepKm = Math.hypot(stepEast, stepNorth);
+    if (stepKm < CONVERGED_KM) {
+      break;
+    }
+    fit = evaluate(
+      geodesicDirect(fit.point, stepKm, toDegrees(Math.atan2(stepEast, stepNorth))),
+      constraints
+    );
+  }
+  return fit;
+}
+
+/**
+ * Start points: the centroid of the centers and where pairs of circles meet
+ */
+function startPoints(constraints: DistanceConstraint[]): LatLon[] {
+  const starts: LatLon[] = [
+    {
+      lat: constraints.reduce((sum, c) => sum + c.center.lat, 0) / constraints.length,
+      lon: constraints.reduce((sum, c) => sum + c.center.lon, 0) / constraints.length,
+    },
+  ];
+  const asCircle = (c: DistanceConstraint) => ({
+    type: 'circle' as const,
+    element: { id: '', name: c.name, center: c.center, radius: c.distanceKm },
+  });
+  for (const [i, first] of constraints.entries()) {
+    for (const second of constraints.slice(i + 1)) {
+      starts.push(...intersectElements(asCircle(first), asCircle(second)).points);
+    }
+  }
+  return starts;
+}
+
+function errorEllipse(fit: Fit, constraints: DistanceConstraint[]): ErrorEllipse | null {
+  const [ee, en, nn] = fit.normal;
+  const det = ee * nn - en * en;
+  if (!(det > 1e-12) || constraints.length <= 2) {
+    return null;
+  }
+  // Covariance = s² (JᵀJ)⁻¹ with s² the residual variance
+  const variance = sumOfSquares(fit.residualsKm) / (constraints.length - 2);
+  const cee = (variance * nn) / det;
+  const cen = (-variance * en) / det;
+  const cnn = (variance * ee) / det;
+
+  const mean = (cee + cnn) / 2;
+  const spread = Math.hypot((cee - cnn) / 2, cen);
+  const angleFromEast = toDegrees(Math.atan2(2 * cen, cee - cnn) / 2);
+  return {
+    semiMajorKm: Math.sqrt(mean + spread) * CONFIDENCE_95_SCALE,
+    semiMinorKm: Math.sqrt(Math.max(mean - spread, 0)) * CONFIDENCE_95_SCALE,
+    orientation: (((90 - angleFromEast) % 180) + 180) % 180,
+  };
+}
+
+/**
+ * Least-squares location whose distances to the centers best match the given ones
+ * Returns null with fewer than MIN_TRILATERATION_CONSTRAINTS constraints or when every start
+ * point degenerates (e.g. all centers on one spot)
+ */
+export function trilaterate(constraints: DistanceConstraint[]): TrilaterationResult | null {
+  if (constraints.length < MIN_TRILATERATION_CONSTRAINTS) {
+    return null;
+  }
+
+  let best: Fit | null = null;
+  for (const start of startPoints(constraints)) {
+    const fit = refine(start, constraints);
+    if (fit && (!best || sumOfSquares(fit.residualsKm) < sumOfSquares(best.residualsKm))) {
+      best = fit;
+    }
+  }
+  if (!best) {
+    return null;
+  }
+
+  return {
+    point: best.point,
+    residualsKm: best.residualsKm,
+    rmsKm: Math.sqrt(sumOfSquares(best.residualsKm) / constraints.length),
+    ellipse: errorEllipse(best, constraints),
+  };
+}
+
+/**
+ * Outline of an error ellipse around its center
+ */
+export function ellipsePolygon(center: LatLon, ellipse: ErrorEllipse, numPoints = 72): LatLon[] {
+  const rotation = toRadians(ellipse.orientation);
+  return Array.from({ length: numPoints }, (_, i) => {
+    const angle = (2 * Math.PI * i) / numPoints;
+    const major = ellipse.semiMajorKm * Math.cos(angle);
+    const minor = ellipse.semiMinorKm * Math.sin(angle);
+    // Major axis along the orientation bearing, minor axis 90° clockwise from it
+    const east = major * Math.sin(rotation) + minor * Math.cos(rotation);
+    const north = major * Math.cos(rotation) - minor * Math.sin(rotation);
+    return geodesicDirect(center, Math.hypot(east, north), toDegrees(Math.atan2(east, north)));
+  });
+}
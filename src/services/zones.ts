@@ -0,0 +1,336 @@
+/**
+ * Zones - Candidate areas built with boolean operations over other elements
+ *
+ * A zone keeps its sources and operation rather than its outline, so it is recomputed whenever a
+ * source changes. Sources are circles as discs, polygons, annuli and sectors, ellipses and
+ * Apollonius circles as the area they enclose, search buffers around lines, points and curves,
+ * and the tolerance zones (annuli and fans) of circles and azimuth lines.
+ */
+
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import type { LatLon } from './geometry';
+import type { ProjectLayerData, ZoneElement } from './storage';
+import * as turf from '@turf/turf';
+import { arcShapeRings, isArcArea } from './arcShapes';
+import {
+  destinationPoint,
+  generateCircle,
+  generateLinePointsLinear,
+  generateLocus,
+  getLinePathType,
+  samplePath,
+} from './geometry';
+import { getToleranceZone, toleranceZoneToPolygon } from './toleranceZone';
+
+export type ZoneOperation = 'intersection' | 'union' | 'difference';
+
+export type ZoneSourceType = 'circle' | 'lineSegment' | 'point' | 'polygon' | 'arc' | 'locus';
+
+// area: the surface the element encloses; buffer: a band around its path; tolerance: its fan
+export type ZoneSourceMode = 'area' | 'buffer' | 'tolerance';
+
+export interface ZoneSource {
+  type: ZoneSourceType;
+  id: string;
+  mode: ZoneSourceMode;
+  bufferKm?: number; // Buffer mode only
+}
+
+export interface ZoneResult {
+  geometry: Polygon | MultiPolygon | null; // Null when the zone is empty
+  areaKm2: number;
+  missing: number; // Sources left out because their element is gone or has no such area
+}
+
+export type ZoneLayers = Pick<
+  ProjectLayerData,
+  'circles' | 'lineSegments' | 'points' | 'polygons' | 'arcs' | 'loci'
+>;
+
+export const ZONE_OPERATION_LABELS: Record<ZoneOperation, string> = {
+  intersection: 'Intersection',
+  union: 'Union',
+  difference: 'Difference',
+};
+
+export const ZONE_SOURCE_MODE_LABELS: Record<ZoneSourceMode, string> = {
+  area: 'Area',
+  buffer: 'Search buffer',
+  tolerance: 'Tolerance zone',
+};
+
+// Modes each kind of element can contribute
+export const ZONE_SOURCE_MODES: Record<ZoneSourceType, ZoneSourceMode[]> = {
+  circle: ['area', 'tolerance'],
+  lineSegment: ['buffer', 'tolerance'],
+  point: ['buffer'],
+  polygon: ['area'],
+  arc: ['area', 'buffer'],
+  locus: ['area', 'buffer'],
+};
+
+const ZONE_OPERATIONS: ZoneOperation[] = ['intersection', 'union', 'difference'];
+const M2_PER_KM2 = 1_000_000;
+const PARALLEL_SAMPLES = 360; // A point every degree of longitude
+
+export function isZoneOperation(value: unknown): value is ZoneOperation {
+  return typeof value === 'string' && (ZONE_OPERATIONS as string[]).includes(value);
+}
+
+export function isZoneSourceType(value: unknown): value is ZoneSourceType {
+  return typeof value === 'string' && value in ZONE_SOURCE_MODES;
+}
+
+/**
+ * Source read back from an export, or null when it is malformed
+ */
+export function toZoneSource(value: unknown): ZoneSource | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { type, id, mode, bufferKm } = value as Record<string, unknown>;
+  if (!isZoneSourceType(type) || typeof id !== 'string' || !id) return null;
+  if (!(ZONE_SOURCE_MODES[type] as unknown[]).includes(mode)) return null;
+  const source: ZoneSource = { type, id, mode: mode as ZoneSourceMode };
+  if (typeof bufferKm === 'number' && Number.isFinite(bufferKm)) {
+    source.bufferKm = bufferKm;
+  }
+  return source;
+}
+
+/**
+ * Sources stored as JSON text in GeoJSON properties and KML data, skipping malformed ones
+ */
+export function parseZoneSources(json: string | undefined): ZoneSource[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(json ?? '');
+  } catch {
+    return [];
+  }
+  return Array.isArray(value)
+    ? value.map((item) => toZoneSource(item)).filter((source) => source !== null)
+    : [];
+}
+
+function polygonFeature(ring: LatLon[]): Feature<Polygon> {
+  return turf.polygon([ring.map((p) => [p.lon, p.lat])]);
+}
+
+/**
+ * Band of latitude around a parallel
+ * turf buffers lines in a local projection, which breaks down for a line around the whole globe
+ */
+function parallelBand(latitude: number, bufferKm: number): Feature<Polygon> {
+  const south = destinationPoint(latitude, 0, bufferKm, 180).lat;
+  const north = destinationPoint(latitude, 0, bufferKm, 0).lat;
+  const southEdge = generateLinePointsLinear(south, -180, south, 180, PARALLEL_SAMPLES);
+  const northEdge = generateLinePointsLinear(north, 180, north, -180, PARALLEL_SAMPLES);
+  return polygonFeature([...southEdge, ...northEdge, southEdge[0]!]);
+}
+
+/**
+ * Path searched around for a buffer: the drawn line, point or curve of the element
+ * Parallels are handled by parallelBand
+ */
+function bufferPath(source: ZoneSource, layers: ZoneLayers): LatLon[] | null {
+  switch (source.type) {
+    case 'lineSegment': {
+      const segment = layers.lineSegments.find((s) => s.id === source.id);
+      if (!segment) return null;
+      return segment.endpoint
+        ? samplePath(segment.center, segment.endpoint, getLinePathType(segment))
+        : null;
+    }
+    case 'point': {
+      const point = layers.points.find((p) => p.id === source.id);
+      return point ? [point.coordinates] : null;
+    }
+    case 'arc': {
+      const arc = layers.arcs.find((a) => a.id === source.id);
+      return arc ? (arcShapeRings(arc)[0] ?? null) : null;
+    }
+    case 'locus': {
+      const locus = layers.loci.find((l) => l.id === source.id);
+      return locus ? generateLocus(locus) : null;
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+/**
+ * Surface enclosed by an element: a disc, polygon, annulus, sector, ellipse or Apollonius circle
+ */
+function enclosedArea(source: ZoneSource, layers: ZoneLayers): Feature<Polygon> | null {
+  switch (source.type) {
+    case 'circle': {
+      const circle = layers.circles.find((c) => c.id === source.id);
+      return circle
+        ? polygonFeature(generateCircle(circle.center.lat, circle.center.lon, circle.radius))
+        : null;
+    }
+    case 'polygon': {
+      const polygon = layers.polygons.find((p) => p.id === source.id);
+      return polygon && polygon.points.length >= 3
+        ? polygonFeature([...polygon.points, polygon.points[0]!])
+        : null;
+    }
+    case 'arc': {
+      const arc = layers.arcs.find((a) => a.id === source.id);
+      return arc && isArcArea(arc)
+        ? turf.polygon(arcShapeRings(arc).map((ring) => ring.map((p) => [p.lon, p.lat])))
+        : null;
+    }
+    case 'locus': {
+      // Hyperbola branches are open and enclose nothing
+      const locus = layers.loci.find((l) => l.id === source.id);
+      const curve = locus && locus.kind !== 'hyperbola' ? generateLocus(locus) : [];
+      return curve.length >= 4 ? polygonFeature(curve) : null;
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+/**
+ * Area a source contributes to a zone, or null when its element is gone or has no such area
+ */
+export function zoneSourceGeometry(
+  source: ZoneSource,
+  layers: ZoneLayers
+): Feature<Polygon | MultiPolygon> | null {
+  try {
+    switch (source.mode) {
+      case 'area': {
+        return enclosedArea(source, layers);
+      }
+      case 'buffer': {
+        if (!((source.bufferKm ?? 0) > 0)) return null;
+        const parallel =
+          source.type === 'lineSegment'
+            ? layers.lineSegments.find((s) => s.id === source.id && s.mode === 'parallel')
+            : undefined;
+        if (parallel) return parallelBand(parallel.longitude ?? 0, source.bufferKm!);
+        const path = bufferPath(source, layers);
+        if (!path || path.length === 0) return null;
+        const coordinates = path.map((p) => [p.lon, p.lat]);
+        const geometry =
+          coordinates.length === 1 ? turf.point(coordinates[0]!) : turf.lineString(coordinates);
+        return turf.buffer(geometry, source.bufferKm!, { units: 'kilometers' }) ?? null;
+      }
+      case 'tolerance': {
+        const element =
+          source.type === 'circle'
+            ? layers.circles.find((c) => c.id === source.id)
+            : layers.lineSegments.find((s) => s.id === source.id);
+        if (!element || (source.type !== 'circle' && source.type !== 'lineSegment')) return null;
+        const zone = getToleranceZone(source.type, element);
+        return zone ? turf.feature(toleranceZoneToPolygon(zone)) : null;
+      }
+    }
+  } catch (error) {
+    console.error('[Zones] Error building zone source:', error);
+    return null;
+  }
+  return null;
+}
+
+/**
+ * Apply the zone's operation to the areas of its sources
+ * Differences keep the first source and remove all the others from it. Sources without an area
+ * are counted as missing: a union leaves them out, while an intersection or difference is empty
+ * as dropping a source would only make it larger
+ */
+export function computeZone(zone: Pick<ZoneElement, 'operation' | 'sources'>, layers: ZoneLayers) {
+  const areas = zone.sources.map((source) => zoneSourceGeometry(source, layers));
+  const present = areas.filter((area) => area !== null);
+  const result: ZoneResult = {
+    geometry: null,
+    areaKm2: 0,
+    missing: areas.length - present.length,
+  };
+  if (present.length === 0 || (zone.operation !== 'union' && result.missing > 0)) {
+    return result;
+  }
+
+  let combined: Feature<Polygon | MultiPolygon> | null = present[0]!;
+  try {
+    if (present.length > 1) {
+      switch (zone.operation) {
+        case 'union': {
+          combined = turf.union(turf.featureCollection(present));
+          break;
+        }
+        case 'difference': {
+          combined = turf.difference(turf.featureCollection(present));
+          break;
+        }
+        default: {
+          for (const area of present.slice(1)) {
+            combined = combined && turf.intersect(turf.featureCollection([combined, area]));
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.error('[Zones] Error combining zone sources:', error);
+    combined = null;
+  }
+
+  if (combined) {
+    result.geometry = combined.geometry;
+    result.areaKm2 = turf.area(combined) / M2_PER_KM2;
+  }
+  return result;
+}
+
+/**
+ * Rings of a zone as [polygon][ring][point], outer ring first in each polygon, each closed
+ */
+export function zonePolygons(geometry: Polygon | MultiPolygon): LatLon[][][] {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.map((rings) =>
+    rings.map((ring) => ring.map(([lon, lat]) => ({ lat: lat!, lon: lon! })))
+  );
+}
+
+/**
+ * Every vertex of a zone, e.g. to frame it on the map
+ */
+export function zoneOutline(geometry: Polygon | MultiPolygon): LatLon[] {
+  return zonePolygons(geometry).flat().flat();
+}
+
+/**
+ * Centre of a zone, from which search distances are measured
+ */
+export function zoneCenter(geometry: Polygon | MultiPolygon): LatLon {
+  const [lon, lat] = turf.centroid(geometry).geometry.coordinates;
+  return { lat: lat!, lon: lon! };
+}
+
+/**
+ * Area formatted for lists, e.g. "12.4 km²" or "3,500 m²"
+ */
+export function formatZoneArea(areaKm2: number): string {
+  return areaKm2 < 1
+    ? `${Math.round(areaKm2 * M2_PER_KM2).toLocaleString()} m²`
+    : `${areaKm2.toFixed(areaKm2 < 100 ? 2 : 0)} km²`;
+}
+
+/**
+ * Short description for lists, e.g. "Intersection • 3 sources • 12.40 km²"
+ */
+export function describeZone(zone: ZoneElement, result: ZoneResult): string {
+  const count = zone.sources.length;
+  const parts = [
+    ZONE_OPERATION_LABELS[zone.operation],
+    `${count} source${count === 1 ? '' : 's'}`,
+    result.geometry ? formatZoneArea(result.areaKm2) : 'empty',
+  ];
+  if (result.missing > 0) {
+    parts.push(`${result.missing} missing`);
+  }
+  return parts.join(' • ');
+}
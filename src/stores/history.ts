@@ -0,0 +1,418 @@
+/**
+ * History store - Undo/redo of layer, coordinate, note and visibility changes
+ *
+ * Every tracked store action is recorded as a before/after snapshot, so undoing restores
+ * the exact state regardless of how the action changed it (including note back-links).
+ * Snapshots share the copies of unchanged elements and collections with the previous one, so an
+ * action only copies what it changed.
+ */
+
+import type {
+  ArcElement,
+  CircleElement,
+  ElementType,
+  LineSegmentElement,
+  LocusElement,
+  NoteElement,
+  PointElement,
+  PolygonElement,
+  SavedCoordinate,
+  ZoneElement,
+} from '@/services/storage';
+import { defineStore } from 'pinia';
+import { v4 as uuidv4 } from 'uuid';
+import { computed, ref, toRaw } from 'vue';
+import { toRawDeep } from '@/services/storageBackends';
+import { useCoordinatesStore } from '@/stores/coordinates';
+import { useLayersStore } from '@/stores/layers';
+import { useUIStore } from '@/stores/ui';
+
+interface HistorySnapshot {
+  circles: CircleElement[];
+  lineSegments: LineSegmentElement[];
+  points: PointElement[];
+  polygons: PolygonElement[];
+  arcs: ArcElement[];
+  loci: LocusElement[];
+  zones: ZoneElement[];
+  notes: NoteElement[];
+  savedCoordinates: SavedCoordinate[];
+  elementVisibility: Record<string, boolean>;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+type ActionHook = (callback: () => void) => void;
+
+const MAX_HISTORY_ENTRIES = 100;
+const SNAPSHOT_KEYS = [
+  'circles',
+  'lineSegments',
+  'points',
+  'polygons',
+  'arcs',
+  'loci',
+  'zones',
+  'notes',
+  'savedCoordinates',
+  'elementVisibility',
+] as const;
+
+const LAYER_ACTION_LABELS: Record<string, string> = {
+  addCircle: 'Add circle',
+  updateCircle: 'Edit circle',
+  deleteCircle: 'Delete circle',
+  addLineSegment: 'Add line',
+  updateLineSegment: 'Edit line',
+  deleteLineSegment: 'Delete line',
+  addPoint: 'Add point',
+  updatePoint: 'Edit point',
+  deletePoint: 'Delete point',
+  addPolygon: 'Add polygon',
+  updatePolygon: 'Edit polygon',
+  deletePolygon: 'Delete polygon',
+  addArc: 'Add arc',
+  updateArc: 'Edit arc',
+  deleteArc: 'Delete arc',
+  addLocus: 'Add locus',
+  updateLocus: 'Edit locus',
+  deleteLocus: 'Delete locus',
+  addZone: 'Add zone',
+  updateZone: 'Edit zone',
+  deleteZone: 'Delete zone',
+  addNote: 'Add note',
+  updateNote: 'Edit note',
+  deleteNote: 'Delete note',
+  mergeLayers: 'Import layers',
+};
+
+const COORDINATE_ACTION_LABELS: Record<string, string> = {
+  addCoordinate: 'Save coordinate',
+  updateCoordinate: 'Edit coordinate',
+  deleteCoordinate: 'Delete coordinate',
+};
+
+// Loading or clearing a project replaces everything: history from another project is meaningless
+const RESET_ACTIONS = new Set(['loadLayers', 'clearLayers', 'loadCoordinates', 'clearCoordinates']);
+
+/**
+ * Deep equality of plain data, as read back from structuredClone
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const first = a as Record<string, unknown>;
+  const second = b as Record<string, unknown>;
+  const keys = Object.keys(first);
+  return (
+    keys.length === Object.keys(second).length &&
+    keys.every((key) => Object.hasOwn(second, key) && isSameValue(first[key], second[key]))
+  );
+}
+
+export const useHistoryStore = defineStore('history', () => {
+  const layersStore = useLayersStore();
+  const coordinatesStore = useCoordinatesStore();
+  const uiStore = useUIStore();
+
+  // State
+  const entries = ref<HistoryEntry[]>([]);
+  const redoEntries = ref<HistoryEntry[]>([]);
+  // Incremented after each undo/redo so the map can re-render from the stores
+  const restoreCount = ref(0);
+
+  let depth = 0;
+  let pending: { label: string; before: HistorySnapshot } | null = null;
+  let isRestoring = false;
+
+  // Computed
+  const canUndo = computed(() => entries.value.length > 0);
+  const canRedo = computed(() => redoEntries.value.length > 0);
+  const undoLabel = computed(() => entries.value.at(-1)?.label ?? null);
+  const redoLabel = computed(() => redoEntries.value.at(-1)?.label ?? null);
+
+  // Copies of live store values, reused while the live value still matches its copy
+  const copies = new WeakMap<object, unknown>();
+  let lastSnapshot: HistorySnapshot | null = null;
+
+  /**
+   * Copy of a live value, shared with earlier snapshots when unchanged
+   * Some actions edit elements in place (e.g. note back-links) and updates replace elements with
+   * equal ones, so the known copy, or else the copy previously in its place, is compared first
+   */
+  function copyOf<T>(live: T, previousInPlace?: T): T {
+    const raw = toRaw(live);
+    if (raw === null || typeof raw !== 'object') {
+      return raw;
+    }
+    const previous = copies.get(raw) ?? previousInPlace;
+    if (previous !== undefined && isSameValue(raw, previous)) {
+      copies.set(raw, previous);
+      return previous as T;
+    }
+    // Elements may still hold reactive proxies, which structuredClone rejects
+    const copy = structuredClone(toRawDeep(raw));
+    copies.set(raw, copy);
+    return copy;
+  }
+
+  function copyCollection<T>(live: T[], previous: T[] | undefined): T[] {
+    const items = toRaw(live).map((item, index) => copyOf(item, previous?.[index]));
+    const unchanged =
+      previous?.length === items.length && items.every((item, index) => item === previous[index]);
+    return unchanged ? previous : items;
+  }
+
+  function takeSnapshot(): HistorySnapshot {
+    const previous = lastSnapshot;
+    lastSnapshot = {
+      circles: copyCollection(layersStore.circles, previous?.circles),
+      lineSegments: copyCollection(layersStore.lineSegments, previous?.lineSegments),
+      points: copyCollection(layersStore.points, previous?.points),
+      polygons: copyCollection(layersStore.polygons, previous?.polygons),
+      arcs: copyCollection(layersStore.arcs, previous?.arcs),
+      loci: copyCollection(layersStore.loci, previous?.loci),
+      zones: copyCollection(layersStore.zones, previous?.zones),
+      notes: copyCollection(layersStore.notes, previous?.notes),
+      savedCoordinates: copyCollection(
+        coordinatesStore.savedCoordinates,
+        previous?.savedCoordinates
+      ),
+      elementVisibility: copyOf(uiStore.elementVisibility, previous?.elementVisibility),
+    };
+    return lastSnapshot;
+  }
+
+  function applySnapshot(snapshot: HistorySnapshot): void {
+    // The stores edit what they hold, so they get their own copy of the shared snapshot
+    const source = toRaw(snapshot);
+    const copy = structuredClone(source);
+    for (const key of SNAPSHOT_KEYS) {
+      if (key === 'elementVisibility') {
+        copies.set(copy.elementVisibility, source.elementVisibility);
+      } else {
+        for (const [index, item] of copy[key].entries()) {
+          copies.set(item, source[key][index]);
+        }
+      }
+    }
+    lastSnapshot = source;
+
+    isRestoring = true;
+    try {
+      layersStore.circles = copy.circles;
+      layersStore.lineSegments = copy.lineSegments;
+      layersStore.points = copy.points;
+      layersStore.polygons = copy.polygons;
+      layersStore.arcs = copy.arcs;
+      layersStore.loci = copy.loci;
+      layersStore.zones = copy.zones;
+      layersStore.notes = copy.notes;
+      coordinatesStore.savedCoordinates = copy.savedCoordinates;
+      uiStore.elementVisibility = copy.elementVisibility;
+    } finally {
+      isRestoring = false;
+    }
+    restoreCount.value++;
+  }
+
+  /**
+   * Open a history step; nested calls (e.g. mergeLayers, batch) fold into the outermost one
+   */
+  function begin(label: string): void {
+    if (depth === 0) {
+      pending = { label, before: takeSnapshot() };
+    }
+    depth++;
+  }
+
+  function end(): void {
+    depth = Math.max(0, depth - 1);
+    if (depth > 0 || !pending) {
+      return;
+    }
+    const { label, before } = pending;
+    pending = null;
+
+    // Unchanged collections are the very same copies
+    const after = takeSnapshot();
+    if (SNAPSHOT_KEYS.every((key) => before[key] === after[key])) {
+      return;
+    }
+
+    entries.value.push({ id: uuidv4(), label, timestamp: Date.now(), before, after });
+    if (entries.value.length > MAX_HISTORY_ENTRIES) {
+      entries.value.shift();
+    }
+    redoEntries.value = [];
+  }
+
+  function describe(label: string, name: unknown): string {
+    return typeof name === 'string' && name ? `${label} "${name}"` : label;
+  }
+
+  /**
+   * Label an action from its arguments: adds carry the element, updates and deletes an id
+   */
+  function labelLayerAction(name: string, args: unknown[]): string {
+    const label = LAYER_ACTION_LABELS[name] ?? name;
+    const [first] = args;
+    if (first && typeof first === 'object') {
+      const element = first as { name?: string; title?: string };
+      return describe(label, element.name ?? element.title);
+    }
+    if (typeof first === 'string') {
+      const type = name.replace(/^(add|update|delete)/, '');
+      const key = `${type.charAt(0).toLowerCase()}${type.slice(1)}`;
+      const element =
+        key === 'note'
+          ? layersStore.notes.find((n) => n.id === first)
+          : layersStore.getElement(key as ElementType, first);
+      return describe(label, element && ('title' in element ? element.title : element.name));
+    }
+    return label;
+  }
+
+  function track(label: string, after: ActionHook, onError: ActionHook): void {
+    begin(label);
+    after(end);
+    onError(end);
+  }
+
+  layersStore.$onAction(({ name, args, after, onError }) => {
+    if (isRestoring) {
+      return;
+    }
+    if (RESET_ACTIONS.has(name)) {
+      after(clear);
+      return;
+    }
+    if (name in LAYER_ACTION_LABELS) {
+      track(labelLayerAction(name, args), after, onError);
+    }
+  });
+
+  coordinatesStore.$onAction(({ name, args, after, onError }) => {
+    if (isRestoring) {
+      return;
+    }
+    if (RESET_ACTIONS.has(name)) {
+      after(clear);
+      return;
+    }
+    const label = COORDINATE_ACTION_LABELS[name];
+    if (label) {
+      const [first] = args as [string];
+      const coordinateName =
+        name === 'addCoordinate' ? first : coordinatesStore.getCoordinate(first)?.name;
+      track(describe(label, coordinateName), after, onError);
+    }
+  });
+
+  uiStore.$onAction(({ name, args, after, onError }) => {
+    // setElementVisibility is only used transiently by the animation
+    if (isRestoring || name !== 'toggleElementVisibility') {
+      return;
+    }
+    const [type, id] = args as [ElementType, string];
+    const element = layersStore.getElement(type, id);
+    const label = uiStore.isElementVisible(type, id) ? 'Hide' : 'Show';
+    track(describe(label, element?.name), after, onError);
+  });
+
+  // Actions
+
+  /**
+   * Record several store actions as a single history step
+   */
+  function batch<T>(label: string, operation: () => T): T {
+    begin(label);
+    try {
+      return operation();
+    } finally {
+      end();
+    }
+  }
+
+  function undo(): boolean {
+    const entry = entries.value.pop();
+    if (!entry) {
+      return false;
+    }
+    redoEntries.value.push(entry);
+    applySnapshot(entry.before);
+    return true;
+  }
+
+  function redo(): boolean {
+    const entry = redoEntries.value.pop();
+    if (!entry) {
+      return false;
+    }
+    entries.value.push(entry);
+    applySnapshot(entry.after);
+    return true;
+  }
+
+  /**
+   * Move to the state right after an entry, undoing or redoing everything in between
+   */
+  function goTo(entryId: string): void {
+    const undoIndex = entries.value.findIndex((e) => e.id === entryId);
+    if (undoIndex !== -1) {
+      const undone = entries.value.splice(undoIndex + 1);
+      if (undone.length === 0) {
+        return;
+      }
+      redoEntries.value.push(...undone.toReversed());
+      applySnapshot(entries.value[undoIndex]!.after);
+      return;
+    }
+
+    const redoIndex = redoEntries.value.findIndex((e) => e.id === entryId);
+    if (redoIndex !== -1) {
+      const redone = redoEntries.value.splice(redoIndex);
+      entries.value.push(...redone.toReversed());
+      applySnapshot(redone[0]!.after);
+    }
+  }
+
+  function clear(): void {
+    entries.value = [];
+    redoEntries.value = [];
+    lastSnapshot = null;
+  }
+
+  return {
+    // State
+    entries,
+    redoEntries,
+    restoreCount,
+
+    // Computed
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+
+    // Actions
+    batch,
+    undo,
+    redo,
+    goTo,
+    clear,
+  };
+});
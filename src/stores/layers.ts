@@ -3,14 +3,29 @@
  */
 
 import type {
+  ArcElement,
   CircleElement,
+  ElementType,
   LineSegmentElement,
+  LocusElement,
   NoteElement,
   PointElement,
   PolygonElement,
+  ZoneElement,
 } from '@/services/storage';
 import { defineStore } from 'pinia';
+import { v4 as uuidv4 } from 'uuid';
 import { computed, ref } from 'vue';
+import {
+  getArcError,
+  getCircleError,
+  getLineSegmentError,
+  getLocusError,
+  getNoteError,
+  getPointError,
+  getPolygonError,
+  getZoneError,
+} from '@/services/projectSchema';
 
 export const useLayersStore = defineStore('layers', () => {
   // State
@@ -18,6 +33,9 @@ export const useLayersStore = defineStore('layers', () => {
   const lineSegments = ref<LineSegmentElement[]>([]);
   const points = ref<PointElement[]>([]);
   const polygons = ref<PolygonElement[]>([]);
+  const arcs = ref<ArcElement[]>([]);
+  const loci = ref<LocusElement[]>([]);
+  const zones = ref<ZoneElement[]>([]);
   const notes = ref<NoteElement[]>([]);
 
   // Map of Leaflet layer IDs for removal
@@ -29,12 +47,21 @@ export const useLayersStore = defineStore('layers', () => {
       circles.value.length === 0 &&
       lineSegments.value.length === 0 &&
       points.value.length === 0 &&
-      polygons.value.length === 0
+      polygons.value.length === 0 &&
+      arcs.value.length === 0 &&
+      loci.value.length === 0 &&
+      zones.value.length === 0
   );
 
   const totalCount = computed(
     () =>
-      circles.value.length + lineSegments.value.length + points.value.length + polygons.value.length
+      circles.value.length +
+      lineSegments.value.length +
+      points.value.length +
+      polygons.value.length +
+      arcs.value.length +
+      loci.value.length +
+      zones.value.length
   );
 
   const circleCount = computed(() => circles.value.length);
@@ -45,6 +72,12 @@ export const useLayersStore = defineStore('layers', () => {
 
   const polygonCount = computed(() => polygons.value.length);
 
+  const arcCount = computed(() => arcs.value.length);
+
+  const locusCount = computed(() => loci.value.length);
+
+  const zoneCount = computed(() => zones.value.length);
+
   // Sorted layers by creation date (newest first)
   const sortedCircles = computed(() => {
     return circles.value.toSorted((a, b) => {
@@ -78,6 +111,30 @@ export const useLayersStore = defineStore('layers', () => {
     });
   });
 
+  const sortedArcs = computed(() => {
+    return arcs.value.toSorted((a, b) => {
+      const aTime = a.createdAt || 0;
+      const bTime = b.createdAt || 0;
+      return bTime - aTime; // Newest first
+    });
+  });
+
+  const sortedLoci = computed(() => {
+    return loci.value.toSorted((a, b) => {
+      const aTime = a.createdAt || 0;
+      const bTime = b.createdAt || 0;
+      return bTime - aTime; // Newest first
+    });
+  });
+
+  const sortedZones = computed(() => {
+    return zones.value.toSorted((a, b) => {
+      const aTime = a.createdAt || 0;
+      const bTime = b.createdAt || 0;
+      return bTime - aTime; // Newest first
+    });
+  });
+
   const noteCount = computed(() => notes.value.length);
 
   const sortedNotes = computed(() => {
@@ -231,13 +288,99 @@ export const useLayersStore = defineStore('layers', () => {
     }
   }
 
+  function addArc(arc: ArcElement): void {
+    // Add timestamp if not present
+    if (!arc.createdAt) {
+      arc.createdAt = Date.now();
+    }
+    arcs.value.push(arc);
+  }
+
+  function updateArc(id: string | undefined, arc: Partial<ArcElement>): void {
+    const index = arcs.value.findIndex((a) => a.id === id);
+    if (index !== -1 && arcs.value[index]) {
+      arcs.value[index] = { ...arcs.value[index], ...arc } as ArcElement;
+    }
+  }
+
+  function deleteArc(id: string | undefined): void {
+    const index = arcs.value.findIndex((a) => a.id === id);
+    if (index !== -1 && arcs.value[index]) {
+      const arc = arcs.value[index];
+      if (arc && arc.leafletId !== undefined) {
+        leafletIdMap.value.delete(`arc_${id}`);
+      }
+      arcs.value.splice(index, 1);
+    }
+  }
+
+  function addLocus(locus: LocusElement): void {
+    // Add timestamp if not present
+    if (!locus.createdAt) {
+      locus.createdAt = Date.now();
+    }
+    loci.value.push(locus);
+  }
+
+  function updateLocus(id: string | undefined, locus: Partial<LocusElement>): void {
+    const index = loci.value.findIndex((l) => l.id === id);
+    if (index !== -1 && loci.value[index]) {
+      loci.value[index] = { ...loci.value[index], ...locus } as LocusElement;
+    }
+  }
+
+  function deleteLocus(id: string | undefined): void {
+    const index = loci.value.findIndex((l) => l.id === id);
+    if (index !== -1 && loci.value[index]) {
+      const locus = loci.value[index];
+      if (locus && locus.leafletId !== undefined) {
+        leafletIdMap.value.delete(`locus_${id}`);
+      }
+      loci.value.splice(index, 1);
+    }
+  }
+
+  function addZone(zone: ZoneElement): void {
+    // Add timestamp if not present
+    if (!zone.createdAt) {
+      zone.createdAt = Date.now();
+    }
+    zones.value.push(zone);
+  }
+
+  function updateZone(id: string | undefined, zone: Partial<ZoneElement>): void {
+    const index = zones.value.findIndex((z) => z.id === id);
+    if (index !== -1 && zones.value[index]) {
+      zones.value[index] = { ...zones.value[index], ...zone } as ZoneElement;
+    }
+  }
+
+  function deleteZone(id: string | undefined): void {
+    const index = zones.value.findIndex((z) => z.id === id);
+    if (index !== -1 && zones.value[index]) {
+      const zone = zones.value[index];
+      if (zone && zone.leafletId !== undefined) {
+        leafletIdMap.value.delete(`zone_${id}`);
+      }
+      zones.value.splice(index, 1);
+    }
+  }
+
   /**
    * Helper function to get element by type and id
    */
   function getElement(
-    elementType: 'circle' | 'lineSegment' | 'point' | 'polygon',
+    elementType: ElementType,
     elementId: string
-  ): CircleElement | LineSegmentElement | PointElement | PolygonElement | undefined {
+  ):
+    | CircleElement
+    | LineSegmentElement
+    | PointElement
+    | PolygonElement
+    | ArcElement
+    | LocusElement
+    | ZoneElement
+    | undefined {
     switch (elementType) {
       case 'circle': {
         return circles.value.find((c) => c.id === elementId);
@@ -251,6 +394,15 @@ export const useLayersStore = defineStore('layers', () => {
       case 'polygon': {
         return polygons.value.find((p) => p.id === elementId);
       }
+      case 'arc': {
+        return arcs.value.find((a) => a.id === elementId);
+      }
+      case 'locus': {
+        return loci.value.find((l) => l.id === elementId);
+      }
+      case 'zone': {
+        return zones.value.find((z) => z.id === elementId);
+      }
       default: {
         return undefined;
       }
@@ -362,95 +514,46 @@ export const useLayersStore = defineStore('layers', () => {
     lineSegments.value = [];
     points.value = [];
     polygons.value = [];
+    arcs.value = [];
+    loci.value = [];
+    zones.value = [];
     notes.value = [];
     leafletIdMap.value.clear();
   }
 
   /**
-   * Validate and sanitize element data before loading
+   * Validate element data before loading (rules live in the project schema)
    */
   function validateCircle(circle: any): circle is CircleElement {
-    return (
-      circle &&
-      typeof circle.id === 'string' &&
-      typeof circle.name === 'string' &&
-      circle.center &&
-      typeof circle.center.lat === 'number' &&
-      typeof circle.center.lon === 'number' &&
-      typeof circle.radius === 'number' &&
-      !Number.isNaN(circle.center.lat) &&
-      !Number.isNaN(circle.center.lon) &&
-      !Number.isNaN(circle.radius) &&
-      circle.radius > 0
-    );
+    return getCircleError(circle) === null;
   }
 
   function validateLineSegment(segment: any): segment is LineSegmentElement {
-    if (
-      !segment ||
-      typeof segment.id !== 'string' ||
-      typeof segment.name !== 'string' ||
-      !segment.center ||
-      typeof segment.center.lat !== 'number' ||
-      typeof segment.center.lon !== 'number' ||
-      !segment.mode
-    ) {
-      return false;
-    }
-
-    // Special validation for parallel lines
-    if (segment.mode === 'parallel') {
-      return typeof segment.longitude === 'number' && !Number.isNaN(segment.longitude);
-    }
-
-    // Regular line segments need endpoint
-    return (
-      segment.endpoint &&
-      typeof segment.endpoint.lat === 'number' &&
-      typeof segment.endpoint.lon === 'number' &&
-      !Number.isNaN(segment.endpoint.lat) &&
-      !Number.isNaN(segment.endpoint.lon)
-    );
+    return getLineSegmentError(segment) === null;
   }
 
   function validatePoint(point: any): point is PointElement {
-    return (
-      point &&
-      typeof point.id === 'string' &&
-      typeof point.name === 'string' &&
-      point.coordinates &&
-      typeof point.coordinates.lat === 'number' &&
-      typeof point.coordinates.lon === 'number' &&
-      !Number.isNaN(point.coordinates.lat) &&
-      !Number.isNaN(point.coordinates.lon)
-    );
+    return getPointError(point) === null;
   }
 
   function validatePolygon(polygon: any): polygon is PolygonElement {
-    return (
-      polygon &&
-      typeof polygon.id === 'string' &&
-      typeof polygon.name === 'string' &&
-      Array.isArray(polygon.points) &&
-      polygon.points.length >= 3 &&
-      polygon.points.every(
-        (point: any) =>
-          point &&
-          typeof point.lat === 'number' &&
-          typeof point.lon === 'number' &&
-          !Number.isNaN(point.lat) &&
-          !Number.isNaN(point.lon)
-      )
-    );
+    return getPolygonError(polygon) === null;
+  }
+
+  function validateArc(arc: any): arc is ArcElement {
+    return getArcError(arc) === null;
+  }
+
+  function validateLocus(locus: any): locus is LocusElement {
+    return getLocusError(locus) === null;
+  }
+
+  function validateZone(zone: any): zone is ZoneElement {
+    return getZoneError(zone) === null;
   }
 
   function validateNote(note: any): note is NoteElement {
-    return (
-      note &&
-      typeof note.id === 'string' &&
-      typeof note.title === 'string' &&
-      typeof note.content === 'string'
-    );
+    return getNoteError(note) === null;
   }
 
   function loadLayers(data: {
@@ -458,6 +561,9 @@ export const useLayersStore = defineStore('layers', () => {
     lineSegments: LineSegmentElement[];
     points: PointElement[];
     polygons?: PolygonElement[];
+    arcs?: ArcElement[];
+    loci?: LocusElement[];
+    zones?: ZoneElement[];
     notes?: NoteElement[];
   }): void {
     clearLayers();
@@ -495,6 +601,30 @@ export const useLayersStore = defineStore('layers', () => {
       return isValid;
     });
 
+    const validArcs = (data.arcs || []).filter((arc) => {
+      const isValid = validateArc(arc);
+      if (!isValid) {
+        console.warn('Invalid arc data detected and skipped:', arc);
+      }
+      return isValid;
+    });
+
+    const validLoci = (data.loci || []).filter((locus) => {
+      const isValid = validateLocus(locus);
+      if (!isValid) {
+        console.warn('Invalid locus data detected and skipped:', locus);
+      }
+      return isValid;
+    });
+
+    const validZones = (data.zones || []).filter((zone) => {
+      const isValid = validateZone(zone);
+      if (!isValid) {
+        console.warn('Invalid zone data detected and skipped:', zone);
+      }
+      return isValid;
+    });
+
     const validNotes = (data.notes || []).filter((note) => {
       const isValid = validateNote(note);
       if (!isValid) {
@@ -505,7 +635,7 @@ export const useLayersStore = defineStore('layers', () => {
 
     // Assign timestamps to elements that don't have them (for old projects)
     // Use a sequential counter to maintain original order
-    let baseTimestamp = Date.now() - (validCircles.length + validLineSegments.length + validPoints.length + validPolygons.length) * 1000;
+    let baseTimestamp = Date.now() - (validCircles.length + validLineSegments.length + validPoints.length + validPolygons.length + validArcs.length + validLoci.length + validZones.length) * 1000;
 
     for (const circle of validCircles) {
       if (!circle.createdAt) {
@@ -535,6 +665,27 @@ export const useLayersStore = defineStore('layers', () => {
       }
     }
 
+    for (const arc of validArcs) {
+      if (!arc.createdAt) {
+        arc.createdAt = baseTimestamp;
+        baseTimestamp += 1000;
+      }
+    }
+
+    for (const locus of validLoci) {
+      if (!locus.createdAt) {
+        locus.createdAt = baseTimestamp;
+        baseTimestamp += 1000;
+      }
+    }
+
+    for (const zone of validZones) {
+      if (!zone.createdAt) {
+        zone.createdAt = baseTimestamp;
+        baseTimestamp += 1000;
+      }
+    }
+
     for (const note of validNotes) {
       if (!note.createdAt) {
         note.createdAt = baseTimestamp;
@@ -546,15 +697,141 @@ export const useLayersStore = defineStore('layers', () => {
     lineSegments.value = [...validLineSegments];
     points.value = [...validPoints];
     polygons.value = [...validPolygons];
+    arcs.value = [...validArcs];
+    loci.value = [...validLoci];
+    zones.value = [...validZones];
     notes.value = [...validNotes];
   }
 
+  /**
+   * Append imported elements to the current layers without clearing existing ones
+   * Ids that already exist are replaced so re-imported files never collide; note links follow
+   * Invalid elements are skipped; returns how many elements were actually added
+   */
+  function mergeLayers(data: {
+    circles?: CircleElement[];
+    lineSegments?: LineSegmentElement[];
+    points?: PointElement[];
+    polygons?: PolygonElement[];
+    arcs?: ArcElement[];
+    loci?: LocusElement[];
+    zones?: ZoneElement[];
+    notes?: NoteElement[];
+  }): number {
+    const remappedIds = new Map<string, string>();
+    const uniqueId = (type: ElementType, id: string) => {
+      if (id && !getElement(type, id)) {
+        return id;
+      }
+      const newId = uuidv4();
+      remappedIds.set(`${type}:${id}`, newId);
+      return newId;
+    };
+
+    let added = 0;
+
+    for (const circle of data.circles || []) {
+      if (validateCircle(circle)) {
+        addCircle({ ...circle, id: uniqueId('circle', circle.id), noteId: undefined });
+        added++;
+      } else {
+        console.warn('Invalid circle data detected and skipped:', circle);
+      }
+    }
+
+    for (const segment of data.lineSegments || []) {
+      if (validateLineSegment(segment)) {
+        addLineSegment({
+          ...segment,
+          id: uniqueId('lineSegment', segment.id),
+          noteId: undefined,
+        });
+        added++;
+      } else {
+        console.warn('Invalid line segment data detected and skipped:', segment);
+      }
+    }
+
+    for (const point of data.points || []) {
+      if (validatePoint(point)) {
+        addPoint({ ...point, id: uniqueId('point', point.id), noteId: undefined });
+        added++;
+      } else {
+        console.warn('Invalid point data detected and skipped:', point);
+      }
+    }
+
+    for (const polygon of data.polygons || []) {
+      if (validatePolygon(polygon)) {
+        addPolygon({ ...polygon, id: uniqueId('polygon', polygon.id), noteId: undefined });
+        added++;
+      } else {
+        console.warn('Invalid polygon data detected and skipped:', polygon);
+      }
+    }
+
+    for (const arc of data.arcs || []) {
+      if (validateArc(arc)) {
+        addArc({ ...arc, id: uniqueId('arc', arc.id), noteId: undefined });
+        added++;
+      } else {
+        console.warn('Invalid arc data detected and skipped:', arc);
+      }
+    }
+
+    for (const locus of data.loci || []) {
+      if (validateLocus(locus)) {
+        addLocus({ ...locus, id: uniqueId('locus', locus.id), noteId: undefined });
+        added++;
+      } else {
+        console.warn('Invalid locus data detected and skipped:', locus);
+      }
+    }
+
+    // Zones after their sources, pointing at the merged ids
+    for (const zone of data.zones || []) {
+      if (validateZone(zone)) {
+        const sources = zone.sources.map((source) => ({
+          ...source,
+          id: remappedIds.get(`${source.type}:${source.id}`) ?? source.id,
+        }));
+        addZone({ ...zone, id: uniqueId('zone', zone.id), sources, noteId: undefined });
+        added++;
+      } else {
+        console.warn('Invalid zone data detected and skipped:', zone);
+      }
+    }
+
+    // Notes last so that their linked elements already exist
+    for (const note of data.notes || []) {
+      if (validateNote(note)) {
+        const linkedElementId =
+          note.linkedElementType && note.linkedElementId
+            ? (remappedIds.get(`${note.linkedElementType}:${note.linkedElementId}`) ??
+              note.linkedElementId)
+            : note.linkedElementId;
+        addNote({
+          ...note,
+          id: notes.value.some((n) => n.id === note.id) ? uuidv4() : note.id,
+          linkedElementId,
+        });
+      } else {
+        console.warn('Invalid note data detected and skipped:', note);
+      }
+    }
+
+    return added;
+  }
+
   function exportLayers() {
     return {
       circles: circles.value,
       lineSegments: lineSegments.value,
       points: points.value,
       polygons: polygons.value,
+      arcs: arcs.value,
+      loci: loci.value,
+      zones: zones.value,
       notes: notes.value,
     };
   }
@@ -565,6 +842,9 @@ export const useLayersStore = defineStore('layers', () => {
     lineSegments,
     points,
     polygons,
+    arcs,
+    loci,
+    zones,
     notes,
     leafletIdMap,
 
@@ -575,11 +855,17 @@ export const useLayersStore = defineStore('layers', () => {
     lineSegmentCount,
     pointCount,
     polygonCount,
+    arcCount,
+    locusCount,
+    zoneCount,
     noteCount,
     sortedCircles,
     sortedLineSegments,
     sortedPoints,
     sortedPolygons,
+    sortedArcs,
+    sortedLoci,
+    sortedZones,
     sortedNotes,
 
     // Actions
@@ -595,6 +881,16 @@ export const useLayersStore = defineStore('layers', () => {
     addPolygon,
     updatePolygon,
     deletePolygon,
+    addArc,
+    updateArc,
+    deleteArc,
+    addLocus,
+    updateLocus,
+    deleteLocus,
+    addZone,
+    updateZone,
+    deleteZone,
+    getElement,
     addNote,
     updateNote,
     deleteNote,
@@ -602,6 +898,7 @@ export const useLayersStore = defineStore('layers', () => {
     getLeafletId,
     clearLayers,
     loadLayers,
+    mergeLayers,
     exportLayers,
   };
 });
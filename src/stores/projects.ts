@@ -2,15 +2,49 @@
  * Projects store - Manages project save/load operations
  */
 
-import type { ProjectData, ProjectLayerData } from '@/services/storage';
+import type { ProjectParseResult } from '@/services/projectSchema';
+import type { ProjectData, ProjectLayerData, ProjectSettings } from '@/services/storage';
 import { defineStore } from 'pinia';
 import { computed, ref } from 'vue';
 import * as storage from '@/services/storage';
+import { isQuotaExceededError } from '@/services/storageBackends';
+import { useSnapshotsStore } from '@/stores/snapshots';
+import { useUIStore } from '@/stores/ui';
+
+// Warn once usage passes this share of the browser quota
+const QUOTA_WARNING_RATIO = 0.9;
+const QUOTA_CHECK_INTERVAL_MS = 60_000;
 
 export const useProjectsStore = defineStore('projects', () => {
+  const uiStore = useUIStore();
+  const snapshotsStore = useSnapshotsStore();
+
   // State
   const projects = ref<ProjectData[]>([]);
   const activeProjectId = ref<string | null>(null);
+  const storageEstimate = ref<{ usage: number; quota: number } | null>(null);
+  const lastSaveFailed = ref(false);
+
+  let lastQuotaCheck = 0;
+  let quotaWarningShown = false;
+  let blockedToastId: string | null = null;
+  let fallbackWarningShown = false;
+
+  storage.onStorageNotice((notice) => {
+    if (notice === 'blocked') {
+      blockedToastId = uiStore.addToast(
+        'GeoChase is open in another tab with an older version. Close or reload that tab to open your projects.',
+        'info',
+        0
+      );
+    } else {
+      uiStore.addToast(
+        'GeoChase was updated in another tab. Reload this tab to keep saving your project.',
+        'error',
+        0
+      );
+    }
+  });
 
   // Computed
   const projectCount = computed(() => projects.value.length);
@@ -28,9 +62,82 @@ export const useProjectsStore = defineStore('projects', () => {
     return projects.value.find((p) => p.id === activeProjectId.value) || null;
   });
 
+  /**
+   * Surface a failed write to the user; quota errors get an actionable message
+   */
+  function reportSaveError(error: unknown, projectName?: string): void {
+    console.error('Error saving project:', error);
+    lastSaveFailed.value = true;
+    const target = projectName ? `"${projectName}"` : 'the project';
+    uiStore.addToast(
+      isQuotaExceededError(error)
+        ? `Storage is full: ${target} could not be saved. Export or delete old projects to free space.`
+        : `Saving ${target} failed. Your latest changes are not stored.`,
+      'error',
+      8000
+    );
+  }
+
+  function markSaved(): void {
+    if (lastSaveFailed.value) {
+      lastSaveFailed.value = false;
+      uiStore.addToast('Project saved again successfully', 'success');
+    }
+    void checkStorageQuota();
+  }
+
+  /**
+   * Refresh the storage estimate and warn (once per session) when close to the quota
+   */
+  async function checkStorageQuota(force = false): Promise<void> {
+    const now = Date.now();
+    if (!force && now - lastQuotaCheck < QUOTA_CHECK_INTERVAL_MS) {
+      return;
+    }
+    lastQuotaCheck = now;
+
+    try {
+      storageEstimate.value = await storage.getStorageEstimate();
+    } catch (error) {
+      console.warn('Could not read storage estimate:', error);
+      return;
+    }
+
+    const estimate = storageEstimate.value;
+    if (estimate && !quotaWarningShown && estimate.usage / estimate.quota > QUOTA_WARNING_RATIO) {
+      quotaWarningShown = true;
+      uiStore.addToast(
+        `Storage is ${Math.round((estimate.usage / estimate.quota) * 100)}% full. Export or delete old projects to keep saving.`,
+        'error',
+        8000
+      );
+    }
+  }
+
   // Actions
-  function loadProjects(): void {
-    projects.value = storage.getAllProjects();
+  async function loadProjects(): Promise<void> {
+    try {
+      const stored = await storage.getAllProjects();
+      projects.value = stored.projects;
+      for (const problem of stored.problems) {
+        uiStore.addToast(problem, 'error', 0);
+      }
+      if (blockedToastId) {
+        uiStore.removeToast(blockedToastId);
+        blockedToastId = null;
+      }
+      if (!fallbackWarningShown && (await storage.getStorageKind()) === 'localStorage') {
+        fallbackWarningShown = true;
+        uiStore.addToast(
+          'The browser database is unavailable, so projects are kept in local storage: about 5 MB in all, without automatic snapshots. Export the projects you want to keep.',
+          'error',
+          0
+        );
+      }
+    } catch (error) {
+      console.error('Error loading projects from storage:', error);
+      uiStore.addToast('Failed to load saved projects from browser storage.', 'error', 8000);
+    }
   }
 
   function setActiveProject(projectId: string | null): void {
@@ -38,32 +145,47 @@ export const useProjectsStore = defineStore('projects', () => {
     localStorage.setItem('geochase_activeProjectId', projectId || '');
   }
 
-  function createAndSwitchProject(name: string, _data: ProjectLayerData): void {
-    // Create new project with empty state and get the returned project
-    const newProject = storage.saveProject(name, {
-      circles: [],
-      lineSegments: [],
-      points: [],
-      polygons: [],
-      savedCoordinates: [],
-      notes: [],
-    });
+  async function createAndSwitchProject(name: string, _data: ProjectLayerData): Promise<void> {
+    try {
+      // Create new project with empty state and get the returned project
+      const newProject = await storage.saveProject(name, {
+        circles: [],
+        lineSegments: [],
+        points: [],
+        polygons: [],
+        arcs: [],
+        loci: [],
+        zones: [],
+        savedCoordinates: [],
+        notes: [],
+      });
 
-    // Add to local projects array
-    projects.value.push(newProject);
+      // Add to local projects array
+      projects.value.push(newProject);
 
-    // Set as active using the returned ID
-    if (newProject.id) {
-      setActiveProject(newProject.id);
+      // Set as active using the returned ID
+      if (newProject.id) {
+        setActiveProject(newProject.id);
+      }
+      markSaved();
+    } catch (error) {
+      reportSaveError(error, name);
     }
   }
 
-  function saveProject(name: string, data: ProjectLayerData): void {
-    storage.saveProject(name, data);
-    loadProjects();
+  async function saveProject(name: string, data: ProjectLayerData): Promise<ProjectData | null> {
+    try {
+      const project = await storage.saveProject(name, data);
+      projects.value.push(project);
+      markSaved();
+      return project;
+    } catch (error) {
+      reportSaveError(error, name);
+      return null;
+    }
   }
 
-  function autoSaveActiveProject(data: ProjectLayerData): void {
+  async function autoSaveActiveProject(data: ProjectLayerData): Promise<void> {
     if (!activeProjectId.value) {
       return;
     }
@@ -79,7 +201,18 @@ export const useProjectsStore = defineStore('projects', () => {
         };
 
         // Save to storage
-        storage.updateProject(index, currentProject.name, data);
+        try {
+          const saved = await storage.updateProject(currentProject, currentProject.name, data);
+          markSaved();
+          void snapshotsStore.autoSnapshot(saved);
+        } catch (error) {
+          // Autosave runs on every change: only toast the first failure in a row
+          if (lastSaveFailed.value) {
+            console.error('Autosave failed again:', error);
+          } else {
+            reportSaveError(error, currentProject.name);
+          }
+        }
       }
     }
   }
@@ -91,23 +224,54 @@ export const useProjectsStore = defineStore('projects', () => {
     }
   }
 
-  function updateProject(index: number, name: string, data: ProjectLayerData): void {
-    storage.updateProject(index, name, data);
-    loadProjects();
+  async function updateProject(
+    index: number,
+    name: string,
+    data: ProjectLayerData
+  ): Promise<boolean> {
+    const project = projects.value[index];
+    if (!project) {
+      return false;
+    }
+    try {
+      projects.value[index] = await storage.updateProject(project, name, data);
+      markSaved();
+      return true;
+    } catch (error) {
+      reportSaveError(error, name);
+      return false;
+    }
   }
 
-  function deleteProject(index: number): void {
-    storage.deleteProject(index);
-    loadProjects();
+  async function deleteProject(index: number): Promise<boolean> {
+    const project = projects.value[index];
+    if (!project?.id) {
+      return false;
+    }
+    try {
+      await storage.deleteProject(project.id);
+      projects.value.splice(index, 1);
+      void checkStorageQuota(true);
+      return true;
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      uiStore.addToast(`Failed to delete "${project.name}"`, 'error');
+      return false;
+    }
   }
 
   function getProject(index: number): ProjectData | null {
-    return storage.getProject(index);
+    return projects.value[index] || null;
   }
 
-  function clearAllProjects(): void {
-    storage.clearAllProjects();
-    projects.value = [];
+  async function clearAllProjects(): Promise<void> {
+    try {
+      await storage.clearAllProjects();
+      projects.value = [];
+    } catch (error) {
+      console.error('Error clearing projects:', error);
+      uiStore.addToast('Failed to clear projects', 'error');
+    }
   }
 
   function exportProjectAsJSON(index: number): string | null {
@@ -118,31 +282,60 @@ export const useProjectsStore = defineStore('projects', () => {
     return storage.exportProjectAsJSON(project);
   }
 
-  function importProject(jsonString: string): boolean {
-    const project = storage.importProjectFromJSON(jsonString);
+  /**
+   * Save an exported project as a new project; returns the salvage report, or null if unreadable
+   */
+  async function importProject(jsonString: string): Promise<ProjectParseResult | null> {
+    const result = storage.importProjectFromJSON(jsonString);
+    if (!result) {
+      return null;
+    }
+    const saved = await saveProject(result.project.name, result.project.data);
+    return saved ? result : null;
+  }
+
+  async function updateProjectSettings(
+    projectId: string,
+    settings: ProjectSettings
+  ): Promise<boolean> {
+    const index = projects.value.findIndex((p) => p.id === projectId);
+    const project = projects.value[index];
     if (!project) {
       return false;
     }
-    storage.saveProject(project.name, project.data);
-    loadProjects();
-    return true;
+    project.settings = { ...project.settings, ...settings };
+    try {
+      await storage.updateProjectSettings(project, settings);
+      markSaved();
+      return true;
+    } catch (error) {
+      reportSaveError(error, project.name);
+      return false;
+    }
   }
 
-  function renameProject(index: number, newName: string): void {
+  async function renameProject(index: number, newName: string): Promise<void> {
     const project = getProject(index);
     if (project) {
-      updateProject(index, newName, project.data);
+      await updateProject(index, newName, project.data);
     }
   }
 
-  // Initialize on store creation
-  loadProjects();
+  // Initialize on store creation; callers needing the project list await whenLoaded()
+  const loaded = loadProjects();
   loadActiveProject();
+  void checkStorageQuota(true);
+
+  function whenLoaded(): Promise<void> {
+    return loaded;
+  }
 
   return {
     // State
     projects,
     activeProjectId,
+    storageEstimate,
+    lastSaveFailed,
 
     // Computed
     projectCount,
@@ -151,6 +344,7 @@ export const useProjectsStore = defineStore('projects', () => {
 
     // Actions
     loadProjects,
+    whenLoaded,
     setActiveProject,
     createAndSwitchProject,
     saveProject,
@@ -162,6 +356,8 @@ export const useProjectsStore = defineStore('projects', () => {
     clearAllProjects,
     exportProjectAsJSON,
     importProject,
+    updateProjectSettings,
     renameProject,
+    checkStorageQuota,
   };
 });
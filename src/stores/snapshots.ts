@@ -0,0 +1,170 @@
+/**
+ * Snapshots store - Named and automatic project snapshots (version history)
+ */
+
+import type { ProjectSnapshot } from '@/services/snapshots';
+import type { ProjectData, ProjectLayerData } from '@/services/storage';
+import { defineStore } from 'pinia';
+import { ref } from 'vue';
+import { parseProject, summarizeIssues } from '@/services/projectSchema';
+import { createSnapshot, isSameLayerData } from '@/services/snapshots';
+import * as storage from '@/services/storage';
+import { useUIStore } from '@/stores/ui';
+
+// Autosave keeps at most one automatic snapshot per interval, and only the most recent ones
+const AUTO_SNAPSHOT_INTERVAL_MS = 30 * 60 * 1000;
+const MAX_AUTO_SNAPSHOTS = 20;
+
+export const useSnapshotsStore = defineStore('snapshots', () => {
+  const uiStore = useUIStore();
+
+  // State
+  const snapshots = ref<ProjectSnapshot[]>([]); // Snapshots of projectId, newest first
+  const projectId = ref<string | null>(null);
+  const isLoading = ref(false);
+
+  // Last automatic snapshot per project, so autosave does not hit storage every time
+  const lastAutoSnapshotAt = new Map<string, number>();
+  // Automatic snapshot in progress per project, so close autosaves cannot both take one
+  const pendingAutoSnapshots = new Map<string, Promise<void>>();
+
+  // Actions
+  async function loadSnapshots(id: string): Promise<void> {
+    projectId.value = id;
+    isLoading.value = true;
+    try {
+      snapshots.value = await storage.getProjectSnapshots(id);
+    } catch (error) {
+      console.error('Error loading snapshots:', error);
+      snapshots.value = [];
+      uiStore.addToast('Failed to load the project history', 'error');
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  async function saveSnapshot(snapshot: ProjectSnapshot): Promise<void> {
+    await storage.saveSnapshot(snapshot);
+    if (snapshot.projectId === projectId.value) {
+      snapshots.value = [snapshot, ...snapshots.value];
+    }
+  }
+
+  /**
+   * Snapshot a project's current stored layers under a name
+   */
+  async function takeSnapshot(
+    project: ProjectData,
+    name: string,
+    kind: ProjectSnapshot['kind'] = 'manual'
+  ): Promise<ProjectSnapshot | null> {
+    if (!project.id) {
+      return null;
+    }
+    try {
+      const snapshot = createSnapshot(project.id, project.data, name, kind);
+      await saveSnapshot(snapshot);
+      return snapshot;
+    } catch (error) {
+      console.error('Error saving snapshot:', error);
+      uiStore.addToast(`Failed to save snapshot "${name}"`, 'error');
+      return null;
+    }
+  }
+
+  /**
+   * Called after each autosave: keep an automatic snapshot when the last one is old enough
+   */
+  async function autoSnapshot(project: ProjectData): Promise<void> {
+    const id = project.id;
+    if (!id || pendingAutoSnapshots.has(id)) {
+      return;
+    }
+    const pending = takeAutoSnapshot(id, project.data);
+    pendingAutoSnapshots.set(id, pending);
+    try {
+      await pending;
+    } finally {
+      pendingAutoSnapshots.delete(id);
+    }
+  }
+
+  async function takeAutoSnapshot(id: string, data: ProjectLayerData): Promise<void> {
+    const now = Date.now();
+    const cached = lastAutoSnapshotAt.get(id);
+    if (cached !== undefined && now - cached < AUTO_SNAPSHOT_INTERVAL_MS) {
+      return;
+    }
+
+    try {
+      // Local storage shares about 5 MB with the projects themselves
+      if ((await storage.getStorageKind()) === 'localStorage') {
+        return;
+      }
+      const existing = await storage.getProjectSnapshots(id);
+      const autos = existing.filter((s) => s.kind === 'auto');
+      const lastAuto = autos[0]?.createdAt ?? 0;
+      lastAutoSnapshotAt.set(id, lastAuto);
+      if (now - lastAuto < AUTO_SNAPSHOT_INTERVAL_MS) {
+        return;
+      }
+      // Nothing changed since the latest snapshot of any kind
+      if (existing[0] && isSameLayerData(existing[0].data, data)) {
+        return;
+      }
+
+      await saveSnapshot(createSnapshot(id, data, 'Automatic snapshot', 'auto'));
+      lastAutoSnapshotAt.set(id, now);
+
+      const pruned = autos.slice(MAX_AUTO_SNAPSHOTS - 1).map((s) => s.id);
+      if (pruned.length > 0) {
+        await storage.deleteSnapshots(pruned);
+        snapshots.value = snapshots.value.filter((s) => !pruned.includes(s.id));
+      }
+    } catch (error) {
+      // Autosave already reports storage failures; a missed snapshot is not worth a toast
+      console.warn('Automatic snapshot failed:', error);
+    }
+  }
+
+  async function deleteSnapshot(id: string): Promise<boolean> {
+    try {
+      await storage.deleteSnapshots([id]);
+      snapshots.value = snapshots.value.filter((s) => s.id !== id);
+      return true;
+    } catch (error) {
+      console.error('Error deleting snapshot:', error);
+      uiStore.addToast('Failed to delete snapshot', 'error');
+      return false;
+    }
+  }
+
+  /**
+   * Layers of a snapshot, migrated to the current schema; malformed elements are dropped
+   */
+  function getSnapshotData(snapshot: ProjectSnapshot): ProjectLayerData {
+    const { project, issues } = parseProject({
+      name: snapshot.name,
+      data: snapshot.data,
+      version: snapshot.version,
+    });
+    if (issues.length > 0) {
+      console.warn(`Snapshot "${snapshot.name}" has invalid data: ${summarizeIssues(issues)}`);
+    }
+    return project.data;
+  }
+
+  return {
+    // State
+    snapshots,
+    projectId,
+    isLoading,
+
+    // Actions
+    loadSnapshots,
+    takeSnapshot,
+    autoSnapshot,
+    deleteSnapshot,
+    getSnapshotData,
+  };
+});
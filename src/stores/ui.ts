@@ -2,9 +2,12 @@
  * UI store - Manages UI state, modals, and notifications
  */
 
+import type { ConstructionKind } from '@/services/constructions';
+import type { CoordinateDisplay } from '@/services/coordinateFormat';
 import { defineStore } from 'pinia';
 import { v4 as uuidv4 } from 'uuid';
 import { computed, ref } from 'vue';
+import { toCoordinateDisplay } from '@/services/coordinateFormat';
 
 export type DrawingMode = 'circle' | 'line' | 'point' | 'intersection' | 'none';
 
@@ -16,22 +19,22 @@ export interface Toast {
 }
 
 export interface EditingElement {
-  type: 'circle' | 'lineSegment' | 'point' | 'note';
+  type: 'circle' | 'lineSegment' | 'point' | 'arc' | 'locus' | 'zone' | 'note';
   id: string;
 }
 
 export interface CreatingElement {
-  type: 'circle' | 'lineSegment' | 'point';
+  type: 'circle' | 'lineSegment' | 'point' | 'arc' | 'locus' | 'zone';
 }
 
 export interface NavigatingElement {
-  type: 'circle' | 'lineSegment';
+  type: 'circle' | 'lineSegment' | 'arc';
   id: string;
 }
 
 export interface SearchAlongPanel {
   isOpen: boolean;
-  elementType: 'lineSegment' | 'point' | null;
+  elementType: 'lineSegment' | 'point' | 'circle' | 'zone' | null;
   elementId: string | null;
 }
 
@@ -47,8 +50,14 @@ export interface BearingsPanel {
   sourcePointId: string | null;
 }
 
+export interface ConstructionRequest {
+  kind: ConstructionKind;
+  pointId: string | null; // Point the construction starts from, if picked from its menu
+  lineId: string | null; // Line the construction starts from, if picked from its menu
+}
+
 export interface NotePreFillElement {
-  type: 'circle' | 'lineSegment' | 'point' | 'polygon';
+  type: 'circle' | 'lineSegment' | 'point' | 'polygon' | 'arc' | 'locus' | 'zone';
   id: string;
 }
 
@@ -58,6 +67,19 @@ export interface AnimationState {
   countdown: number;
 }
 
+const COORDINATE_DISPLAY_KEY = 'geochase_coordinateDisplay';
+
+/**
+ * Coordinate display chosen in an earlier session; it applies to every project
+ */
+function loadCoordinateDisplay(): CoordinateDisplay {
+  try {
+    return toCoordinateDisplay(JSON.parse(localStorage.getItem(COORDINATE_DISPLAY_KEY) ?? 'null'));
+  } catch {
+    return toCoordinateDisplay(null);
+  }
+}
+
 export const useUIStore = defineStore('ui', () => {
   // State
   const openModals = ref<Set<string>>(new Set());
@@ -93,12 +115,16 @@ export const useUIStore = defineStore('ui', () => {
     isOpen: false,
     sourcePointId: null,
   });
+  const intersectionFinderOpen = ref(false);
+  const constraintsPanelOpen = ref(false);
   const notePreFillElement = ref<NotePreFillElement | null>(null);
+  const constructionRequest = ref<ConstructionRequest | null>(null);
   const animationState = ref<AnimationState>({
     isPlaying: false,
     currentElementIndex: -1,
     countdown: 0,
   });
+  const coordinateDisplay = ref<CoordinateDisplay>(loadCoordinateDisplay());
 
   // Computed
   const isModalOpen = computed(() => (modalId: string) => openModals.value.has(modalId));
@@ -137,8 +163,8 @@ export const useUIStore = defineStore('ui', () => {
   function addToast(
     message: string,
     type: 'success' | 'error' | 'info' = 'success',
-    duration = 3000
-  ): void {
+    duration = 3000 // 0 keeps the toast until it is closed
+  ): string {
     const id = uuidv4();
     const toast: Toast = { id, message, type, duration };
     toasts.value.push(toast);
@@ -148,6 +174,7 @@ export const useUIStore = defineStore('ui', () => {
         removeToast(id);
       }, duration);
     }
+    return id;
   }
 
   function removeToast(toastId: string): void {
@@ -202,7 +229,10 @@ export const useUIStore = defineStore('ui', () => {
     elementVisibility.value[key] = visible;
   }
 
-  function startEditing(type: 'circle' | 'lineSegment' | 'point' | 'note', id: string): void {
+  function startEditing(
+    type: 'circle' | 'lineSegment' | 'point' | 'arc' | 'locus' | 'zone' | 'note',
+    id: string
+  ): void {
     editingElement.value = { type, id };
   }
 
@@ -210,7 +240,10 @@ export const useUIStore = defineStore('ui', () => {
     editingElement.value = null;
   }
 
-  function isEditing(type: 'circle' | 'lineSegment' | 'point' | 'note', id: string): boolean {
+  function isEditing(
+    type: 'circle' | 'lineSegment' | 'point' | 'arc' | 'locus' | 'zone' | 'note',
+    id: string
+  ): boolean {
     return editingElement.value?.type === type && editingElement.value?.id === id;
   }
 
@@ -218,7 +251,9 @@ export const useUIStore = defineStore('ui', () => {
     selectedSegmentForPointCreation.value = segmentId;
   }
 
-  function startCreating(type: 'circle' | 'lineSegment' | 'point'): void {
+  function startCreating(
+    type: 'circle' | 'lineSegment' | 'point' | 'arc' | 'locus' | 'zone'
+  ): void {
     creatingElement.value = { type };
   }
 
@@ -241,7 +276,7 @@ export const useUIStore = defineStore('ui', () => {
     lineSegmentEndPreFill.value = { lat, lon };
   }
 
-  function startNavigating(type: 'circle' | 'lineSegment', id: string): void {
+  function startNavigating(type: 'circle' | 'lineSegment' | 'arc', id: string): void {
     navigatingElement.value = { type, id };
     sidebarOpen.value = false;
   }
@@ -250,7 +285,7 @@ export const useUIStore = defineStore('ui', () => {
     navigatingElement.value = null;
   }
 
-  function isNavigating(type: 'circle' | 'lineSegment', id: string): boolean {
+  function isNavigating(type: 'circle' | 'lineSegment' | 'arc', id: string): boolean {
     return navigatingElement.value?.type === type && navigatingElement.value?.id === id;
   }
 
@@ -258,7 +293,12 @@ export const useUIStore = defineStore('ui', () => {
     showTutorial.value = show;
   }
 
-  function openSearchAlong(elementType: 'lineSegment' | 'point', elementId: string): void {
+  function openSearchAlong(
+    elementType: 'lineSegment' | 'point' | 'circle' | 'zone',
+    elementId: string
+  ): void {
+    intersectionFinderOpen.value = false;
+    constraintsPanelOpen.value = false;
     searchAlongPanel.value = {
       isOpen: true,
       elementType,
@@ -319,7 +359,44 @@ export const useUIStore = defineStore('ui', () => {
     };
   }
 
-  function setNotePreFill(type: 'circle' | 'lineSegment' | 'point' | 'polygon', id: string): void {
+  function openIntersectionFinder(): void {
+    closeSearchAlong();
+    constraintsPanelOpen.value = false;
+    intersectionFinderOpen.value = true;
+    sidebarOpen.value = true;
+  }
+
+  function closeIntersectionFinder(): void {
+    intersectionFinderOpen.value = false;
+  }
+
+  function openConstraintsPanel(): void {
+    closeSearchAlong();
+    intersectionFinderOpen.value = false;
+    constraintsPanelOpen.value = true;
+    sidebarOpen.value = true;
+  }
+
+  function closeConstraintsPanel(): void {
+    constraintsPanelOpen.value = false;
+  }
+
+  function openConstruction(
+    kind: ConstructionKind,
+    source?: { type: 'point' | 'lineSegment'; id: string }
+  ): void {
+    constructionRequest.value = {
+      kind,
+      pointId: source?.type === 'point' ? source.id : null,
+      lineId: source?.type === 'lineSegment' ? source.id : null,
+    };
+    openModals.value.add('constructionModal');
+  }
+
+  function setNotePreFill(
+    type: 'circle' | 'lineSegment' | 'point' | 'polygon' | 'arc' | 'locus' | 'zone',
+    id: string
+  ): void {
     notePreFillElement.value = { type, id };
   }
 
@@ -351,6 +428,11 @@ export const useUIStore = defineStore('ui', () => {
     animationState.value.currentElementIndex = index;
   }
 
+  function setCoordinateDisplay(display: CoordinateDisplay): void {
+    coordinateDisplay.value = toCoordinateDisplay(display);
+    localStorage.setItem(COORDINATE_DISPLAY_KEY, JSON.stringify(coordinateDisplay.value));
+  }
+
   return {
     // State
     openModals,
@@ -374,8 +456,12 @@ export const useUIStore = defineStore('ui', () => {
     freeHandDrawing,
     searchBarVisible,
     bearingsPanel,
+    intersectionFinderOpen,
+    constraintsPanelOpen,
     notePreFillElement,
+    constructionRequest,
     animationState,
+    coordinateDisplay,
 
     // Computed
     isModalOpen,
@@ -422,11 +508,17 @@ export const useUIStore = defineStore('ui', () => {
     setSearchBarVisible,
     openBearings,
     closeBearings,
+    openIntersectionFinder,
+    closeIntersectionFinder,
+    openConstraintsPanel,
+    closeConstraintsPanel,
+    openConstruction,
     setNotePreFill,
     clearNotePreFill,
     startAnimation,
     stopAnimation,
     setAnimationCountdown,
     setAnimationIndex,
+    setCoordinateDisplay,
   };
 });